@@ -31,8 +31,10 @@ JOINED=$(IFS='|'; echo "${ENV_PAIRS[*]}")
 
 echo "ENVS: $JOINED"
 
-# Execute job with env overload
+# Execute job with env overload. TASK_COUNT > 1 shards the URL list across
+# that many parallel tasks (see "Sharded runs" in the README).
 gcloud run jobs execute "$JOB_NAME" \
 	--project="$PROJECT" \
   --region "$REGION" \
+  ${TASK_COUNT:+--tasks "$TASK_COUNT"} \
   --update-env-vars "^|^$JOINED"
\ No newline at end of file
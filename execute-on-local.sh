@@ -9,8 +9,15 @@ docker build --platform linux/amd64 -t prerender-jobs-local .
 # ./snapshots is bind-mounted onto OUTPUT_DIR (/app/snapshots in .env.local)
 # so each run's prerendered snapshots land on the host in snapshots/run-<ts>/.
 mkdir -p snapshots
+# config.local.json, when present, is mounted as CONFIG_FILE; non-empty
+# values in .env.local still override it.
+CONFIG_ARGS=()
+if [ -f config.local.json ]; then
+  CONFIG_ARGS=(-v "$(pwd)/config.local.json:/app/config.json:ro" -e CONFIG_FILE=/app/config.json)
+fi
 docker run --rm \
   --platform linux/amd64 \
   --env-file=.env.local \
+  "${CONFIG_ARGS[@]}" \
   -v "$(pwd)/snapshots:/app/snapshots" \
   prerender-jobs-local
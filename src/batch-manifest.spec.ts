@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildBatchManifest,
+  buildBatchManifestEntry,
+  buildBatchManifestKey,
+} from "./batch-manifest";
+import type { PipelineResult } from "./pipeline-result";
+
+const synced: PipelineResult = {
+  url: "https://example.com/a",
+  isRendered: true,
+  isCachedToR2: true,
+  objectKey: "example.com/a_abc.html",
+  digest: "d1",
+  contentLength: 1234,
+  cacheTtl: 86400,
+  seoScore: 82,
+  seoTopIssues: ["title_too_long"],
+  seoIndexable: true,
+};
+
+describe("buildBatchManifestEntry", () => {
+  it("lists the stored snapshot and SEO verdict of a synced page", () => {
+    expect(buildBatchManifestEntry(synced)).toEqual({
+      url: "https://example.com/a",
+      profile: "desktop",
+      status: "synced",
+      objectKey: "example.com/a_abc.html",
+      digest: "d1",
+      contentLength: 1234,
+      cacheTtl: 86400,
+      seo: {
+        score: 82,
+        indexable: true,
+        indexableReason: null,
+        topIssues: ["title_too_long"],
+      },
+      failureReason: null,
+    });
+  });
+
+  it("tells unchanged and fresh snapshots apart from synced ones", () => {
+    expect(
+      buildBatchManifestEntry({ ...synced, isUnchanged: true }).status,
+    ).toBe("unchanged");
+    const fresh = buildBatchManifestEntry({
+      url: "https://example.com/b",
+      profile: "mobile",
+      isRendered: false,
+      isCachedToR2: false,
+      isSkippedFresh: true,
+      objectKey: "example.com/b_def.mobile.html",
+      digest: "d2",
+      cacheTtl: 3600,
+    });
+    expect(fresh).toMatchObject({
+      profile: "mobile",
+      status: "skipped_fresh",
+      objectKey: "example.com/b_def.mobile.html",
+      contentLength: null,
+      seo: null,
+      failureReason: null,
+    });
+  });
+
+  it("records why a page failed", () => {
+    expect(
+      buildBatchManifestEntry({
+        url: "https://example.com/c",
+        isRendered: false,
+        isCachedToR2: false,
+        failure: { reason: "fetch_error", status: 503 },
+      }),
+    ).toMatchObject({
+      status: "render_failed",
+      objectKey: null,
+      seo: null,
+      failureReason: "fetch_error",
+    });
+    expect(
+      buildBatchManifestEntry({
+        ...synced,
+        isCachedToR2: false,
+        objectKey: undefined,
+      }),
+    ).toMatchObject({ status: "sync_failed", failureReason: "sync_failed" });
+  });
+});
+
+describe("buildBatchManifest", () => {
+  it("sorts entries by URL, then profile", () => {
+    const manifest = buildBatchManifest({
+      batchId: "batch-1",
+      executionId: "exec-1",
+      results: [
+        { ...synced, url: "https://example.com/b" },
+        { ...synced, profile: "mobile" },
+        synced,
+      ],
+    });
+    expect(
+      manifest.entries.map((entry) => `${entry.url} ${entry.profile}`),
+    ).toEqual([
+      "https://example.com/a desktop",
+      "https://example.com/a mobile",
+      "https://example.com/b desktop",
+    ]);
+    expect(manifest).toMatchObject({
+      batchId: "batch-1",
+      executionId: "exec-1",
+    });
+  });
+});
+
+describe("buildBatchManifestKey", () => {
+  it("is scoped to the batch", () => {
+    expect(buildBatchManifestKey("batch-1")).toBe(
+      "batches/batch-1/manifest.json",
+    );
+  });
+});
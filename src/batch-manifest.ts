@@ -0,0 +1,108 @@
+import type { PrerenderFailureCode } from "./prerender-failure";
+import { resultProfileName, type PipelineResult } from "./pipeline-result";
+import type { IndexableReason } from "./seo-analyzer/type";
+
+export type BatchManifestStatus =
+  | "synced"
+  | "unchanged"
+  | "skipped_fresh"
+  | "render_failed"
+  | "sync_failed";
+
+/** One URL and render profile of the batch, and the snapshot it left. */
+export interface BatchManifestEntry {
+  url: string;
+  profile: string;
+  status: BatchManifestStatus;
+  // Null when no snapshot was stored
+  objectKey: string | null;
+  digest: string | null;
+  // Only known for snapshots synced by this batch
+  contentLength: number | null;
+  cacheTtl: number | null;
+  // Null for pages that weren't rendered
+  seo: {
+    score: number | null;
+    indexable: boolean | null;
+    indexableReason: IndexableReason | null;
+    topIssues: string[];
+  } | null;
+  // Set for the two failed statuses, as in the webhook's failure sections
+  failureReason: PrerenderFailureCode | null;
+}
+
+/**
+ * Every page a batch wrote or kept, across all shards and render profiles.
+ * Written next to the shard manifests so "what did batch X write" is one
+ * object read.
+ */
+export interface BatchManifest {
+  batchId: string;
+  executionId: string;
+  generatedAt: string;
+  entries: BatchManifestEntry[];
+}
+
+export function buildBatchManifestKey(batchId: string): string {
+  return `batches/${batchId}/manifest.json`;
+}
+
+function entryStatus(result: PipelineResult): BatchManifestStatus {
+  if (result.isSkippedFresh) return "skipped_fresh";
+  if (!result.isRendered) return "render_failed";
+  if (!result.isCachedToR2) return "sync_failed";
+  return result.isUnchanged ? "unchanged" : "synced";
+}
+
+export function buildBatchManifestEntry(
+  result: PipelineResult,
+): BatchManifestEntry {
+  const status = entryStatus(result);
+  return {
+    url: result.url,
+    profile: resultProfileName(result),
+    status,
+    objectKey: result.objectKey ?? null,
+    digest: result.digest ?? null,
+    contentLength: result.contentLength ?? null,
+    cacheTtl: result.cacheTtl ?? null,
+    seo: result.isRendered
+      ? {
+          score: result.seoScore ?? null,
+          indexable: result.seoIndexable ?? null,
+          indexableReason: result.seoIndexableReason ?? null,
+          topIssues: result.seoTopIssues ?? [],
+        }
+      : null,
+    failureReason:
+      status === "render_failed"
+        ? (result.failure?.reason ?? "unknown")
+        : status === "sync_failed"
+          ? "sync_failed"
+          : null,
+  };
+}
+
+/** Entries are sorted by URL, then profile, so manifests diff cleanly. */
+export function buildBatchManifest({
+  batchId,
+  executionId,
+  results,
+}: {
+  batchId: string;
+  executionId: string;
+  results: Iterable<PipelineResult>;
+}): BatchManifest {
+  const entries = [...results]
+    .map(buildBatchManifestEntry)
+    .sort(
+      (a, b) =>
+        a.url.localeCompare(b.url) || a.profile.localeCompare(b.profile),
+    );
+  return {
+    batchId,
+    executionId,
+    generatedAt: new Date().toISOString(),
+    entries,
+  };
+}
@@ -1,6 +1,10 @@
 import { Browser } from "puppeteer-core";
 import { AppLogger } from "./logger";
 
+// Recycle a slot's browser after this many renders so long runs don't
+// accumulate Chromium memory bloat.
+export const RECYCLE_AFTER_RENDERS = 20;
+
 /**
  * One browser per pipeline stream, owned for the stream's lifetime. Slots
  * relaunch on demand when a browser dies; callers recycle them periodically
@@ -10,6 +14,9 @@ export class BrowserPool {
   private readonly _slots: (Browser | null)[];
   private readonly _launch: () => Promise<Browser>;
   private readonly _logger: AppLogger;
+  // Idle slots for acquire(); batch streams pin their own slot instead.
+  private readonly _idleSlots: number[];
+  private readonly _slotWaiters: ((slot: number) => void)[] = [];
 
   static register({
     size,
@@ -31,6 +38,32 @@ export class BrowserPool {
     this._slots = new Array<Browser | null>(size).fill(null);
     this._launch = launch;
     this._logger = logger;
+    this._idleSlots = this._slots.map((_, slot) => slot);
+  }
+
+  get size(): number {
+    return this._slots.length;
+  }
+
+  /**
+   * Wait for an idle slot, for callers that share the pool between
+   * concurrent requests (the render server). Pair with release().
+   */
+  async acquire(): Promise<number> {
+    const slot = this._idleSlots.shift();
+    if (slot !== undefined) {
+      return slot;
+    }
+    return new Promise((resolve) => this._slotWaiters.push(resolve));
+  }
+
+  release(slot: number): void {
+    const waiter = this._slotWaiters.shift();
+    if (waiter) {
+      waiter(slot);
+    } else {
+      this._idleSlots.push(slot);
+    }
   }
 
   /** Launch every slot up front so first renders don't pay launch latency. */
@@ -92,7 +125,9 @@ export class BrowserPool {
 
   async closeAll(): Promise<void> {
     await Promise.all(
-      this._slots.map((b) => (b ? b.close().catch(() => {}) : Promise.resolve())),
+      this._slots.map((b) =>
+        b ? b.close().catch(() => {}) : Promise.resolve(),
+      ),
     );
   }
 }
@@ -112,8 +112,12 @@ function stripTrailingSlash(targetUrl: string): string {
 
 export async function buildSnapshotObjectKey({
   targetUrl: rawTargetUrl,
+  variant,
 }: {
   targetUrl: string;
+  // Render-profile variant (e.g. "mobile"); the default profile has none and
+  // keeps the key the worker derives.
+  variant?: string;
 }): Promise<string> {
   // Trailing-slash variants must collapse to one object even when a writer
   // receives the un-normalized form (e.g. a redirect-followed final URL).
@@ -133,5 +137,34 @@ export async function buildSnapshotObjectKey({
     .replace(/\//g, "_");
   const base = safePath || "root";
   const kvKeyDigest = await sha256Hex(buildKvKey({ targetUrl }));
-  return `${CACHE_VERSION}/${safeHost}/${base}_${kvKeyDigest.slice(0, 16)}.html`;
+  const suffix = variant ? `.${variant}` : "";
+  return `${CACHE_VERSION}/${safeHost}/${base}_${kvKeyDigest.slice(0, 16)}${suffix}.html`;
+}
+
+/**
+ * Key of a snapshot's JSON sidecar (full SEO analysis, diagnostics, sanitizer
+ * report), stored next to it: `about_abf24d57a306f5a7.mobile.html` becomes
+ * `about_abf24d57a306f5a7.mobile.analysis.json`. Job-side only; the worker
+ * never reads it.
+ */
+export function buildSnapshotSidecarKey(objectKey: string): string {
+  return `${objectKey.replace(/\.html$/, "")}.analysis.json`;
+}
+
+/**
+ * Key of one of a page's history slots (SNAPSHOT_HISTORY):
+ * `about_abf24d57a306f5a7.mobile.html` keeps slot 2 at
+ * `about_abf24d57a306f5a7.mobile.history-2.html`. Slots are reused round-robin,
+ * so a page never has more than SNAPSHOT_HISTORY of them.
+ */
+export function buildSnapshotHistoryKey(
+  objectKey: string,
+  slot: number,
+): string {
+  return `${objectKey.replace(/\.html$/, "")}.history-${slot}.html`;
+}
+
+/** Key of the JSON index listing a page's history slots, newest first. */
+export function buildSnapshotHistoryIndexKey(objectKey: string): string {
+  return `${objectKey.replace(/\.html$/, "")}.history.json`;
 }
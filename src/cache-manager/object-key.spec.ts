@@ -1,5 +1,8 @@
 import { describe, expect, it } from "vitest";
-import { buildSnapshotObjectKey } from "./kv-key-utils";
+import {
+  buildSnapshotObjectKey,
+  buildSnapshotSidecarKey,
+} from "./kv-key-utils";
 
 // Expected literals generated by the lovablehtml worker's derivation
 // (deriveSnapshotObjectKey). If a case fails, the two repos derive different
@@ -61,4 +64,26 @@ describe("snapshot object key parity with lovablehtml worker", () => {
       }),
     );
   });
+
+  it("suffixes render-profile variants next to the default key", async () => {
+    expect(
+      await buildSnapshotObjectKey({
+        targetUrl: "https://example.com/about",
+        variant: "mobile",
+      }),
+    ).toBe("v1/example.com/about_abf24d57a306f5a7.mobile.html");
+  });
+});
+
+describe("buildSnapshotSidecarKey", () => {
+  it("swaps the snapshot's extension, keeping any variant suffix", () => {
+    expect(
+      buildSnapshotSidecarKey("v1/example.com/about_abf24d57a306f5a7.html"),
+    ).toBe("v1/example.com/about_abf24d57a306f5a7.analysis.json");
+    expect(
+      buildSnapshotSidecarKey(
+        "v1/example.com/about_abf24d57a306f5a7.mobile.html",
+      ),
+    ).toBe("v1/example.com/about_abf24d57a306f5a7.mobile.analysis.json");
+  });
 });
@@ -0,0 +1,231 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+  type MockInstance,
+} from "vitest";
+import type { RenderDiagnostics } from "../render-engine";
+import { SeoAnalyzer } from "../seo-analyzer";
+import type { PageSeoAnalysis } from "../seo-analyzer/type";
+import {
+  getJsonObject,
+  LocalFsStore,
+  metadataByteSize,
+} from "../snapshot-store";
+import { buildSnapshotSidecarKey } from "./kv-key-utils";
+import { R2Loader } from "./r2-loader";
+import type { SnapshotSidecar } from "./type";
+
+// As long as a LocalFsStore file name allows (255 bytes)
+const URL_TO_RENDER = `https://example.com/${"very-long-path-segment/".repeat(9)}`;
+const HTML =
+  "<html><head><title>About</title></head><body><h1>About</h1><p>Hello world</p></body></html>";
+
+function analysisOf(html: string): PageSeoAnalysis {
+  return SeoAnalyzer.register({
+    html,
+    url: URL_TO_RENDER,
+    statusCode: 200,
+    xRobotsTag: null,
+  }).analyze();
+}
+
+// Every list at the length its *ToMetadata helper stops at, with non-ASCII
+// text that grows when escaped for headers.
+function worstCaseAnalysis(): PageSeoAnalysis {
+  const types = Array.from(
+    { length: 40 },
+    (_, i) => `VeryLongSchemaOrgTypeName${i}`,
+  );
+  return {
+    ...analysisOf(HTML),
+    structuredDataTypes: types,
+    structuredData: types.map((type) => ({
+      source: "json-ld",
+      type,
+      missingProperties: ["offers|review|aggregateRating", "image", "author"],
+      richResultEligible: true,
+    })),
+    robotsTxtVerdict: {
+      userAgent: "*",
+      allowed: false,
+      rule: `Disallow: /${"é".repeat(300)}`,
+    },
+    issues: Array.from({ length: 10 }, (_, i) => ({
+      id: `some_long_issue_identifier_${i}`,
+      penalty: 10,
+    })),
+  };
+}
+
+function worstCaseDiagnostics(): RenderDiagnostics {
+  const many = (text: string) => Array.from({ length: 50 }, () => text);
+  return {
+    readyReason: "hard_timeout",
+    durationMs: 30000,
+    failedRequests: many("x").map((_, i) => ({
+      url: `https://cdn.example.com/${"a".repeat(200)}/${i}.js`,
+      error: "net::ERR_CONNECTION_RESET".repeat(4),
+    })),
+    pendingRequests: many(`https://api.example.com/${"p".repeat(200)}`),
+    consoleErrors: many("Uncaught TypeError: “undefined” ✗ ".repeat(10)),
+    pageErrors: many("ReferenceError: 変数 is not defined ".repeat(10)),
+  };
+}
+
+describe("R2Loader metadata", () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "r2-loader-"));
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  function loaderFor(store: LocalFsStore) {
+    return R2Loader.register({
+      targetUrl: URL_TO_RENDER,
+      html: HTML,
+      seoAnalysis: worstCaseAnalysis(),
+      userAgent: `Mozilla/5.0 (compatible; ${"Prerender".repeat(20)})`,
+      diagnostics: worstCaseDiagnostics(),
+      store,
+      cacheTtl: 3600,
+    });
+  }
+
+  it("fits worst-case metadata into the R2 cap without trimming", async () => {
+    const store = LocalFsStore.register({ rootDir, maxMetadataBytes: 8192 });
+    const { r2Synced, objectKey } = await loaderFor(store).uploadR2Object();
+
+    expect(r2Synced).toBe(true);
+    const { metadata } = (await store.head(objectKey!))!;
+    expect(metadataByteSize(metadata)).toBeLessThanOrEqual(8192);
+    expect(metadata.metadatatrimmed).toBeUndefined();
+    expect(metadata.renderfailedrequests).not.toBe("[]");
+  });
+
+  it("trims worst-case metadata to the S3 cap, keeping the sidecar whole", async () => {
+    const store = LocalFsStore.register({ rootDir, maxMetadataBytes: 2048 });
+    const { r2Synced, objectKey, digest } =
+      await loaderFor(store).uploadR2Object();
+
+    expect(r2Synced).toBe(true);
+    const { metadata } = (await store.head(objectKey!))!;
+    expect(metadataByteSize(metadata)).toBeLessThanOrEqual(2048);
+    expect(metadata).toMatchObject({
+      url: URL_TO_RENDER,
+      digest,
+      cachettl: "3600",
+      variant: "desktop",
+      seoindexable: "true",
+      metadatatrimmed: "true",
+    });
+    expect(metadata.renderfailedrequests).toBeUndefined();
+    expect(metadata.seostructureddatamissing).toBeUndefined();
+
+    const sidecar = await getJsonObject<SnapshotSidecar>(
+      store,
+      buildSnapshotSidecarKey(objectKey!),
+    );
+    expect(sidecar?.diagnostics?.failedRequests).toHaveLength(50);
+    expect(sidecar?.seoAnalysis.structuredDataTypes).toHaveLength(40);
+  });
+
+  it("trims the metadata refresh of an unchanged snapshot too", async () => {
+    const store = LocalFsStore.register({ rootDir, maxMetadataBytes: 2048 });
+    await loaderFor(store).uploadR2Object();
+    const { unchanged, objectKey } = await loaderFor(store).uploadR2Object();
+
+    expect(unchanged).toBe(true);
+    const { metadata } = (await store.head(objectKey!))!;
+    expect(metadataByteSize(metadata)).toBeLessThanOrEqual(2048);
+  });
+});
+
+describe("R2Loader unchanged snapshots", () => {
+  let rootDir: string;
+  let store: LocalFsStore;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "r2-loader-"));
+    store = LocalFsStore.register({ rootDir });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  function loaderFor(html: string) {
+    return R2Loader.register({
+      targetUrl: URL_TO_RENDER,
+      html,
+      seoAnalysis: analysisOf(html),
+      userAgent: "Mozilla/5.0",
+      store,
+      cacheTtl: 3600,
+    });
+  }
+
+  function bodyPuts(put: MockInstance<LocalFsStore["put"]>) {
+    return put.mock.calls.filter(([key]) => key.endsWith(".html"));
+  }
+
+  it("only refreshes the metadata when the stored digest matches", async () => {
+    const first = await loaderFor(HTML).uploadR2Object();
+    const put = vi.spyOn(store, "put");
+    const replaceMetadata = vi.spyOn(store, "replaceMetadata");
+
+    const second = await loaderFor(HTML).uploadR2Object();
+
+    expect(second).toEqual({ ...first, unchanged: true });
+    expect(replaceMetadata).toHaveBeenCalledOnce();
+    expect(replaceMetadata.mock.calls[0]?.[0]).toBe(first.objectKey);
+    expect(bodyPuts(put)).toEqual([]);
+    // The sidecar still follows the refresh
+    expect(put.mock.calls.map(([key]) => key)).toEqual([
+      buildSnapshotSidecarKey(first.objectKey!),
+    ]);
+  });
+
+  it("re-uploads a changed page", async () => {
+    await loaderFor(HTML).uploadR2Object();
+    const put = vi.spyOn(store, "put");
+    const replaceMetadata = vi.spyOn(store, "replaceMetadata");
+
+    const changed = HTML.replace("Hello", "Goodbye");
+    const { unchanged } = await loaderFor(changed).uploadR2Object();
+
+    expect(unchanged).toBe(false);
+    expect(replaceMetadata).not.toHaveBeenCalled();
+    expect(bodyPuts(put)).toHaveLength(1);
+  });
+
+  it("falls back to a full upload when the metadata refresh fails", async () => {
+    const first = await loaderFor(HTML).uploadR2Object();
+    const put = vi.spyOn(store, "put");
+    vi.spyOn(store, "replaceMetadata").mockRejectedValueOnce(
+      new Error("copy failed"),
+    );
+
+    const second = await loaderFor(HTML).uploadR2Object();
+
+    expect(second).toMatchObject({
+      r2Synced: true,
+      unchanged: false,
+      digest: first.digest,
+    });
+    const [upload] = bodyPuts(put);
+    expect(upload?.[0]).toBe(first.objectKey);
+    expect(Buffer.from(upload?.[1] ?? "").toString()).toBe(HTML);
+  });
+});
@@ -1,20 +1,89 @@
-import { PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
 import { AppLogger } from "../logger";
-import { buildSnapshotObjectKey } from "./kv-key-utils";
-import { CACHE_VERSION, KvRecord } from "./type";
+import type { SanitizerReport } from "../html-sanitizer/type";
+import {
+  buildSnapshotObjectKey,
+  buildSnapshotSidecarKey,
+} from "./kv-key-utils";
+import {
+  recordSnapshotVersion,
+  SNAPSHOT_CONTENT_TYPE,
+  snapshotPutOptions,
+} from "./snapshot-history";
+import { CACHE_VERSION, KvRecord, type SnapshotSidecar } from "./type";
+import { DEFAULT_RENDER_PROFILE_NAME } from "../render-profile";
+import { robotsTxtVerdictToMetadata } from "../robots-txt";
+import { topSeoIssueIds } from "../seo-analyzer/score";
+import { structuredDataToMetadata } from "../seo-analyzer/structured-data";
 import { PageSeoAnalysis } from "../seo-analyzer/type";
+import {
+  metadataByteSize,
+  putJsonObject,
+  type SnapshotStore,
+} from "../snapshot-store";
 import { sha256Hex } from "../util";
 import {
   renderDiagnosticsToMetadata,
   type RenderDiagnostics,
 } from "../render-engine";
 
-export interface R2CacheConfig {
-  cfAccountId: string;
-  r2AccessKeyId: string;
-  r2SecretAccessKey: string;
-  r2BucketName: string;
-  cacheTtl: number;
+// Dropped first, in this order, when a snapshot's metadata is over the
+// store's cap (2KB on AWS S3): the long diagnostic and SEO lists, all of
+// which the sidecar keeps in full.
+const METADATA_TRIM_ORDER = [
+  "renderFailedRequests",
+  "renderConsoleErrors",
+  "renderPendingRequests",
+  "renderPageErrors",
+  "seoStructuredDataMissing",
+  "seoRichResultTypes",
+  "seoStructuredDataTypes",
+  "seoRobotsTxtRule",
+  "seoTopIssues",
+  "userAgent",
+  "accept",
+  "renderReadyReason",
+];
+
+// Never trimmed: freshness checks, the regression guard and rollback read
+// these straight from the object metadata.
+const REQUIRED_METADATA_KEYS = new Set([
+  "url",
+  "digest",
+  "createdAt",
+  "cacheTtl",
+  "cacheVersion",
+  "variant",
+  "seoIndexable",
+  "seoWordCount",
+  "seoTitleStatus",
+  "seoH1Status",
+  "metadataTrimmed",
+]);
+
+/**
+ * Cut metadata down to maxBytes: the METADATA_TRIM_ORDER keys first, then
+ * any other optional key from the end. Trimmed metadata is flagged with
+ * `metadataTrimmed`, pointing readers at the `.analysis.json` sidecar.
+ */
+function fitMetadataToLimit(
+  metadata: Record<string, string>,
+  maxBytes: number | null,
+): Record<string, string> {
+  if (maxBytes === null || metadataByteSize(metadata) <= maxBytes) {
+    return metadata;
+  }
+  const fitted: Record<string, string> = {
+    ...metadata,
+    metadataTrimmed: "true",
+  };
+  const optionalKeys = Object.keys(metadata)
+    .filter((key) => !REQUIRED_METADATA_KEYS.has(key))
+    .reverse();
+  for (const key of new Set([...METADATA_TRIM_ORDER, ...optionalKeys])) {
+    if (metadataByteSize(fitted) <= maxBytes) break;
+    delete fitted[key];
+  }
+  return fitted;
 }
 
 export class R2Loader {
@@ -24,7 +93,11 @@ export class R2Loader {
   private readonly _userAgent: string;
   private readonly _diagnostics: RenderDiagnostics | undefined;
   private readonly _logger: AppLogger;
-  private readonly _r2CacheConfig: R2CacheConfig;
+  private readonly _store: SnapshotStore;
+  private readonly _cacheTtl: number;
+  private readonly _variant: string | undefined;
+  private readonly _sanitizerReport: SanitizerReport | undefined;
+  private readonly _historySize: number;
 
   static register({
     targetUrl,
@@ -32,14 +105,25 @@ export class R2Loader {
     seoAnalysis,
     userAgent,
     diagnostics,
-    r2CacheConfig,
+    store,
+    cacheTtl,
+    variant,
+    sanitizerReport,
+    historySize = 0,
   }: {
     targetUrl: string;
     html: string;
     seoAnalysis: PageSeoAnalysis;
     userAgent: string;
     diagnostics?: RenderDiagnostics;
-    r2CacheConfig: R2CacheConfig;
+    // R2 in production; any SnapshotStore backend keeps the same key layout.
+    store: SnapshotStore;
+    cacheTtl: number;
+    // Render-profile variant; unset for the default (desktop) snapshot.
+    variant?: string;
+    sanitizerReport?: SanitizerReport;
+    // SNAPSHOT_HISTORY: versions kept per page besides the live one; 0 is off.
+    historySize?: number;
   }): R2Loader {
     return new R2Loader(
       targetUrl,
@@ -47,7 +131,11 @@ export class R2Loader {
       seoAnalysis,
       userAgent,
       diagnostics,
-      r2CacheConfig,
+      store,
+      cacheTtl,
+      variant,
+      sanitizerReport,
+      historySize,
     );
   }
 
@@ -57,14 +145,22 @@ export class R2Loader {
     seoAnalysis: PageSeoAnalysis,
     userAgent: string,
     diagnostics: RenderDiagnostics | undefined,
-    r2CacheConfig: R2CacheConfig,
+    store: SnapshotStore,
+    cacheTtl: number,
+    variant: string | undefined,
+    sanitizerReport: SanitizerReport | undefined,
+    historySize: number,
   ) {
     this._targetUrl = targetUrl;
     this._html = html;
     this._seoAnalysis = seoAnalysis;
     this._userAgent = userAgent;
     this._diagnostics = diagnostics;
-    this._r2CacheConfig = r2CacheConfig;
+    this._store = store;
+    this._cacheTtl = cacheTtl;
+    this._variant = variant;
+    this._sanitizerReport = sanitizerReport;
+    this._historySize = historySize;
     this._logger = AppLogger.register({
       prefix: `r2-loader`,
     });
@@ -73,6 +169,12 @@ export class R2Loader {
   async uploadR2Object(): Promise<{
     r2Synced: boolean;
     objectKey: string | null;
+    // The stored object already had this exact HTML, so only its metadata
+    // (createdAt, TTL, SEO/diagnostics) was refreshed — no body rewrite.
+    unchanged: boolean;
+    // Of the stored body; null when nothing was synced.
+    digest: string | null;
+    contentLength: number | null;
   }> {
     try {
       new URL(this._targetUrl);
@@ -80,7 +182,13 @@ export class R2Loader {
       this._logger.error(
         `Invalid URL: ${e instanceof Error ? e.message : String(e)}`,
       );
-      return { r2Synced: false, objectKey: null };
+      return {
+        r2Synced: false,
+        objectKey: null,
+        unchanged: false,
+        digest: null,
+        contentLength: null,
+      };
     }
 
     const digest = await sha256Hex(this._html);
@@ -90,6 +198,7 @@ export class R2Loader {
     // worker's buildObjectKey mirrors this derivation — keep in sync.
     const objectKey = await buildSnapshotObjectKey({
       targetUrl: this._targetUrl,
+      variant: this._variant,
     });
     const bodyBytes = new TextEncoder().encode(this._html);
     const kvRecord = this.buildKvRecord({
@@ -98,29 +207,121 @@ export class R2Loader {
       contentLength: bodyBytes.byteLength,
     });
 
+    const r2Metadata = fitMetadataToLimit(
+      this.buildR2ObjectMetadata({ kvRecord }),
+      this._store.maxMetadataBytes,
+    );
+    if (r2Metadata.metadataTrimmed) {
+      this._logger.info(
+        `Trimmed metadata of ${objectKey} to the store's ${this._store.maxMetadataBytes}-byte limit; the sidecar keeps it in full`,
+      );
+    }
+
+    // Unchanged page: refresh the stored object's metadata in place instead
+    // of re-uploading the same bytes. A failed refresh falls through to the
+    // full upload below.
+    if ((await this.headR2ObjectDigest({ objectKey })) === digest) {
+      try {
+        await this.refreshR2ObjectMetadata({ objectKey, r2Metadata });
+        await this.putSidecar({ kvRecord });
+        return {
+          r2Synced: true,
+          objectKey,
+          unchanged: true,
+          digest,
+          contentLength: kvRecord.contentLength,
+        };
+      } catch (e) {
+        this._logger.warn(
+          `Failed to refresh metadata of unchanged R2 object ${objectKey}, re-uploading`,
+          e,
+        );
+      }
+    }
+
     // Upload R2 object
     try {
       await this.putR2Object({
         objectKey,
         bodyBytes,
-        r2Metadata: this.buildR2ObjectMetadata({ kvRecord }),
+        r2Metadata,
       });
     } catch (e) {
       this._logger.error("Failed to upload R2 object:", e);
-      return { r2Synced: false, objectKey: null };
+      return {
+        r2Synced: false,
+        objectKey: null,
+        unchanged: false,
+        digest: null,
+        contentLength: null,
+      };
+    }
+    await this.putSidecar({ kvRecord });
+    await this.recordVersion({ kvRecord, bodyBytes, r2Metadata });
+    return {
+      r2Synced: true,
+      objectKey,
+      unchanged: false,
+      digest,
+      contentLength: kvRecord.contentLength,
+    };
+  }
+
+  /**
+   * Write the snapshot's JSON sidecar. A failed write only loses the
+   * dashboard's detail view, so it's logged rather than failing the sync.
+   */
+  private async putSidecar({ kvRecord }: { kvRecord: KvRecord }) {
+    const sidecarKey = buildSnapshotSidecarKey(kvRecord.objectKey);
+    try {
+      await putJsonObject(
+        this._store,
+        sidecarKey,
+        this.buildSidecar({ kvRecord }),
+      );
+    } catch (e) {
+      this._logger.warn(`Failed to write sidecar ${sidecarKey}`, e);
     }
-    return { r2Synced: true, objectKey };
   }
 
-  private get r2Client(): S3Client {
-    return new S3Client({
-      region: "auto",
-      endpoint: `https://${this._r2CacheConfig.cfAccountId}.r2.cloudflarestorage.com`,
-      credentials: {
-        accessKeyId: this._r2CacheConfig.r2AccessKeyId,
-        secretAccessKey: this._r2CacheConfig.r2SecretAccessKey,
-      },
-    });
+  private buildSidecar({ kvRecord }: { kvRecord: KvRecord }): SnapshotSidecar {
+    return {
+      url: kvRecord.url,
+      objectKey: kvRecord.objectKey,
+      digest: kvRecord.digest,
+      createdAt: kvRecord.createdAt,
+      variant: this._variant ?? DEFAULT_RENDER_PROFILE_NAME,
+      seoAnalysis: this._seoAnalysis,
+      diagnostics: this._diagnostics ?? null,
+      sanitizer: this._sanitizerReport ?? null,
+    };
+  }
+
+  /** Digest of the stored snapshot, or null when absent or unreadable. */
+  private async headR2ObjectDigest({
+    objectKey,
+  }: {
+    objectKey: string;
+  }): Promise<string | null> {
+    try {
+      return (await this._store.head(objectKey))?.metadata.digest ?? null;
+    } catch (e) {
+      this._logger.warn(`Failed to HEAD R2 object ${objectKey}`, e);
+      return null;
+    }
+  }
+
+  private async refreshR2ObjectMetadata({
+    objectKey,
+    r2Metadata,
+  }: {
+    objectKey: string;
+    r2Metadata: Record<string, string>;
+  }) {
+    await this._store.replaceMetadata(
+      objectKey,
+      snapshotPutOptions({ cacheTtl: this._cacheTtl, metadata: r2Metadata }),
+    );
   }
 
   private async putR2Object({
@@ -132,19 +333,45 @@ export class R2Loader {
     bodyBytes: Uint8Array;
     r2Metadata: Record<string, string>;
   }) {
-    const { cacheTtl } = this._r2CacheConfig;
-    await this.r2Client.send(
-      new PutObjectCommand({
-        Bucket: this._r2CacheConfig.r2BucketName,
-        Key: objectKey,
-        Body: bodyBytes,
-        ContentType: "text/html; charset=utf-8",
-        CacheControl: `public, max-age=${cacheTtl}, s-maxage=${cacheTtl}`,
-        Metadata: r2Metadata,
-      }),
+    await this._store.put(
+      objectKey,
+      bodyBytes,
+      snapshotPutOptions({ cacheTtl: this._cacheTtl, metadata: r2Metadata }),
     );
   }
 
+  /**
+   * Keep a copy of a newly uploaded body in the page's history. Like the
+   * sidecar, a failed write is logged: the live snapshot is already synced.
+   */
+  private async recordVersion({
+    kvRecord,
+    bodyBytes,
+    r2Metadata,
+  }: {
+    kvRecord: KvRecord;
+    bodyBytes: Uint8Array;
+    r2Metadata: Record<string, string>;
+  }) {
+    if (this._historySize <= 0) return;
+    try {
+      const { version, key } = await recordSnapshotVersion({
+        store: this._store,
+        objectKey: kvRecord.objectKey,
+        body: bodyBytes,
+        digest: kvRecord.digest,
+        createdAt: kvRecord.createdAt,
+        cacheTtl: this._cacheTtl,
+        metadata: r2Metadata,
+        sidecar: this.buildSidecar({ kvRecord }),
+        keep: this._historySize,
+      });
+      this._logger.info(`Kept version ${version} of the snapshot at ${key}`);
+    } catch (e) {
+      this._logger.warn(`Failed to record history of ${kvRecord.objectKey}`, e);
+    }
+  }
+
   private buildKvRecord({
     digest,
     objectKey,
@@ -159,7 +386,7 @@ export class R2Loader {
       objectKey,
       digest,
       createdAt: new Date().toISOString(),
-      contentType: "text/html; charset=utf-8",
+      contentType: SNAPSHOT_CONTENT_TYPE,
       contentLength,
       cacheVersion: CACHE_VERSION,
       userAgent: this._userAgent,
@@ -172,9 +399,12 @@ export class R2Loader {
       url: kvRecord.url,
       digest: kvRecord.digest,
       createdAt: kvRecord.createdAt,
+      // Lets an incremental run tell whether this snapshot is still fresh.
+      cacheTtl: String(this._cacheTtl),
       cacheVersion: kvRecord.cacheVersion,
       userAgent: kvRecord.userAgent || "",
       accept: kvRecord.accept || "",
+      variant: this._variant ?? DEFAULT_RENDER_PROFILE_NAME,
       // SEO analysis metrics
       seoStatusCode: String(this._seoAnalysis.statusCode),
       seoIndexable: String(this._seoAnalysis.indexable),
@@ -192,6 +422,25 @@ export class R2Loader {
       seoCanonicalMismatch: String(
         this._seoAnalysis.canonicalMismatch || false,
       ),
+      seoImageCount: String(this._seoAnalysis.imageCount),
+      seoImagesMissingAlt: String(this._seoAnalysis.imagesMissingAlt),
+      seoImagesEmptyAlt: String(this._seoAnalysis.imagesEmptyAlt),
+      seoImageAltStatus: this._seoAnalysis.imageAltStatus || "",
+      seoInternalLinkCount: String(this._seoAnalysis.internalLinkCount),
+      seoExternalLinkCount: String(this._seoAnalysis.externalLinkCount),
+      seoNofollowLinkCount: String(this._seoAnalysis.nofollowLinkCount),
+      seoBrokenLinkCount: String(this._seoAnalysis.brokenLinkCount),
+      seoInternalLinkStatus: this._seoAnalysis.internalLinkStatus || "",
+      seoNofollowStatus: this._seoAnalysis.nofollowStatus || "",
+      seoBrokenLinkStatus: this._seoAnalysis.brokenLinkStatus || "",
+      seoStructuredDataStatus: this._seoAnalysis.structuredDataStatus || "",
+      ...structuredDataToMetadata(this._seoAnalysis),
+      seoHreflangCount: String(this._seoAnalysis.hreflangs.length),
+      seoHreflangStatus: this._seoAnalysis.hreflangStatus || "",
+      ...robotsTxtVerdictToMetadata(this._seoAnalysis.robotsTxtVerdict),
+      seoScore: String(this._seoAnalysis.score),
+      // Comma-separated issue ids, heaviest first
+      seoTopIssues: topSeoIssueIds(this._seoAnalysis.issues).join(","),
       // Render-time diagnostics (ready reason, failed requests, console
       // errors, timing) for debugging snapshots from the dashboard.
       ...(this._diagnostics
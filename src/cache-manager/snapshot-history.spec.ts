@@ -0,0 +1,210 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getJsonObject, LocalFsStore, putJsonObject } from "../snapshot-store";
+import {
+  buildSnapshotHistoryIndexKey,
+  buildSnapshotHistoryKey,
+  buildSnapshotSidecarKey,
+} from "./kv-key-utils";
+import {
+  liveSnapshotLooksHealthy,
+  loadSnapshotHistory,
+  recordSnapshotVersion,
+  rollbackSnapshot,
+  snapshotPutOptions,
+  storedSnapshotLooksHealthy,
+} from "./snapshot-history";
+import type { SnapshotSidecar } from "./type";
+import { sha256Hex } from "../util";
+
+const KEY = "v1/example.com/about_abf24d57a306f5a7.html";
+
+describe("history keys", () => {
+  it("sit next to the snapshot, keeping any variant suffix", () => {
+    expect(
+      buildSnapshotHistoryKey(
+        "v1/example.com/about_abf24d57a306f5a7.mobile.html",
+        2,
+      ),
+    ).toBe("v1/example.com/about_abf24d57a306f5a7.mobile.history-2.html");
+    expect(buildSnapshotHistoryIndexKey(KEY)).toBe(
+      "v1/example.com/about_abf24d57a306f5a7.history.json",
+    );
+  });
+});
+
+describe("snapshot history", () => {
+  let rootDir: string;
+  let store: LocalFsStore;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "snapshot-history-"));
+    store = LocalFsStore.register({ rootDir });
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  function sidecarOf(digest: string): SnapshotSidecar {
+    return {
+      url: "https://example.com/about",
+      objectKey: KEY,
+      digest,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      variant: "desktop",
+      seoAnalysis: { title: digest } as SnapshotSidecar["seoAnalysis"],
+      diagnostics: null,
+      sanitizer: null,
+    };
+  }
+
+  // Writes a body and its sidecar to the live keys and records them, as
+  // R2Loader does. Returns the body's digest.
+  async function publish(body: string) {
+    const digest = await sha256Hex(body);
+    const metadata = { digest, cacheTtl: "3600" };
+    await store.put(
+      KEY,
+      body,
+      snapshotPutOptions({ cacheTtl: 3600, metadata }),
+    );
+    await putJsonObject(store, buildSnapshotSidecarKey(KEY), sidecarOf(digest));
+    await recordSnapshotVersion({
+      store,
+      objectKey: KEY,
+      body: new TextEncoder().encode(body),
+      digest,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      cacheTtl: 3600,
+      metadata,
+      sidecar: sidecarOf(digest),
+      keep: 2,
+    });
+    return digest;
+  }
+
+  const liveSidecarDigest = async () =>
+    (await getJsonObject<SnapshotSidecar>(store, buildSnapshotSidecarKey(KEY)))
+      ?.digest;
+
+  it("keeps the last N versions, reusing slots round-robin", async () => {
+    await publish("<p>one</p>");
+    await publish("<p>two</p>");
+    await publish("<p>three</p>");
+
+    const { versions } = await loadSnapshotHistory(store, KEY);
+    expect(versions.map(({ version, key }) => ({ version, key }))).toEqual([
+      { version: 3, key: buildSnapshotHistoryKey(KEY, 1) },
+      { version: 2, key: buildSnapshotHistoryKey(KEY, 0) },
+    ]);
+    expect((await store.get(buildSnapshotHistoryKey(KEY, 1)))?.body).toBe(
+      "<p>three</p>",
+    );
+  });
+
+  it("rolls back to the newest version that differs from the live one", async () => {
+    const good = await publish("<p>good</p>");
+    await publish("<p>broken</p>");
+
+    const restored = await rollbackSnapshot({ store, objectKey: KEY });
+
+    expect(restored.version).toBe(1);
+    expect(restored.sidecarRestored).toBe(true);
+    expect(await store.get(KEY)).toEqual({
+      body: "<p>good</p>",
+      metadata: { digest: good, cachettl: "3600" },
+    });
+    expect(await liveSidecarDigest()).toBe(good);
+  });
+
+  it("leaves the live sidecar when the slot's is another version's", async () => {
+    await publish("<p>good</p>");
+    const broken = await publish("<p>broken</p>");
+    // As if version 1's sidecar write had failed over an older slot sidecar
+    await putJsonObject(
+      store,
+      buildSnapshotSidecarKey(buildSnapshotHistoryKey(KEY, 1)),
+      sidecarOf("d0"),
+    );
+
+    const restored = await rollbackSnapshot({ store, objectKey: KEY });
+
+    expect(restored.sidecarRestored).toBe(false);
+    expect((await store.get(KEY))?.body).toBe("<p>good</p>");
+    expect(await liveSidecarDigest()).toBe(broken);
+  });
+
+  it("refuses a slot whose body isn't the version the index names", async () => {
+    await publish("<p>good</p>");
+    await publish("<p>broken</p>");
+    // As if a third version's body landed in version 1's slot and its index
+    // write failed
+    await store.put(
+      buildSnapshotHistoryKey(KEY, 1),
+      "<p>third</p>",
+      snapshotPutOptions({ cacheTtl: 3600, metadata: {} }),
+    );
+
+    await expect(rollbackSnapshot({ store, objectKey: KEY })).rejects.toThrow(
+      /digest mismatch/,
+    );
+    expect((await store.get(KEY))?.body).toBe("<p>broken</p>");
+  });
+
+  it("restores a requested version, and refuses one it doesn't have", async () => {
+    await publish("<p>one</p>");
+    await publish("<p>two</p>");
+
+    await rollbackSnapshot({ store, objectKey: KEY, version: 2 });
+    expect((await store.get(KEY))?.body).toBe("<p>two</p>");
+    await expect(
+      rollbackSnapshot({ store, objectKey: KEY, version: 7 }),
+    ).rejects.toThrow(/Version 7/);
+  });
+
+  it("has nothing to roll back to without history", async () => {
+    await expect(rollbackSnapshot({ store, objectKey: KEY })).rejects.toThrow(
+      /no earlier version/,
+    );
+  });
+
+  it("checks the live snapshot's health from its metadata", async () => {
+    expect(await liveSnapshotLooksHealthy(store, KEY)).toBe(false);
+    await store.put(KEY, "<p>page</p>", {
+      contentType: "text/html; charset=utf-8",
+      metadata: {
+        seoWordCount: "350",
+        seoTitleStatus: "ok",
+        seoH1Status: "ok",
+      },
+    });
+    expect(await liveSnapshotLooksHealthy(store, KEY)).toBe(true);
+  });
+});
+
+describe("storedSnapshotLooksHealthy", () => {
+  it("flags loading shells and snapshots without SEO metadata", () => {
+    expect(
+      storedSnapshotLooksHealthy({
+        seowordcount: "12",
+        seotitlestatus: "missing",
+        seoh1status: "ok",
+      }),
+    ).toBe(false);
+    expect(storedSnapshotLooksHealthy({ seowordcount: "0" })).toBe(false);
+    expect(storedSnapshotLooksHealthy({ digest: "abc" })).toBe(false);
+  });
+
+  it("accepts short pages with a title and an H1", () => {
+    expect(
+      storedSnapshotLooksHealthy({
+        seowordcount: "12",
+        seotitlestatus: "ok",
+        seoh1status: "ok",
+      }),
+    ).toBe(true);
+  });
+});
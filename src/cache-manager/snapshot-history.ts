@@ -0,0 +1,194 @@
+import { looksLikeFailedRender } from "../html-sanitizer/soft-404";
+import { DEFAULT_CACHE_TTL } from "../load-config";
+import {
+  getJsonObject,
+  putJsonObject,
+  type PutObjectOptions,
+  type SnapshotStore,
+} from "../snapshot-store";
+import { sha256Hex } from "../util";
+import {
+  buildSnapshotHistoryIndexKey,
+  buildSnapshotHistoryKey,
+  buildSnapshotSidecarKey,
+} from "./kv-key-utils";
+import type { SnapshotHistory, SnapshotSidecar, SnapshotVersion } from "./type";
+
+export const SNAPSHOT_CONTENT_TYPE = "text/html; charset=utf-8";
+
+/**
+ * How every snapshot body is written, live or in a history slot, so a
+ * restored version is served exactly like a fresh render.
+ */
+export function snapshotPutOptions({
+  cacheTtl,
+  metadata,
+}: {
+  cacheTtl: number;
+  metadata: Record<string, string>;
+}): Omit<PutObjectOptions, "ifAbsent"> {
+  return {
+    contentType: SNAPSHOT_CONTENT_TYPE,
+    cacheControl: `public, max-age=${cacheTtl}, s-maxage=${cacheTtl}`,
+    metadata,
+  };
+}
+
+/** A page's history index; empty when it has none yet. */
+export async function loadSnapshotHistory(
+  store: SnapshotStore,
+  objectKey: string,
+): Promise<SnapshotHistory> {
+  return (
+    (await getJsonObject<SnapshotHistory>(
+      store,
+      buildSnapshotHistoryIndexKey(objectKey),
+    )) ?? { objectKey, versions: [] }
+  );
+}
+
+/**
+ * Copy a body just written to the live key into the page's next history
+ * slot and record it in the index, dropping versions beyond `keep`. The
+ * body's sidecar goes next to the slot (see buildSnapshotSidecarKey), so a
+ * rollback restores both.
+ */
+export async function recordSnapshotVersion({
+  store,
+  objectKey,
+  body,
+  digest,
+  createdAt,
+  cacheTtl,
+  metadata,
+  sidecar,
+  keep,
+}: {
+  store: SnapshotStore;
+  objectKey: string;
+  body: Uint8Array;
+  digest: string;
+  createdAt: string;
+  cacheTtl: number;
+  metadata: Record<string, string>;
+  sidecar: SnapshotSidecar;
+  keep: number;
+}): Promise<SnapshotVersion> {
+  const history = await loadSnapshotHistory(store, objectKey);
+  const version = (history.versions[0]?.version ?? 0) + 1;
+  const entry: SnapshotVersion = {
+    version,
+    key: buildSnapshotHistoryKey(objectKey, version % keep),
+    digest,
+    createdAt,
+  };
+  await store.put(entry.key, body, snapshotPutOptions({ cacheTtl, metadata }));
+  await putJsonObject(store, buildSnapshotHistoryIndexKey(objectKey), {
+    objectKey,
+    versions: [entry, ...history.versions].slice(0, keep),
+  } satisfies SnapshotHistory);
+  // After the index: a failed write leaves the slot's previous sidecar,
+  // which rollbackSnapshot tells apart by its digest
+  await putJsonObject(store, buildSnapshotSidecarKey(entry.key), sidecar);
+  return entry;
+}
+
+/**
+ * Restore a version from the page's history to its live key, along with its
+ * sidecar. Without a `version`, restores the newest one that differs from
+ * what's live — the snapshot before a bad render. Throws when there's
+ * nothing to restore. `sidecarRestored` is false for versions kept before
+ * history slots had sidecars; the live sidecar then describes a different
+ * digest than the live snapshot, and readers skip it.
+ */
+export async function rollbackSnapshot({
+  store,
+  objectKey,
+  version,
+}: {
+  store: SnapshotStore;
+  objectKey: string;
+  version?: number;
+}): Promise<SnapshotVersion & { sidecarRestored: boolean }> {
+  const { versions } = await loadSnapshotHistory(store, objectKey);
+  let target: SnapshotVersion | undefined;
+  if (version !== undefined) {
+    target = versions.find((entry) => entry.version === version);
+    if (!target) {
+      throw new Error(
+        `Version ${version} of ${objectKey} isn't in its history (kept: ${
+          versions.map((entry) => entry.version).join(", ") || "none"
+        })`,
+      );
+    }
+  } else {
+    const liveDigest = (await store.head(objectKey))?.metadata.digest;
+    target = versions.find((entry) => entry.digest !== liveDigest);
+    if (!target) {
+      throw new Error(`${objectKey} has no earlier version to restore`);
+    }
+  }
+
+  const stored = await store.get(target.key);
+  if (!stored) {
+    throw new Error(`History slot ${target.key} is missing`);
+  }
+  // The slot body is written before the index, so a failed index write
+  // leaves a slot holding a newer body than the version the index names.
+  if ((await sha256Hex(stored.body)) !== target.digest) {
+    throw new Error(
+      `History slot ${target.key} no longer holds version ${target.version} (digest mismatch); refusing to restore it`,
+    );
+  }
+  // The version's own metadata (createdAt included) goes back with it, so
+  // incremental runs see the restored snapshot's real age.
+  const cacheTtl = parseInt(stored.metadata.cachettl ?? "", 10);
+  await store.put(
+    objectKey,
+    stored.body,
+    snapshotPutOptions({
+      cacheTtl:
+        Number.isInteger(cacheTtl) && cacheTtl > 0
+          ? cacheTtl
+          : DEFAULT_CACHE_TTL,
+      metadata: stored.metadata,
+    }),
+  );
+  // A slot's sidecar is only the version's own while the digests match
+  const sidecar = await getJsonObject<SnapshotSidecar>(
+    store,
+    buildSnapshotSidecarKey(target.key),
+  );
+  const sidecarRestored = sidecar?.digest === target.digest;
+  if (sidecarRestored) {
+    await putJsonObject(store, buildSnapshotSidecarKey(objectKey), sidecar);
+  }
+  return { ...target, sidecarRestored };
+}
+
+/**
+ * Whether a stored snapshot's metadata describes a real page rather than a
+ * loading shell (see looksLikeFailedRender). Metadata keeps the title and H1
+ * statuses rather than the text, which is all the check needs. False for
+ * snapshots written before the SEO metadata.
+ */
+export function storedSnapshotLooksHealthy(
+  metadata: Record<string, string>,
+): boolean {
+  const wordCount = parseInt(metadata.seowordcount ?? "", 10);
+  if (!Number.isInteger(wordCount)) return false;
+  return !looksLikeFailedRender({
+    title: metadata.seotitlestatus === "missing" ? undefined : "(stored)",
+    wordCount,
+    h1Count: metadata.seoh1status === "missing" ? 0 : 1,
+  });
+}
+
+/** Whether the page's live snapshot exists and looks healthy. */
+export async function liveSnapshotLooksHealthy(
+  store: SnapshotStore,
+  objectKey: string,
+): Promise<boolean> {
+  const head = await store.head(objectKey);
+  return !!head && storedSnapshotLooksHealthy(head.metadata);
+}
@@ -1,3 +1,7 @@
+import type { SanitizerReport } from "../html-sanitizer/type";
+import type { RenderDiagnostics } from "../render-engine";
+import type { PageSeoAnalysis } from "../seo-analyzer/type";
+
 export const CACHE_VERSION = "v1"; // bump to invalidate KV mapping semantics
 
 export interface KvRecord {
@@ -11,3 +15,38 @@ export interface KvRecord {
   userAgent: string | null;
   accept: string | null;
 }
+
+/**
+ * JSON object stored next to each snapshot (see buildSnapshotSidecarKey) with
+ * what R2 metadata can only hold in part: the full SEO analysis and the
+ * untruncated render diagnostics, plus the sanitizer report.
+ */
+export interface SnapshotSidecar {
+  url: string;
+  objectKey: string;
+  // Of the snapshot this describes
+  digest: string;
+  createdAt: string;
+  variant: string;
+  seoAnalysis: PageSeoAnalysis;
+  diagnostics: RenderDiagnostics | null;
+  sanitizer: SanitizerReport | null;
+}
+
+/** One stored version of a snapshot, kept in a history slot. */
+export interface SnapshotVersion {
+  // Increments with every new body written to the live key
+  version: number;
+  key: string;
+  digest: string;
+  createdAt: string;
+}
+
+/**
+ * A page's history index (see buildSnapshotHistoryIndexKey): the last
+ * SNAPSHOT_HISTORY versions of its live snapshot, newest first.
+ */
+export interface SnapshotHistory {
+  objectKey: string;
+  versions: SnapshotVersion[];
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { CliUsageError, parseCliArgs, resolveRenderTargets } from "./cli-args";
+
+describe("parseCliArgs", () => {
+  it("falls back to help without a command", () => {
+    expect(parseCliArgs([]).command).toEqual({ command: "help" });
+    expect(parseCliArgs(["render", "--help"]).command).toEqual({
+      command: "help",
+    });
+  });
+
+  it("parses render targets and options", () => {
+    const { command, verbose } = parseCliArgs([
+      "render",
+      "https://example.com/",
+      "/about",
+      "--base-url",
+      "https://example.com",
+      "--profile",
+      "desktop,mobile",
+      "--out",
+      "out",
+      "--verbose",
+    ]);
+    expect(verbose).toBe(true);
+    expect(command).toMatchObject({
+      command: "render",
+      targets: ["https://example.com/", "/about"],
+      baseUrl: "https://example.com",
+      profiles: "desktop,mobile",
+      outDir: "out",
+    });
+  });
+
+  it("requires a render target or a paths file", () => {
+    expect(() => parseCliArgs(["render"])).toThrow(CliUsageError);
+    expect(
+      parseCliArgs(["render", "--paths-file", "paths.json"]).command,
+    ).toMatchObject({ command: "render", targets: [] });
+  });
+
+  it("parses analyze with a default status", () => {
+    expect(
+      parseCliArgs(["analyze", "page.html", "--url", "https://example.com/a"])
+        .command,
+    ).toEqual({
+      command: "analyze",
+      file: "page.html",
+      url: "https://example.com/a",
+      statusCode: 200,
+      xRobotsTag: undefined,
+    });
+  });
+
+  it("rejects analyze without --url or with a bad status", () => {
+    expect(() => parseCliArgs(["analyze", "page.html"])).toThrow(/--url/);
+    expect(() =>
+      parseCliArgs([
+        "analyze",
+        "page.html",
+        "--url",
+        "https://example.com/",
+        "--status",
+        "abc",
+      ]),
+    ).toThrow(/--status/);
+  });
+
+  it("parses key with a profile", () => {
+    expect(
+      parseCliArgs(["key", "https://example.com/about", "--profile", "mobile"])
+        .command,
+    ).toEqual({
+      command: "key",
+      url: "https://example.com/about",
+      profile: "mobile",
+    });
+  });
+
+  it("parses rollback with a version", () => {
+    expect(
+      parseCliArgs([
+        "rollback",
+        "https://example.com/about",
+        "--profile",
+        "mobile",
+        "--to-version",
+        "3",
+      ]).command,
+    ).toEqual({
+      command: "rollback",
+      url: "https://example.com/about",
+      profile: "mobile",
+      version: 3,
+    });
+    expect(() =>
+      parseCliArgs(["rollback", "https://example.com/", "--to-version", "0"]),
+    ).toThrow(/--to-version/);
+  });
+
+  it("rejects unknown commands, foreign options and extra arguments", () => {
+    expect(() => parseCliArgs(["deploy"])).toThrow(/Unknown command/);
+    expect(() =>
+      parseCliArgs(["key", "https://example.com/", "--out", "x"]),
+    ).toThrow(/does not take --out/);
+    expect(() =>
+      parseCliArgs(["sanitize", "a.html", "b.html", "--url", "https://a.b/"]),
+    ).toThrow(/Unexpected arguments/);
+    expect(() => parseCliArgs(["key", "https://a.b/", "--nope"])).toThrow(
+      CliUsageError,
+    );
+  });
+});
+
+describe("resolveRenderTargets", () => {
+  it("resolves paths against the base URL and dedupes", () => {
+    expect(
+      resolveRenderTargets({
+        targets: ["https://example.com/pricing", "/about", "/contact"],
+        baseUrl: "https://example.com/",
+        paths: [
+          { path: "/about", ttl: 60 },
+          {
+            path: "/pricing",
+            ttl: 60,
+            profiles: ["mobile"],
+            waitSelectors: ["#plans"],
+          },
+        ],
+      }),
+    ).toEqual([
+      {
+        url: "https://example.com/pricing",
+        pathEntry: {
+          path: "/pricing",
+          ttl: 60,
+          profiles: ["mobile"],
+          waitSelectors: ["#plans"],
+        },
+      },
+      {
+        url: "https://example.com/about",
+        pathEntry: { path: "/about", ttl: 60 },
+      },
+      { url: "https://example.com/contact" },
+    ]);
+  });
+
+  it("requires a base URL for paths", () => {
+    expect(() =>
+      resolveRenderTargets({
+        targets: ["/about"],
+        baseUrl: undefined,
+        paths: [],
+      }),
+    ).toThrow(/--base-url/);
+  });
+
+  it("rejects targets that are neither URLs nor paths", () => {
+    expect(() =>
+      resolveRenderTargets({
+        targets: ["about"],
+        baseUrl: undefined,
+        paths: [],
+      }),
+    ).toThrow(CliUsageError);
+  });
+});
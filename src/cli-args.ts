@@ -0,0 +1,342 @@
+import { parseArgs } from "node:util";
+import type { PathEntry } from "./load-config";
+
+export const CLI_USAGE = `Usage: node dist/cli.js <command> [options]
+
+Commands:
+  render <url|path>...   Render pages and print their HTML, SEO analysis and
+                         diagnostics as JSON lines (or write them to --out)
+    --base-url <url>       Resolves path arguments and --paths-file entries
+    --paths-file <file>    JSON array in the PATHS_LIST format; entries'
+                           profiles, waitSelectors and ttl apply
+    --profile <names>      Render profiles, e.g. desktop,mobile (default: desktop)
+    --out <dir>            Write <page>.html, <page>.seo.json and
+                           <page>.diagnostics.json instead of printing
+    --canonical-domain <host>
+    --user-agent <ua>
+    --internal-key <key>   Sent as X-Encited-Internal-Key
+    --chrome <path>        Chrome executable (default: /usr/bin/chrome)
+  analyze <file.html>    Print the SEO analysis of saved HTML
+    --url <url>            Page URL the HTML was served from (required)
+    --status <code>        HTTP status it was served with (default: 200)
+    --x-robots-tag <value>
+  sanitize <file.html>   Print the sanitized HTML the job would store
+    --url <url>            Page URL the HTML was served from (required)
+    --canonical-domain <host>
+    --out <file>           Write to a file instead of stdout
+  key <url>              Print the snapshot object key for a URL
+    --profile <name>       Key of that profile's variant (one of
+                           RENDER_PROFILES)
+  rollback <url>         Restore a version kept by SNAPSHOT_HISTORY to the
+                         live key; storage settings come from the job's env
+    --profile <name>       Roll back that profile's variant
+    --to-version <n>       Version to restore (default: the newest one that
+                           differs from the live snapshot)
+
+Global options:
+  --verbose              Log pipeline progress to stderr
+  --help
+`;
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+export interface RenderCommand {
+  command: "render";
+  // URLs or paths as given; see resolveRenderTargets
+  targets: string[];
+  baseUrl?: string;
+  pathsFile?: string;
+  profiles?: string;
+  outDir?: string;
+  canonicalDomain?: string;
+  userAgent?: string;
+  internalKey?: string;
+  chromePath?: string;
+}
+
+export interface AnalyzeCommand {
+  command: "analyze";
+  file: string;
+  url: string;
+  statusCode: number;
+  xRobotsTag?: string;
+}
+
+export interface SanitizeCommand {
+  command: "sanitize";
+  file: string;
+  url: string;
+  canonicalDomain?: string;
+  outFile?: string;
+}
+
+export interface KeyCommand {
+  command: "key";
+  url: string;
+  profile?: string;
+}
+
+export interface RollbackCommand {
+  command: "rollback";
+  url: string;
+  profile?: string;
+  version?: number;
+}
+
+export type CliCommand =
+  | RenderCommand
+  | AnalyzeCommand
+  | SanitizeCommand
+  | KeyCommand
+  | RollbackCommand
+  | { command: "help" };
+
+export interface ParsedCli {
+  command: CliCommand;
+  verbose: boolean;
+}
+
+const CLI_OPTIONS = {
+  "base-url": { type: "string" },
+  "paths-file": { type: "string" },
+  profile: { type: "string" },
+  out: { type: "string" },
+  "canonical-domain": { type: "string" },
+  "user-agent": { type: "string" },
+  "internal-key": { type: "string" },
+  chrome: { type: "string" },
+  url: { type: "string" },
+  status: { type: "string" },
+  "x-robots-tag": { type: "string" },
+  "to-version": { type: "string" },
+  verbose: { type: "boolean", default: false },
+  help: { type: "boolean", default: false },
+} as const;
+
+// Options each command accepts, besides --verbose and --help.
+const COMMAND_OPTIONS: Record<string, (keyof typeof CLI_OPTIONS)[]> = {
+  render: [
+    "base-url",
+    "paths-file",
+    "profile",
+    "out",
+    "canonical-domain",
+    "user-agent",
+    "internal-key",
+    "chrome",
+  ],
+  analyze: ["url", "status", "x-robots-tag"],
+  sanitize: ["url", "canonical-domain", "out"],
+  key: ["profile"],
+  rollback: ["profile", "to-version"],
+};
+
+// Same slug rule as render profile names.
+const PROFILE_NAME_PATTERN = /^[a-z0-9-]+$/;
+
+function requireHttpUrl(value: string, what: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new CliUsageError(`${what} must be an absolute URL: ${value}`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new CliUsageError(`${what} must be an http(s) URL: ${value}`);
+  }
+  return url.toString();
+}
+
+function requireSingle(args: string[], what: string): string {
+  const [value, ...rest] = args;
+  if (value === undefined) {
+    throw new CliUsageError(`Missing ${what}`);
+  }
+  if (rest.length > 0) {
+    throw new CliUsageError(`Unexpected arguments: ${rest.join(" ")}`);
+  }
+  return value;
+}
+
+function requireProfileName(profile: string | undefined): string | undefined {
+  if (profile && !PROFILE_NAME_PATTERN.test(profile)) {
+    throw new CliUsageError("--profile must be a single profile name");
+  }
+  return profile;
+}
+
+function parseArgv(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      options: CLI_OPTIONS,
+      allowPositionals: true,
+    });
+  } catch (e) {
+    throw new CliUsageError(e instanceof Error ? e.message : String(e));
+  }
+}
+
+export function parseCliArgs(argv: string[]): ParsedCli {
+  const { values, positionals } = parseArgv(argv);
+  const verbose = values.verbose ?? false;
+  const [name, ...args] = positionals;
+  if (values.help || name === undefined || name === "help") {
+    return { command: { command: "help" }, verbose };
+  }
+
+  const allowed = COMMAND_OPTIONS[name];
+  if (!allowed) {
+    throw new CliUsageError(`Unknown command "${name}"`);
+  }
+  for (const option of Object.keys(values)) {
+    if (option === "verbose" || option === "help") continue;
+    if (!allowed.includes(option as keyof typeof CLI_OPTIONS)) {
+      throw new CliUsageError(`${name} does not take --${option}`);
+    }
+  }
+
+  switch (name) {
+    case "render":
+      if (args.length === 0 && !values["paths-file"]) {
+        throw new CliUsageError(
+          "render needs at least one URL or --paths-file",
+        );
+      }
+      return {
+        command: {
+          command: "render",
+          targets: args,
+          baseUrl: values["base-url"],
+          pathsFile: values["paths-file"],
+          profiles: values.profile,
+          outDir: values.out,
+          canonicalDomain: values["canonical-domain"],
+          userAgent: values["user-agent"],
+          internalKey: values["internal-key"],
+          chromePath: values.chrome,
+        },
+        verbose,
+      };
+    case "analyze": {
+      const file = requireSingle(args, "HTML file");
+      if (!values.url) {
+        throw new CliUsageError("analyze needs --url");
+      }
+      const statusCode = Number(values.status ?? "200");
+      if (
+        !Number.isInteger(statusCode) ||
+        statusCode < 100 ||
+        statusCode > 599
+      ) {
+        throw new CliUsageError("--status must be an HTTP status code");
+      }
+      return {
+        command: {
+          command: "analyze",
+          file,
+          url: requireHttpUrl(values.url, "--url"),
+          statusCode,
+          xRobotsTag: values["x-robots-tag"],
+        },
+        verbose,
+      };
+    }
+    case "sanitize": {
+      const file = requireSingle(args, "HTML file");
+      if (!values.url) {
+        throw new CliUsageError("sanitize needs --url");
+      }
+      return {
+        command: {
+          command: "sanitize",
+          file,
+          url: requireHttpUrl(values.url, "--url"),
+          canonicalDomain: values["canonical-domain"],
+          outFile: values.out,
+        },
+        verbose,
+      };
+    }
+    case "rollback": {
+      const url = requireHttpUrl(requireSingle(args, "URL"), "rollback");
+      const version =
+        values["to-version"] === undefined
+          ? undefined
+          : Number(values["to-version"]);
+      if (
+        version !== undefined &&
+        (!Number.isInteger(version) || version < 1)
+      ) {
+        throw new CliUsageError("--to-version must be a positive integer");
+      }
+      return {
+        command: {
+          command: "rollback",
+          url,
+          profile: requireProfileName(values.profile),
+          version,
+        },
+        verbose,
+      };
+    }
+    default: {
+      const url = requireHttpUrl(requireSingle(args, "URL"), "key");
+      return {
+        command: {
+          command: "key",
+          url,
+          profile: requireProfileName(values.profile),
+        },
+        verbose,
+      };
+    }
+  }
+}
+
+export interface RenderTarget {
+  url: string;
+  // The --paths-file entry for this URL, with its ttl, profiles and
+  // waitSelectors
+  pathEntry?: PathEntry;
+}
+
+/**
+ * The absolute URLs a render command targets: positional URLs as given,
+ * positional paths and --paths-file entries resolved against --base-url.
+ * A URL given both ways renders once, with its --paths-file entry.
+ */
+export function resolveRenderTargets({
+  targets,
+  baseUrl,
+  paths,
+}: {
+  targets: string[];
+  baseUrl: string | undefined;
+  paths: PathEntry[];
+}): RenderTarget[] {
+  const base = baseUrl?.replace(/\/+$/, "");
+  const resolvePath = (path: string): string => {
+    if (!base) {
+      throw new CliUsageError(`--base-url is required to render path ${path}`);
+    }
+    return `${base}${path}`;
+  };
+  const resolved = new Map<string, RenderTarget>();
+  for (const target of targets) {
+    const url = target.startsWith("/")
+      ? resolvePath(target)
+      : requireHttpUrl(target, "render target");
+    if (!resolved.has(url)) resolved.set(url, { url });
+  }
+  for (const pathEntry of paths) {
+    const url = resolvePath(pathEntry.path);
+    resolved.set(url, { url, pathEntry });
+  }
+  return [...resolved.values()];
+}
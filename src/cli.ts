@@ -0,0 +1,255 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { AssetCache } from "./asset-cache";
+import { buildSnapshotObjectKey } from "./cache-manager/kv-key-utils";
+import { rollbackSnapshot } from "./cache-manager/snapshot-history";
+import {
+  CLI_USAGE,
+  CliUsageError,
+  parseCliArgs,
+  resolveRenderTargets,
+  type AnalyzeCommand,
+  type KeyCommand,
+  type RenderCommand,
+  type RollbackCommand,
+  type SanitizeCommand,
+} from "./cli-args";
+import {
+  extractOversizedDataUrls,
+  restoreDataUrls,
+  sanitizeHtml,
+} from "./html-sanitizer";
+import {
+  DEFAULT_USER_AGENT,
+  loadRenderProfilesOnly,
+  loadStorageOnlyConfig,
+  parsePathsList,
+  type PathEntry,
+} from "./load-config";
+import { AppLogger, routeLogsToStderr } from "./logger";
+import { PathRuleSet } from "./path-rules";
+import { launchBrowser, runPipeline, snapshotFileStem } from "./pipeline";
+import {
+  DEFAULT_RENDER_PROFILE_NAME,
+  parseRenderProfiles,
+  renderVariant,
+  selectRenderProfiles,
+} from "./render-profile";
+import { RequestStats } from "./request-stats";
+import { SeoAnalyzer } from "./seo-analyzer/index";
+import { createSnapshotStore } from "./snapshot-store";
+
+const logger = AppLogger.register({ prefix: "cli" });
+
+function printJson(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value)}\n`);
+}
+
+/** Render each target with each profile; resolves to the number of failures. */
+async function runRender(command: RenderCommand): Promise<number> {
+  const profiles = parseRenderProfiles(
+    command.profiles ?? DEFAULT_RENDER_PROFILE_NAME,
+  );
+  const paths: PathEntry[] = command.pathsFile
+    ? parsePathsList(
+        await readFile(command.pathsFile, "utf8"),
+        profiles.map((profile) => profile.name),
+      )
+    : [];
+  const targets = resolveRenderTargets({
+    targets: command.targets,
+    baseUrl: command.baseUrl,
+    paths,
+  });
+  // Entries' ttl, profiles and waitSelectors apply as in the job; the CLI
+  // has no PATH_RULES.
+  const pathRuleSet = PathRuleSet.register({ rules: [] });
+  if (command.outDir) {
+    await mkdir(command.outDir, { recursive: true });
+  }
+
+  const browser = await launchBrowser(command.chromePath);
+  const assetCache = AssetCache.register();
+  const requestStats = RequestStats.register();
+  let failures = 0;
+  let pipelineNumber = 0;
+  try {
+    for (const { url, pathEntry } of targets) {
+      const host = new URL(url).hostname;
+      const renderOptions = pathRuleSet.resolve(url, pathEntry);
+      for (const profile of selectRenderProfiles(
+        profiles,
+        renderOptions.profiles,
+      )) {
+        const { result, snapshot } = await runPipeline({
+          pipelineNumber: ++pipelineNumber,
+          urlToRender: url,
+          profile,
+          cacheTtl: renderOptions.cacheTtl,
+          waitSelectors: renderOptions.waitSelectors,
+          config: {
+            userAgent: command.userAgent ?? DEFAULT_USER_AGENT,
+            internalKey: command.internalKey,
+            domain: host,
+            canonicalDomain: command.canonicalDomain ?? host,
+            snapshotHistory: 0,
+            regressionGuard: null,
+          },
+          browser,
+          assetCache,
+          requestStats,
+          snapshotDir: null,
+          store: null,
+        });
+        if (!snapshot) {
+          failures++;
+          logger.error(`Failed to render ${url} (${profile.name} profile)`);
+          if (!command.outDir) {
+            printJson({
+              url,
+              profile: profile.name,
+              error: result.failure ?? { reason: "unknown" },
+            });
+          }
+          continue;
+        }
+        if (command.outDir) {
+          const stem = join(
+            command.outDir,
+            snapshotFileStem(url, renderVariant(profile)),
+          );
+          await writeFile(`${stem}.html`, snapshot.html);
+          await writeFile(
+            `${stem}.seo.json`,
+            JSON.stringify(snapshot.seoAnalysis, null, 2),
+          );
+          await writeFile(
+            `${stem}.diagnostics.json`,
+            JSON.stringify(snapshot.diagnostics ?? null, null, 2),
+          );
+          process.stderr.write(`${url} (${profile.name}) → ${stem}.*\n`);
+        } else {
+          printJson({
+            url,
+            profile: profile.name,
+            final_url: snapshot.finalUrl,
+            status_code: snapshot.statusCode,
+            html: snapshot.html,
+            seo_analysis: snapshot.seoAnalysis,
+            diagnostics: snapshot.diagnostics ?? null,
+          });
+        }
+      }
+    }
+  } finally {
+    await browser.close().catch(() => {});
+  }
+  return failures;
+}
+
+async function runAnalyze(command: AnalyzeCommand): Promise<void> {
+  const html = await readFile(command.file, "utf8");
+  const analysis = SeoAnalyzer.register({
+    html,
+    url: command.url,
+    statusCode: command.statusCode,
+    xRobotsTag: command.xRobotsTag ?? null,
+  }).analyze();
+  process.stdout.write(`${JSON.stringify(analysis, null, 2)}\n`);
+}
+
+async function runSanitize(command: SanitizeCommand): Promise<void> {
+  const raw = await readFile(command.file, "utf8");
+  // Same data-URL stash as the pipeline, so large inline images don't trip
+  // the parser.
+  const { html, urlMap } = extractOversizedDataUrls(raw);
+  const sanitized = restoreDataUrls(
+    sanitizeHtml({
+      html,
+      url: command.url,
+      canonicalDomain: command.canonicalDomain ?? new URL(command.url).hostname,
+    }),
+    urlMap,
+  );
+  if (command.outFile) {
+    await writeFile(command.outFile, sanitized);
+  } else {
+    process.stdout.write(sanitized);
+  }
+}
+
+// The key variant of a --profile, which must be one of RENDER_PROFILES.
+function profileVariant(name: string | undefined): string | undefined {
+  if (name === undefined) return undefined;
+  const profiles = loadRenderProfilesOnly();
+  const profile = profiles.find((candidate) => candidate.name === name);
+  if (!profile) {
+    throw new CliUsageError(
+      `--profile "${name}" is not one of RENDER_PROFILES (${profiles.map((candidate) => candidate.name).join(", ")})`,
+    );
+  }
+  return renderVariant(profile);
+}
+
+async function runKey(command: KeyCommand): Promise<void> {
+  const objectKey = await buildSnapshotObjectKey({
+    targetUrl: command.url,
+    variant: profileVariant(command.profile),
+  });
+  process.stdout.write(`${objectKey}\n`);
+}
+
+async function runRollback(command: RollbackCommand): Promise<void> {
+  const store = createSnapshotStore(loadStorageOnlyConfig());
+  const objectKey = await buildSnapshotObjectKey({
+    targetUrl: command.url,
+    variant: profileVariant(command.profile),
+  });
+  const restored = await rollbackSnapshot({
+    store,
+    objectKey,
+    version: command.version,
+  });
+  printJson({ object_key: objectKey, restored });
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { command, verbose } = parseCliArgs(argv);
+  // stdout carries the command's output, so logs go to stderr and stay
+  // quiet unless asked for.
+  routeLogsToStderr(verbose ? "info" : process.env.LOG_LEVEL || "warn");
+  switch (command.command) {
+    case "help":
+      process.stdout.write(CLI_USAGE);
+      return 0;
+    case "render":
+      return (await runRender(command)) > 0 ? 1 : 0;
+    case "analyze":
+      await runAnalyze(command);
+      return 0;
+    case "sanitize":
+      await runSanitize(command);
+      return 0;
+    case "key":
+      await runKey(command);
+      return 0;
+    case "rollback":
+      await runRollback(command);
+      return 0;
+  }
+}
+
+main(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exit(exitCode);
+  })
+  .catch((error) => {
+    if (error instanceof CliUsageError) {
+      process.stderr.write(`${error.message}\n\n${CLI_USAGE}`);
+      process.exit(2);
+    }
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    process.exit(1);
+  });
@@ -0,0 +1,164 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  ConfigValidationError,
+  loadConfigSource,
+  parseConfigFile,
+} from "./config-file";
+
+describe("parseConfigFile", () => {
+  it("maps keys to env var names and encodes non-string values", () => {
+    const source = parseConfigFile(
+      JSON.stringify({
+        batchId: "b-1",
+        concurrency: 4,
+        skipCacheSync: false,
+        paths: [{ path: "/", ttl: 60 }],
+        renderProfiles: "desktop,mobile",
+        retryOptions: { maxRetries: 2 },
+        sitemapUrl: null,
+      }),
+      "config.json",
+    );
+    expect(source).toEqual({
+      BATCH_ID: "b-1",
+      CONCURRENCY: "4",
+      SKIP_CACHE_SYNC: "false",
+      PATHS_LIST: '[{"path":"/","ttl":60}]',
+      RENDER_PROFILES: "desktop,mobile",
+      RETRY_OPTIONS: '{"maxRetries":2}',
+    });
+  });
+
+  it("reports every bad key at once", () => {
+    let error: unknown;
+    try {
+      parseConfigFile(
+        JSON.stringify({
+          batchID: "typo",
+          concurrency: "4",
+          paths: { path: "/" },
+          incremental: "yes",
+        }),
+        "config.json",
+      );
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues).toEqual([
+      'config.json: unknown key "batchID"',
+      "config.json: concurrency must be a number",
+      "config.json: paths must be an array",
+      "config.json: incremental must be true or false",
+    ]);
+  });
+
+  it("rejects invalid JSON and non-object documents", () => {
+    expect(() => parseConfigFile("{", "config.json")).toThrow(/valid JSON/);
+    expect(() => parseConfigFile("[]", "config.json")).toThrow(
+      /must contain a JSON object/,
+    );
+  });
+
+  it("reads YAML through the same key checks", () => {
+    expect(
+      parseConfigFile(
+        [
+          "batchId: b-1",
+          "concurrency: 4",
+          "skipCacheSync: false",
+          "sitemapUpdatedWithin: 7d",
+          "paths:",
+          "  - path: /",
+          "    ttl: 60",
+          "retryOptions:",
+          "  maxRetries: 2",
+          "sitemapUrl: ~",
+        ].join("\n"),
+        "config.yaml",
+      ),
+    ).toEqual({
+      BATCH_ID: "b-1",
+      CONCURRENCY: "4",
+      SKIP_CACHE_SYNC: "false",
+      SITEMAP_UPDATED_WITHIN: "7d",
+      PATHS_LIST: '[{"path":"/","ttl":60}]',
+      RETRY_OPTIONS: '{"maxRetries":2}',
+    });
+
+    let error: unknown;
+    try {
+      parseConfigFile("batchID: typo\nconcurrency: '4'\n", "config.yml");
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues).toEqual([
+      'config.yml: unknown key "batchID"',
+      "config.yml: concurrency must be a number",
+    ]);
+  });
+
+  it("rejects invalid YAML and non-mapping documents", () => {
+    expect(() => parseConfigFile("a: [", "config.yaml")).toThrow(
+      ConfigValidationError,
+    );
+    expect(() => parseConfigFile("a: [", "config.yaml")).toThrow(/valid YAML/);
+    expect(() => parseConfigFile("- a\n- b\n", "config.yaml")).toThrow(
+      /must contain a YAML mapping/,
+    );
+  });
+});
+
+describe("loadConfigSource", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "config-file-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns the env as-is without CONFIG_FILE", () => {
+    const env = { BATCH_ID: "env" };
+    expect(loadConfigSource(env)).toBe(env);
+  });
+
+  it("lets non-empty env vars override the file", async () => {
+    const file = join(dir, "config.json");
+    await writeFile(
+      file,
+      JSON.stringify({ batchId: "file", userId: "file-user", concurrency: 2 }),
+    );
+    const source = loadConfigSource({
+      CONFIG_FILE: file,
+      BATCH_ID: "env",
+      CONCURRENCY: "",
+    });
+    expect(source.BATCH_ID).toBe("env");
+    expect(source.USER_ID).toBe("file-user");
+    expect(source.CONCURRENCY).toBe("2");
+  });
+
+  it("loads a YAML file", async () => {
+    const file = join(dir, "config.yml");
+    await writeFile(file, "batchId: file\nconcurrency: 2\n");
+    const source = loadConfigSource({ CONFIG_FILE: file });
+    expect(source.BATCH_ID).toBe("file");
+    expect(source.CONCURRENCY).toBe("2");
+  });
+
+  it("rejects other file types and unreadable files", () => {
+    expect(() =>
+      loadConfigSource({ CONFIG_FILE: join(dir, "config.toml") }),
+    ).toThrow(/\.json, \.yaml or \.yml/);
+    expect(() =>
+      loadConfigSource({ CONFIG_FILE: join(dir, "missing.json") }),
+    ).toThrow(/could not be read/);
+  });
+});
@@ -0,0 +1,214 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { CORE_SCHEMA, load } from "js-yaml";
+
+/** Every configuration problem found, reported together. */
+export class ConfigValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(
+      `Invalid configuration:\n${issues.map((i) => `  - ${i}`).join("\n")}`,
+    );
+    this.name = "ConfigValidationError";
+    this.issues = issues;
+  }
+}
+
+/** Raw configuration values keyed by env var name, as loadConfig reads them. */
+export type ConfigSource = Record<string, string | undefined>;
+
+type ConfigFileValueType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "array"
+  // A string as-is, or an object/array encoded as the env var's JSON form
+  | "string-or-json";
+
+// Config file keys, the env var each one stands in for, and the value type.
+// Keys not listed here are rejected, so a typo can't silently fall back to a
+// default.
+const CONFIG_FILE_SCHEMA: Record<
+  string,
+  { env: string; type: ConfigFileValueType }
+> = {
+  batchId: { env: "BATCH_ID", type: "string" },
+  userId: { env: "USER_ID", type: "string" },
+  requestSource: { env: "REQUEST_SOURCE", type: "string" },
+  domain: { env: "DOMAIN", type: "string" },
+  originHost: { env: "ORIGIN_HOST", type: "string" },
+  canonicalDomain: { env: "CANONICAL_DOMAIN", type: "string" },
+  baseUrl: { env: "BASE_URL", type: "string" },
+  paths: { env: "PATHS_LIST", type: "array" },
+  pathRules: { env: "PATH_RULES", type: "array" },
+  urlInclude: { env: "URL_INCLUDE", type: "array" },
+  urlExclude: { env: "URL_EXCLUDE", type: "array" },
+  allowedHosts: { env: "ALLOWED_HOSTS", type: "string-or-json" },
+  respectRobotsTxt: { env: "RESPECT_ROBOTS_TXT", type: "boolean" },
+  robotsUserAgent: { env: "ROBOTS_USER_AGENT", type: "string" },
+  crawlDiscovery: { env: "CRAWL_DISCOVERY", type: "boolean" },
+  crawlMaxDepth: { env: "CRAWL_MAX_DEPTH", type: "number" },
+  crawlMaxPages: { env: "CRAWL_MAX_PAGES", type: "number" },
+  sitemapUrl: { env: "SITEMAP_URL", type: "string" },
+  sitemapUpdatedWithin: { env: "SITEMAP_UPDATED_WITHIN", type: "string" },
+  skipSitemapParsing: { env: "SKIP_SITEMAP_PARSING", type: "boolean" },
+  userAgent: { env: "USER_AGENT", type: "string" },
+  renderProfiles: { env: "RENDER_PROFILES", type: "string-or-json" },
+  concurrency: { env: "CONCURRENCY", type: "number" },
+  incremental: { env: "INCREMENTAL", type: "boolean" },
+  snapshotHistory: { env: "SNAPSHOT_HISTORY", type: "number" },
+  regressionGuard: { env: "REGRESSION_GUARD", type: "boolean" },
+  regressionMaxWordDrop: { env: "REGRESSION_MAX_WORD_DROP", type: "number" },
+  regressionMinSimilarity: { env: "REGRESSION_MIN_SIMILARITY", type: "number" },
+  jobDeadlineSeconds: { env: "JOB_DEADLINE_SECONDS", type: "number" },
+  disableAssetCache: { env: "DISABLE_ASSET_CACHE", type: "boolean" },
+  outputDir: { env: "OUTPUT_DIR", type: "string" },
+  internalKey: { env: "ENCITED_INTERNAL_KEY", type: "string" },
+  skipCacheSync: { env: "SKIP_CACHE_SYNC", type: "boolean" },
+  storageBackend: { env: "STORAGE_BACKEND", type: "string" },
+  cfAccountId: { env: "CF_ACCOUNT_ID", type: "string" },
+  r2AccessKeyId: { env: "R2_ACCESS_KEY_ID", type: "string" },
+  r2SecretAccessKey: { env: "R2_SECRET_ACCESS_KEY", type: "string" },
+  r2BucketName: { env: "R2_BUCKET_NAME", type: "string" },
+  storageEndpoint: { env: "STORAGE_ENDPOINT", type: "string" },
+  storageRegion: { env: "STORAGE_REGION", type: "string" },
+  storageBucket: { env: "STORAGE_BUCKET", type: "string" },
+  storageAccessKeyId: { env: "STORAGE_ACCESS_KEY_ID", type: "string" },
+  storageSecretAccessKey: { env: "STORAGE_SECRET_ACCESS_KEY", type: "string" },
+  storageForcePathStyle: { env: "STORAGE_FORCE_PATH_STYLE", type: "boolean" },
+  storageDir: { env: "STORAGE_DIR", type: "string" },
+  webhookUrl: { env: "WEBHOOK_URL", type: "string" },
+  webhookSignature: { env: "WEBHOOK_SIGNATURE", type: "string" },
+  retryOptions: { env: "RETRY_OPTIONS", type: "string-or-json" },
+  telegramBotToken: { env: "TELEGRAM_BOT_TOKEN", type: "string" },
+  telegramChatId: { env: "TELEGRAM_CHAT_ID", type: "string" },
+  port: { env: "PORT", type: "number" },
+  serverHost: { env: "SERVER_HOST", type: "string" },
+  serverAuthToken: { env: "SERVER_AUTH_TOKEN", type: "string" },
+  serverAllowedDomains: {
+    env: "SERVER_ALLOWED_DOMAINS",
+    type: "string-or-json",
+  },
+};
+
+function encodeValue(
+  key: string,
+  value: unknown,
+  type: ConfigFileValueType,
+  issues: string[],
+): string | undefined {
+  switch (type) {
+    case "string":
+      if (typeof value === "string") return value;
+      issues.push(`${key} must be a string`);
+      return undefined;
+    case "number":
+      if (typeof value === "number" && Number.isFinite(value)) {
+        return String(value);
+      }
+      issues.push(`${key} must be a number`);
+      return undefined;
+    case "boolean":
+      if (typeof value === "boolean") return String(value);
+      issues.push(`${key} must be true or false`);
+      return undefined;
+    case "array":
+      if (Array.isArray(value)) return JSON.stringify(value);
+      issues.push(`${key} must be an array`);
+      return undefined;
+    case "string-or-json":
+      if (typeof value === "string") return value;
+      if (typeof value === "object" && value !== null) {
+        return JSON.stringify(value);
+      }
+      issues.push(`${key} must be a string, an object or an array`);
+      return undefined;
+  }
+}
+
+const YAML_EXTENSIONS = [".yaml", ".yml"];
+
+/**
+ * Validate a config file's contents and translate it into env-var-keyed
+ * values. `.yaml`/`.yml` files are read as YAML, anything else as JSON.
+ * Throws a ConfigValidationError listing every bad key.
+ */
+export function parseConfigFile(raw: string, fileName: string): ConfigSource {
+  const yaml = YAML_EXTENSIONS.includes(extname(fileName).toLowerCase());
+  let parsed: unknown;
+  try {
+    // CORE_SCHEMA: no timestamps or other YAML-only types, so values reach
+    // the schema check as the same strings, numbers and booleans JSON gives
+    parsed = yaml ? load(raw, { schema: CORE_SCHEMA }) : JSON.parse(raw);
+  } catch (e) {
+    throw new ConfigValidationError([
+      `${fileName} is not valid ${yaml ? "YAML" : "JSON"}: ${e instanceof Error ? e.message : String(e)}`,
+    ]);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new ConfigValidationError([
+      `${fileName} must contain a ${yaml ? "YAML mapping" : "JSON object"}`,
+    ]);
+  }
+
+  const issues: string[] = [];
+  const values: ConfigSource = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    const field = CONFIG_FILE_SCHEMA[key];
+    if (!field) {
+      issues.push(`${fileName}: unknown key "${key}"`);
+      continue;
+    }
+    // null reads as "not set", like an empty env var
+    if (value === null) continue;
+    const encoded = encodeValue(
+      `${fileName}: ${key}`,
+      value,
+      field.type,
+      issues,
+    );
+    if (encoded !== undefined) {
+      values[field.env] = encoded;
+    }
+  }
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return values;
+}
+
+/**
+ * The values loadConfig validates: CONFIG_FILE (when set) as the base, with
+ * every non-empty env var overriding its file counterpart. Empty env vars
+ * (e.g. `CONCURRENCY=` left blank in .env) don't mask the file.
+ */
+export function loadConfigSource(
+  env: NodeJS.ProcessEnv = process.env,
+): ConfigSource {
+  const configFile = env.CONFIG_FILE;
+  if (!configFile) {
+    return env;
+  }
+  const extension = extname(configFile).toLowerCase();
+  if (extension !== ".json" && !YAML_EXTENSIONS.includes(extension)) {
+    throw new ConfigValidationError([
+      `CONFIG_FILE must be a .json, .yaml or .yml file (got "${configFile}")`,
+    ]);
+  }
+  let raw: string;
+  try {
+    raw = readFileSync(configFile, "utf8");
+  } catch (e) {
+    throw new ConfigValidationError([
+      `CONFIG_FILE ${configFile} could not be read: ${e instanceof Error ? e.message : String(e)}`,
+    ]);
+  }
+  const source = parseConfigFile(raw, configFile);
+  for (const [name, value] of Object.entries(env)) {
+    if (value) {
+      source[name] = value;
+    }
+  }
+  return source;
+}
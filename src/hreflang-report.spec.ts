@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { buildHreflangReport } from "./hreflang-report";
+import type { PipelineResult } from "./pipeline-result";
+
+const EN = "https://example.com/";
+const FR = "https://example.com/fr/";
+const DE = "https://example.com/de/";
+
+function rendered(url: string, hreflangs?: [string, string][]): PipelineResult {
+  return {
+    url,
+    isRendered: true,
+    isCachedToR2: true,
+    hreflangs: hreflangs?.map(([hreflang, href]) => ({ hreflang, href })),
+  };
+}
+
+describe("buildHreflangReport", () => {
+  it("is clean for a reciprocal set", () => {
+    const set: [string, string][] = [
+      ["en", EN],
+      ["fr", FR],
+      ["x-default", EN],
+    ];
+    expect(buildHreflangReport([rendered(EN, set), rendered(FR, set)])).toEqual(
+      {
+        pagesWithHreflang: 2,
+        missingReturnLinks: [],
+        unverifiedAlternates: 0,
+        missingSelfReference: [],
+        missingXDefault: [],
+        invalidCodes: [],
+      },
+    );
+  });
+
+  it("flags alternates that don't link back", () => {
+    const report = buildHreflangReport([
+      rendered(EN, [
+        ["en", EN],
+        ["fr", FR],
+        ["de", DE],
+      ]),
+      // Links to itself only
+      rendered(FR, [["fr", FR]]),
+      // Rendered, but without any hreflang
+      rendered(DE),
+    ]);
+    expect(report.missingReturnLinks).toEqual([
+      { url: EN, alternate: FR, hreflang: "fr" },
+      { url: EN, alternate: DE, hreflang: "de" },
+    ]);
+    expect(report.pagesWithHreflang).toBe(2);
+    expect(report.missingXDefault).toEqual([EN, FR]);
+  });
+
+  it("doesn't judge alternates outside the batch or failed renders", () => {
+    const report = buildHreflangReport([
+      rendered(EN, [
+        ["en", EN],
+        ["fr", FR],
+        ["de-UK", "https://example.de/"],
+      ]),
+      { url: FR, isRendered: false, isCachedToR2: false },
+    ]);
+    expect(report.missingReturnLinks).toEqual([]);
+    expect(report.unverifiedAlternates).toBe(2);
+    expect(report.invalidCodes).toEqual([{ url: EN, hreflang: "de-UK" }]);
+  });
+
+  it("matches pages across www and trailing-slash variants", () => {
+    const report = buildHreflangReport([
+      rendered(EN, [
+        ["en", "https://www.example.com"],
+        ["fr", "https://www.example.com/fr"],
+      ]),
+      rendered(FR, [
+        ["en", EN],
+        ["fr", FR],
+      ]),
+    ]);
+    expect(report.missingReturnLinks).toEqual([]);
+    expect(report.missingSelfReference).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { hasSeoAnalysis, type PipelineResult } from "./pipeline-result";
+import { assessHreflang, hreflangUrlKey } from "./seo-analyzer/hreflang";
+
+/**
+ * Batch-level hreflang consistency. Per-page checks (self-reference,
+ * x-default, language codes) are collected from each page's analysis;
+ * reciprocity is checked here, because it needs the alternate's own set.
+ */
+export interface HreflangReport {
+  pagesWithHreflang: number;
+  // A lists B as an alternate, B was rendered in this batch, but B's set
+  // doesn't link back to A.
+  missingReturnLinks: { url: string; alternate: string; hreflang: string }[];
+  // Alternates that weren't rendered in this batch, so couldn't be checked
+  unverifiedAlternates: number;
+  missingSelfReference: string[];
+  missingXDefault: string[];
+  invalidCodes: { url: string; hreflang: string }[];
+}
+
+/**
+ * `results` should hold one result per URL (a single render profile): the
+ * hreflang sets of a page's variants are the same markup.
+ */
+export function buildHreflangReport(
+  results: Iterable<PipelineResult>,
+): HreflangReport {
+  const report: HreflangReport = {
+    pagesWithHreflang: 0,
+    missingReturnLinks: [],
+    unverifiedAlternates: 0,
+    missingSelfReference: [],
+    missingXDefault: [],
+    invalidCodes: [],
+  };
+
+  // Every rendered page (or fresh one with its stored analysis), keyed for
+  // matching, with its alternates' keys
+  const renderedPages = new Map<string, Set<string>>();
+  const pagesWithLinks: PipelineResult[] = [];
+  for (const result of results) {
+    const key = hreflangUrlKey(result.url);
+    if (!hasSeoAnalysis(result) || key === null) continue;
+    const links = result.hreflangs ?? [];
+    renderedPages.set(
+      key,
+      new Set(links.map((link) => hreflangUrlKey(link.href) ?? link.href)),
+    );
+    if (links.length > 0) pagesWithLinks.push(result);
+  }
+
+  for (const result of pagesWithLinks) {
+    const links = result.hreflangs ?? [];
+    const pageKey = hreflangUrlKey(result.url);
+    report.pagesWithHreflang++;
+    const { hreflangSelfReference, hreflangHasXDefault, hreflangInvalidCodes } =
+      assessHreflang(links, result.url);
+    if (!hreflangSelfReference) report.missingSelfReference.push(result.url);
+    if (!hreflangHasXDefault) report.missingXDefault.push(result.url);
+    for (const hreflang of hreflangInvalidCodes) {
+      report.invalidCodes.push({ url: result.url, hreflang });
+    }
+    for (const link of links) {
+      const alternateKey = hreflangUrlKey(link.href);
+      if (alternateKey === null || alternateKey === pageKey) continue;
+      const returnLinks = renderedPages.get(alternateKey);
+      if (!returnLinks) {
+        report.unverifiedAlternates++;
+      } else if (pageKey === null || !returnLinks.has(pageKey)) {
+        report.missingReturnLinks.push({
+          url: result.url,
+          alternate: link.href,
+          hreflang: link.hreflang,
+        });
+      }
+    }
+  }
+  return report;
+}
@@ -43,6 +43,8 @@ export {
   type MetadataLossResult,
 } from "./detect-metadata-loss";
 
+export type { SanitizerReport } from "./type";
+
 export {
   extractOversizedDataUrls,
   restoreDataUrls,
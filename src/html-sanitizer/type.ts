@@ -6,3 +6,17 @@ export interface SanitizeOptions {
   /** The preferred canonical domain hostname (e.g. "example.com" or "www.example.com") */
   canonicalDomain: string;
 }
+
+/** What the pipeline's sanitization pass did to one rendered page. */
+export interface SanitizerReport {
+  /** Bytes of the HTML as rendered */
+  inputBytes: number;
+  /** Bytes of the HTML as stored */
+  outputBytes: number;
+  /** Oversized data URLs stashed before parsing and restored afterwards */
+  stashedDataUrls: number;
+  /** sanitizeHtml threw, so the rendered HTML was stored unsanitized */
+  fellBack: boolean;
+  /** SEO metadata present in the rendered HTML but gone after sanitizing */
+  lostProperties: string[];
+}
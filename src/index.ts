@@ -1,33 +1,80 @@
 import { mkdir, writeFile } from "node:fs/promises";
 import { join } from "node:path";
-import { uniq } from "es-toolkit";
+import { countBy, uniq } from "es-toolkit";
 import { backOff } from "exponential-backoff";
 import { DateTime } from "luxon";
-import * as TelegramBot from "node-telegram-bot-api";
 import normalizeUrl from "normalize-url";
-import puppeteer, { Browser } from "puppeteer-core";
+import { Browser } from "puppeteer-core";
 import { AssetCache } from "./asset-cache";
-import { BrowserPool } from "./browser-pool";
+import {
+  buildBatchManifest,
+  buildBatchManifestKey,
+  type BatchManifest,
+} from "./batch-manifest";
+import { BrowserPool, RECYCLE_AFTER_RENDERS } from "./browser-pool";
 import { stripTrackingParams } from "./cache-manager/kv-key-utils";
-import { R2Loader } from "./cache-manager/r2-loader";
+import { UrlFilter, type ExcludedUrl } from "./url-filter";
 import {
-  sanitizeHtml,
-  detectMetadataLoss,
-  extractOversizedDataUrls,
-  restoreDataUrls,
-} from "./html-sanitizer";
-import { looksLikeFailedRender } from "./html-sanitizer/soft-404";
+  checkRobotsTxt,
+  fetchRobotsTxt,
+  type RobotsTxtCheck,
+} from "./robots-txt";
+import type { RobotsTxtResult } from "./seo-analyzer/type";
 import {
   loadConfig,
   DEFAULT_CACHE_TTL,
   type Configuration,
+  type PathEntry,
 } from "./load-config";
+import { JobDeadline } from "./job-deadline";
+import { LinkCrawler } from "./link-crawler";
 import { AppLogger, INDENT } from "./logger";
-import { RenderEngine, type RenderResult } from "./render-engine";
+import {
+  applySeoReportFields,
+  pipelineResultKey,
+  resultProfileName,
+  tallyResults,
+  type PipelineResult,
+  type ResultTally,
+} from "./pipeline-result";
+import { PathRuleSet, type UrlRenderOptions } from "./path-rules";
+import { launchBrowser, runPipeline } from "./pipeline";
+import {
+  renderVariant,
+  selectRenderProfiles,
+  type RenderProfile,
+} from "./render-profile";
+import { RenderQueue } from "./render-queue";
 import { RequestStats } from "./request-stats";
-import { SeoAnalyzer } from "./seo-analyzer/index";
-import type { PageSeoAnalysis } from "./seo-analyzer/type";
-import { SitemapParser } from "./sitemap-parser";
+import {
+  buildSeoReport,
+  buildSeoReportKey,
+  type SeoReport,
+} from "./seo-report";
+import {
+  finalizeShard,
+  loadShardProgress,
+  selectResumedResults,
+  ShardCheckpointer,
+  type ShardManifest,
+} from "./shard-manifest";
+import {
+  SitemapParser,
+  type SitemapEntry,
+  type SitemapSource,
+} from "./sitemap-parser";
+import { findFreshSnapshot, readStoredSeoAnalysis } from "./snapshot-freshness";
+import {
+  createSnapshotStore,
+  putJsonObject,
+  type SnapshotStore,
+} from "./snapshot-store";
+import { sendTelegramMessage } from "./telegram";
+import {
+  resolveTaskShard,
+  selectShardUrls,
+  type TaskShard,
+} from "./task-shard";
 import {
   escapeMarkdownV2,
   escapeMarkdownV2Code,
@@ -36,21 +83,10 @@ import {
 } from "./util";
 import {
   countFailuresByReason,
-  toFailureDetail,
   type PrerenderFailedPath,
   type PrerenderFailureDetail,
 } from "./prerender-failure";
 
-interface PipelineResult {
-  url: string;
-  isRendered: boolean;
-  isCachedToR2: boolean;
-  /** Wall-clock of the successful render attempt, from RenderDiagnostics. */
-  renderDurationMs?: number;
-  /** Why the path failed — unset on success. */
-  failure?: PrerenderFailureDetail;
-}
-
 interface RetryOptions {
   parent_batch_group_ids: string[];
   parent_execution_ids: string[];
@@ -61,6 +97,9 @@ interface RetryOptions {
 // count is the last one, so its failures are final and worth alerting on.
 const FINAL_RETRY_COUNT = 2;
 
+// Stored snapshots of resumed pages read at once while seeding the crawl
+const STORED_CRAWL_CONCURRENCY = 10;
+
 interface ReportResultBody {
   batch_id: string;
   user_id: string;
@@ -71,9 +110,71 @@ interface ReportResultBody {
   origin_host: string;
   urls_rendered: number;
   urls_synced_r2: number;
+  urls_unchanged: number;
   urls_synced_kv: number;
+  // INCREMENTAL mode: pages not rendered because their stored snapshot is
+  // still fresh. Neither successes nor failures.
+  skipped_fresh: { paths: string[]; count: number };
+  // Sitemap URLs kept out of the run by ALLOWED_HOSTS / URL_INCLUDE /
+  // URL_EXCLUDE; never rendered, so not counted as failures.
+  excluded: {
+    paths: {
+      path: string;
+      url: string;
+      reason: ExcludedUrl["reason"];
+      rule: string | null;
+    }[];
+    count: number;
+  };
+  // SeoAnalyzer scores (0–100) of the primary profile's rendered pages, with
+  // each page's heaviest issues. average_score is null when none rendered.
+  seo: {
+    average_score: number | null;
+    pages: { path: string; score: number; top_issues: string[] }[];
+  };
+  // Batch SEO report (primary profile): duplicate titles/descriptions and
+  // canonical clusters as group and page counts, plus canonicals pointing at
+  // failed or unrendered pages. The full report is stored at object_key
+  // (null when SKIP_CACHE_SYNC is set or the write failed).
+  seo_report: {
+    object_key: string | null;
+    // Pages the report covers; pages_without_analysis were skipped as fresh
+    // without a readable stored analysis, so aren't in it
+    page_count: number;
+    pages_without_analysis: number;
+    duplicate_titles: { groups: number; pages: number };
+    duplicate_descriptions: { groups: number; pages: number };
+    canonical_clusters: { groups: number; pages: number };
+    broken_canonicals: {
+      paths: {
+        path: string;
+        canonical: string;
+        reason: SeoReport["brokenCanonicals"][number]["reason"];
+      }[];
+      count: number;
+    };
+  };
+  // Hreflang consistency across the primary profile's rendered pages: pages
+  // whose alternates don't link back, plus the per-page checks.
+  hreflang: {
+    pages_with_hreflang: number;
+    missing_return_links: {
+      path: string;
+      alternate: string;
+      hreflang: string;
+    }[];
+    unverified_alternates: number;
+    missing_self_reference: string[];
+    missing_x_default: string[];
+    invalid_codes: { path: string; hreflang: string }[];
+  };
+  // Every URL and profile of the batch with its stored snapshot, written to
+  // object_key (null when SKIP_CACHE_SYNC is set or the write failed).
+  batch_manifest: { object_key: string | null; entries: number };
   sitemap_url: string;
   sitemap_filter: string;
+  // One entry per leaf sitemap; a failed child no longer drops the others.
+  sitemaps: { url: string; url_count: number; error: string | null }[];
   started_at: string;
   finished_at: string;
   failed: {
@@ -86,33 +187,24 @@ interface ReportResultBody {
       count: number;
     };
   };
+  // Per render profile (RENDER_PROFILES). The top-level counts and paths
+  // above describe the primary (first) profile only.
+  profiles: Record<
+    string,
+    {
+      urls_rendered: number;
+      urls_synced_r2: number;
+      urls_unchanged: number;
+      skipped_fresh: { paths: string[]; count: number };
+      failed_to_render: { paths: PrerenderFailedPath[]; count: number };
+      failed_to_sync: { paths: PrerenderFailedPath[]; count: number };
+    }
+  >;
   retry_options?: RetryOptions;
 }
 
 const logger = AppLogger.register({ prefix: "index" });
 
-// Telegram is a best-effort side channel: every send is capped at 10s and
-// callers catch and log failures without affecting the job.
-async function sendTelegramMessage({
-  botToken,
-  chatId,
-  message,
-}: {
-  botToken: string;
-  chatId: string;
-  message: string;
-}): Promise<void> {
-  const telegramBot = new TelegramBot(botToken);
-  await Promise.race([
-    telegramBot.sendMessage(chatId, message.slice(0, 4096), {
-      parse_mode: "MarkdownV2",
-    }),
-    new Promise((_, reject) =>
-      setTimeout(() => reject(new Error("Telegram send timeout")), 10000),
-    ),
-  ]);
-}
-
 function getConfig(): Configuration {
   try {
     const config = loadConfig();
@@ -126,103 +218,272 @@ function getConfig(): Configuration {
   }
 }
 
+/**
+ * Why a discovered URL (from the sitemap or the crawl) is kept out of the
+ * run, or null to render it. Null itself when no filter is configured.
+ */
+function buildDiscoveryFilter(
+  config: Configuration,
+  robotsTxt: RobotsTxtResult | null,
+): ((url: string) => Omit<ExcludedUrl, "url"> | null) | null {
+  const urlFilter = UrlFilter.register(config.urlFilter);
+  const robotsCheck: RobotsTxtCheck | null =
+    config.respectRobotsTxt && robotsTxt
+      ? { robots: robotsTxt, userAgent: config.robotsUserAgent }
+      : null;
+  if (!urlFilter.isActive && !robotsCheck) {
+    return null;
+  }
+  return (url) => {
+    const exclusion = urlFilter.check(url);
+    if (exclusion || !robotsCheck) {
+      return exclusion;
+    }
+    const verdict = checkRobotsTxt(robotsCheck, url);
+    return verdict.allowed
+      ? null
+      : { reason: "robots_disallowed", rule: verdict.rule };
+  };
+}
+
 async function prepareTargetUrls({
   config,
   urlsFromPaths,
+  robotsTxt,
 }: {
   config: Configuration;
   urlsFromPaths: string[];
-}): Promise<{ urlsToRender: string[]; sitemapUrl: string }> {
-  const sitemapUrl = config.sitemapUrl || `${config.baseUrl}/sitemap.xml`;
-  const sitemapParser = SitemapParser.register({
-    sitemapUrl,
-    lastmodFilter: config.sitemapUpdatedWithin,
-  });
-  const urlsFromSitemap = await sitemapParser.parseSitemap();
+  // Null when the site has no (reachable) robots.txt
+  robotsTxt: RobotsTxtResult | null;
+}): Promise<{
+  urlsToRender: string[];
+  sitemapUrl: string;
+  sitemapEntryMap: Map<string, SitemapEntry>;
+  sitemapSources: SitemapSource[];
+  excludedUrls: ExcludedUrl[];
+}> {
+  // An explicit SITEMAP_URL is the only source; otherwise /sitemap.xml plus
+  // every sitemap robots.txt declares.
+  const sitemapUrls = config.sitemapUrl
+    ? [config.sitemapUrl]
+    : uniq([`${config.baseUrl}/sitemap.xml`, ...(robotsTxt?.sitemaps ?? [])]);
+  const entries: SitemapEntry[] = [];
+  const sitemapSources: SitemapSource[] = [];
+  for (const url of sitemapUrls) {
+    const sitemapParser = SitemapParser.register({
+      sitemapUrl: url,
+      lastmodFilter: config.sitemapUpdatedWithin,
+    });
+    const parsed = await sitemapParser.parseSitemap();
+    entries.push(...parsed.entries);
+    sitemapSources.push(...parsed.sources);
+  }
+  // Reported as sitemap_url; `sitemapSources` lists every sitemap read.
+  const sitemapUrl = sitemapUrls[0]!;
   // Strip tracking params (?utm_*, click IDs) so URL variants collapse into
   // one render and one cache entry instead of each minting their own.
-  const urlsToRender = uniq(
-    [...urlsFromPaths, ...urlsFromSitemap].map((url) =>
-      stripTrackingParams(normalizeUrl(url)),
-    ),
+  const sitemapEntryMap = new Map<string, SitemapEntry>();
+  for (const entry of entries) {
+    const url = stripTrackingParams(normalizeUrl(entry.loc));
+    if (!sitemapEntryMap.has(url)) {
+      sitemapEntryMap.set(url, entry);
+    }
+  }
+  const pathUrls = urlsFromPaths.map((url) =>
+    stripTrackingParams(normalizeUrl(url)),
   );
+  // Filters only narrow what the sitemap contributes: PATHS_LIST entries were
+  // asked for explicitly, so they always render.
+  const checkExclusion = buildDiscoveryFilter(config, robotsTxt);
+  const excludedUrls: ExcludedUrl[] = [];
+  if (checkExclusion) {
+    const pathUrlSet = new Set(pathUrls);
+    for (const url of sitemapEntryMap.keys()) {
+      if (pathUrlSet.has(url)) continue;
+      const exclusion = checkExclusion(url);
+      if (exclusion) {
+        excludedUrls.push({ url, ...exclusion });
+        sitemapEntryMap.delete(url);
+      }
+    }
+    logger.info(
+      `[UrlFilter] Excluded ${excludedUrls.length} sitemap URLs` +
+        (excludedUrls.length > 0
+          ? ` (${Object.entries(countBy(excludedUrls, ({ reason }) => reason))
+              .map(([reason, count]) => `${reason}: ${count}`)
+              .join(", ")})`
+          : ""),
+    );
+    for (const { url, reason, rule } of excludedUrls) {
+      logger.info(`${INDENT}${url} — ${reason}${rule ? ` (${rule})` : ""}`);
+    }
+  }
+  const urlsToRender = uniq([...pathUrls, ...sitemapEntryMap.keys()]);
   logger.info(`Prepared ${urlsToRender.length} URLs to render`);
   logger.info(`Base URL: ${config.baseUrl}`);
   urlsToRender.forEach((url, index) => {
     logger.info(`${INDENT}${index + 1}: ${extractPathFromUrl(url)}`);
   });
-  return { urlsToRender, sitemapUrl };
+  return {
+    urlsToRender,
+    sitemapUrl,
+    sitemapEntryMap,
+    sitemapSources,
+    excludedUrls,
+  };
+}
+
+function countGroupedPages(groups: { urls: string[] }[]): number {
+  return groups.reduce((sum, group) => sum + group.urls.length, 0);
+}
+
+// Persist the batch SEO report next to the shard manifests. Never fails the
+// run: the webhook still goes out, just without the report's key.
+async function writeSeoReport({
+  store,
+  seoReport,
+}: {
+  store: SnapshotStore | null;
+  seoReport: SeoReport;
+}): Promise<string | null> {
+  logger.info(
+    `[SeoReport] ${seoReport.duplicateTitles.length} duplicate title group(s), ` +
+      `${seoReport.duplicateDescriptions.length} duplicate description group(s), ` +
+      `${seoReport.canonicalClusters.length} canonical cluster(s), ` +
+      `${seoReport.brokenCanonicals.length} broken canonical(s)`,
+  );
+  if (!store) return null;
+  const key = buildSeoReportKey(seoReport.batchId);
+  try {
+    await putJsonObject(store, key, seoReport);
+    logger.info(`[SeoReport] Written to ${key}`);
+    return key;
+  } catch (e) {
+    logger.error(`[SeoReport] Failed to write ${key}`, e);
+    return null;
+  }
+}
+
+// Persist the batch manifest next to the shard manifests. Like the SEO
+// report, a failed write only drops its key from the webhook.
+async function writeBatchManifest({
+  store,
+  batchManifest,
+}: {
+  store: SnapshotStore | null;
+  batchManifest: BatchManifest;
+}): Promise<string | null> {
+  if (!store) return null;
+  const key = buildBatchManifestKey(batchManifest.batchId);
+  try {
+    await putJsonObject(store, key, batchManifest);
+    logger.info(
+      `[BatchManifest] ${batchManifest.entries.length} entries written to ${key}`,
+    );
+    return key;
+  } catch (e) {
+    logger.error(`[BatchManifest] Failed to write ${key}`, e);
+    return null;
+  }
 }
 
 async function reportResult({
   config,
-  urlResultMap,
+  resultMap,
   urlToOriginalPathMap,
   domain,
   canonicalDomain,
   originHost,
   sitemapUrl,
   sitemapFilter,
+  sitemapSources,
+  excludedUrls,
   startedAt,
   completedAt,
   userId,
+  store,
 }: {
   config: Configuration;
-  urlResultMap: Map<string, PipelineResult>;
+  // Keyed by pipelineResultKey: one result per URL and render profile.
+  resultMap: Map<string, PipelineResult>;
   urlToOriginalPathMap: Map<string, string>;
   domain: string;
   canonicalDomain: string;
   originHost: string;
   sitemapUrl: string;
   sitemapFilter: string;
+  sitemapSources: SitemapSource[];
+  excludedUrls: ExcludedUrl[];
   startedAt: number;
   completedAt: number;
   userId: string;
+  // Where the batch SEO report and manifest are written; null with
+  // SKIP_CACHE_SYNC
+  store: SnapshotStore | null;
 }): Promise<void> {
+  const profileNames = config.renderProfiles.map((profile) => profile.name);
+  const resultsByProfile = new Map<string, PipelineResult[]>(
+    profileNames.map((name) => [name, []]),
+  );
+  for (const result of resultMap.values()) {
+    resultsByProfile.get(resultProfileName(result))?.push(result);
+  }
+  const tallyByProfile = new Map(
+    [...resultsByProfile].map(([name, results]) => [
+      name,
+      tallyResults(results),
+    ]),
+  );
+  const primaryTally =
+    tallyByProfile.get(profileNames[0] ?? "") ?? tallyResults([]);
   const {
     successUrls,
     countRendered,
     countR2Synced,
+    countUnchanged,
+    skippedFreshUrls,
     failedToRenderUrls,
     failedToSyncUrls,
-  } = urlResultMap.values().reduce<{
-    successUrls: string[];
-    countRendered: number;
-    countR2Synced: number;
-    failedToRenderUrls: { url: string; failure: PrerenderFailureDetail }[];
-    failedToSyncUrls: string[];
-  }>(
-    (acc, result) => {
-      if (result.isRendered) {
-        acc.countRendered++;
-      }
-      if (result.isCachedToR2) {
-        acc.countR2Synced++;
-      }
-      if (!result.isRendered) {
-        acc.failedToRenderUrls.push({
-          url: result.url,
-          failure: result.failure ?? { reason: "unknown" },
-        });
-      }
-      if (result.isRendered && !result.isCachedToR2) {
-        acc.failedToSyncUrls.push(result.url);
-      }
-      if (result.isRendered && result.isCachedToR2) {
-        acc.successUrls.push(result.url);
-      }
-      return acc;
-    },
-    {
-      successUrls: [],
-      countRendered: 0,
-      countR2Synced: 0,
-      failedToRenderUrls: [],
-      failedToSyncUrls: [],
-    },
-  );
+  } = primaryTally;
   const resolvePath = (url: string) =>
     urlToOriginalPathMap.get(url) ?? extractPathFromUrl(url);
+  const primaryResults = resultsByProfile.get(profileNames[0] ?? "") ?? [];
+  const scoredResults = primaryResults
+    .filter((result) => result.seoScore !== undefined)
+    .map((result) => ({
+      path: resolvePath(result.url),
+      score: result.seoScore ?? 0,
+      top_issues: result.seoTopIssues ?? [],
+    }));
+  const seoReport = buildSeoReport({
+    batchId: config.batchId,
+    results: primaryResults,
+    canonicalDomain,
+  });
+  const seoReportKey = await writeSeoReport({ store, seoReport });
+  const batchManifest = buildBatchManifest({
+    batchId: config.batchId,
+    executionId: process.env.CLOUD_RUN_EXECUTION ?? "local",
+    results: resultMap.values(),
+  });
+  const batchManifestKey = await writeBatchManifest({ store, batchManifest });
+  const hreflangReport = seoReport.hreflang;
+  const toFailedSections = (tally: ResultTally) => ({
+    failed_to_render: {
+      paths: tally.failedToRenderUrls.map(({ url, failure }) => ({
+        path: resolvePath(url),
+        error: failure,
+      })),
+      count: tally.failedToRenderUrls.length,
+    },
+    failed_to_sync: {
+      paths: tally.failedToSyncUrls.map((url) => ({
+        path: resolvePath(url),
+        error: { reason: "sync_failed" as const },
+      })),
+      count: tally.failedToSyncUrls.length,
+    },
+  });
   const resultBody: ReportResultBody = {
     batch_id: config.batchId,
     user_id: userId,
@@ -233,28 +494,104 @@ async function reportResult({
     origin_host: originHost,
     urls_rendered: countRendered,
     urls_synced_r2: countR2Synced,
+    urls_unchanged: countUnchanged,
     // KV sync was removed; the field stays 0 to keep the webhook contract.
     urls_synced_kv: 0,
-    sitemap_url: sitemapUrl,
-    sitemap_filter: sitemapFilter,
-    started_at: DateTime.fromMillis(startedAt).toUTC().toISO()!,
-    finished_at: DateTime.fromMillis(completedAt).toUTC().toISO()!,
-    failed: {
-      failed_to_render: {
-        paths: failedToRenderUrls.map(({ url, failure }) => ({
-          path: resolvePath(url),
-          error: failure,
-        })),
-        count: failedToRenderUrls.length,
+    skipped_fresh: {
+      paths: skippedFreshUrls.map(resolvePath),
+      count: skippedFreshUrls.length,
+    },
+    excluded: {
+      paths: excludedUrls.map(({ url, reason, rule }) => ({
+        path: extractPathFromUrl(url),
+        url,
+        reason,
+        rule,
+      })),
+      count: excludedUrls.length,
+    },
+    seo: {
+      average_score:
+        scoredResults.length > 0
+          ? Math.round(
+              scoredResults.reduce((sum, page) => sum + page.score, 0) /
+                scoredResults.length,
+            )
+          : null,
+      pages: scoredResults,
+    },
+    seo_report: {
+      object_key: seoReportKey,
+      page_count: seoReport.pageCount,
+      pages_without_analysis: seoReport.pagesWithoutAnalysis,
+      duplicate_titles: {
+        groups: seoReport.duplicateTitles.length,
+        pages: countGroupedPages(seoReport.duplicateTitles),
+      },
+      duplicate_descriptions: {
+        groups: seoReport.duplicateDescriptions.length,
+        pages: countGroupedPages(seoReport.duplicateDescriptions),
+      },
+      canonical_clusters: {
+        groups: seoReport.canonicalClusters.length,
+        pages: countGroupedPages(seoReport.canonicalClusters),
       },
-      failed_to_sync: {
-        paths: failedToSyncUrls.map((url) => ({
+      broken_canonicals: {
+        paths: seoReport.brokenCanonicals.map(({ url, canonical, reason }) => ({
           path: resolvePath(url),
-          error: { reason: "sync_failed" as const },
+          canonical,
+          reason,
         })),
-        count: failedToSyncUrls.length,
+        count: seoReport.brokenCanonicals.length,
       },
     },
+    hreflang: {
+      pages_with_hreflang: hreflangReport.pagesWithHreflang,
+      missing_return_links: hreflangReport.missingReturnLinks.map(
+        ({ url, alternate, hreflang }) => ({
+          path: resolvePath(url),
+          alternate,
+          hreflang,
+        }),
+      ),
+      unverified_alternates: hreflangReport.unverifiedAlternates,
+      missing_self_reference:
+        hreflangReport.missingSelfReference.map(resolvePath),
+      missing_x_default: hreflangReport.missingXDefault.map(resolvePath),
+      invalid_codes: hreflangReport.invalidCodes.map(({ url, hreflang }) => ({
+        path: resolvePath(url),
+        hreflang,
+      })),
+    },
+    batch_manifest: {
+      object_key: batchManifestKey,
+      entries: batchManifest.entries.length,
+    },
+    sitemap_url: sitemapUrl,
+    sitemap_filter: sitemapFilter,
+    sitemaps: sitemapSources.map((source) => ({
+      url: source.url,
+      url_count: source.urlCount,
+      error: source.error ?? null,
+    })),
+    started_at: DateTime.fromMillis(startedAt).toUTC().toISO()!,
+    finished_at: DateTime.fromMillis(completedAt).toUTC().toISO()!,
+    failed: toFailedSections(primaryTally),
+    profiles: Object.fromEntries(
+      [...tallyByProfile].map(([name, tally]) => [
+        name,
+        {
+          urls_rendered: tally.countRendered,
+          urls_synced_r2: tally.countR2Synced,
+          urls_unchanged: tally.countUnchanged,
+          skipped_fresh: {
+            paths: tally.skippedFreshUrls.map(resolvePath),
+            count: tally.skippedFreshUrls.length,
+          },
+          ...toFailedSections(tally),
+        },
+      ]),
+    ),
   };
 
   logger.info(`Batch result: ${JSON.stringify(resultBody, null, 2)}`);
@@ -270,8 +607,10 @@ async function reportResult({
   }
   const isFinalRetryRun =
     resultBody.retry_options?.retry_count === FINAL_RETRY_COUNT;
-  const hasFailedCases =
-    failedToRenderUrls.length > 0 || failedToSyncUrls.length > 0;
+  const hasFailedCases = [...tallyByProfile.values()].some(
+    (tally) =>
+      tally.failedToRenderUrls.length > 0 || tally.failedToSyncUrls.length > 0,
+  );
   const shouldSendToTelegram =
     isFinalRetryRun || (hasFailedCases && resultBody.source === "manual");
   if (
@@ -296,7 +635,7 @@ async function reportResult({
       `*origin host:* ${escapeMarkdownV2(resultBody.origin_host)}`,
       `*execution:* \`${escapeMarkdownV2(resultBody.google_cloud_execution_id)}\``,
       ``,
-      `*result:* success: ${successUrls.length}, render\\_failed: ${failedToRenderUrls.length}, sync\\_failed: ${failedToSyncUrls.length}`,
+      `*result:* success: ${successUrls.length} \\(unchanged: ${countUnchanged}\\), skipped\\_fresh: ${skippedFreshUrls.length}, render\\_failed: ${failedToRenderUrls.length}, sync\\_failed: ${failedToSyncUrls.length}`,
     ];
     const failureCounts = countFailuresByReason(
       failedToRenderUrls.map(({ failure }) => failure),
@@ -314,6 +653,21 @@ async function reportResult({
         )}`,
       );
     }
+    if (tallyByProfile.size > 1) {
+      for (const [name, tally] of tallyByProfile) {
+        lines.push(
+          `*${escapeMarkdownV2(name)}:* success: ${tally.successUrls.length}, render\\_failed: ${tally.failedToRenderUrls.length}, sync\\_failed: ${tally.failedToSyncUrls.length}`,
+        );
+      }
+    }
+    const failedSitemaps = sitemapSources.filter((source) => source.error);
+    if (failedSitemaps.length > 0) {
+      lines.push(
+        `*failed sitemaps:* ${escapeMarkdownV2(
+          failedSitemaps.map((source) => source.url).join(", "),
+        )}`,
+      );
+    }
     if (
       isFinalRetryRun &&
       parentBatchGroupIds.length > 0 &&
@@ -387,253 +741,6 @@ async function reportResult({
   }
 }
 
-async function launchBrowser(): Promise<Browser> {
-  try {
-    const browser = await puppeteer.launch({
-      executablePath: "/usr/bin/chrome",
-      args: [
-        "--no-sandbox",
-        "--disable-setuid-sandbox",
-        // "--disable-gpu",
-        "--disable-dev-shm-usage",
-        "--disable-extensions",
-        "--no-first-run",
-        "--disable-background-networking",
-      ],
-    });
-    logger.info("Browser launched successfully");
-    return browser;
-  } catch (e) {
-    logger.error(`Failed to launch browser`, e);
-    throw e;
-  }
-}
-
-async function runPipeline({
-  pipelineNumber,
-  urlToRender,
-  cacheTtl,
-  config,
-  browser,
-  assetCache,
-  requestStats,
-  snapshotDir,
-}: {
-  pipelineNumber: number;
-  urlToRender: string;
-  cacheTtl: number;
-  config: Configuration;
-  browser: Browser;
-  assetCache: AssetCache | null;
-  requestStats: RequestStats;
-  snapshotDir: string | null;
-}): Promise<PipelineResult> {
-  const path = extractPathFromUrl(urlToRender);
-  const result: PipelineResult = {
-    url: urlToRender,
-    isRendered: false,
-    isCachedToR2: false,
-  };
-  logger.info(`[${pipelineNumber}] Processing ${urlToRender}`);
-
-  // A near-empty render usually means the snapshot caught the SPA's loading
-  // shell (readiness heuristics can fire while a starved renderer still holds
-  // the route's Suspense fallback). Retry once with widened stability
-  // windows; if the content is still thin after that, cache it as-is — the
-  // page may just be genuinely minimal. This is a render-quality signal only;
-  // the soft-404 verdict (noindex + wording, or the status-code hint) is
-  // computed separately and never triggers a retry.
-  const MAX_CONTENT_ATTEMPTS = 2;
-  let renderResult: RenderResult | null = null;
-  let preparedHtml = "";
-  let dataUrlMap = new Map<string, string>();
-  let sanitizedHtml = "";
-  let seoAnalysisResult: PageSeoAnalysis | null = null;
-
-  for (let attempt = 1; attempt <= MAX_CONTENT_ATTEMPTS; attempt++) {
-    const renderer = RenderEngine.register({
-      targetUrl: urlToRender,
-      browser,
-      userAgent: config.userAgent,
-      internalKey: config.internalKey,
-      // Renders target the origin host directly, but the page's own absolute
-      // URLs hit the customer domain (behind the rate-limiting Fly proxy) —
-      // those requests need the key too.
-      internalKeyHosts: [config.domain, config.canonicalDomain],
-      extendedStability: attempt > 1,
-      assetCache: assetCache ?? undefined,
-      requestStats,
-    });
-
-    try {
-      renderResult = await renderer.renderPage();
-      logger.info(`${INDENT}${INDENT}↳ ${path} - rendering completed`);
-    } catch (e) {
-      logger.error(`${INDENT}${INDENT}↳ ${path} - rendering failed`, e);
-      result.failure = toFailureDetail(e);
-      return result;
-    }
-
-    // Swap any oversized base64 data URLs for short placeholder tokens so they
-    // don't trigger node-html-parser's regex stack overflow. The originals are
-    // restored after sanitization, before the HTML is persisted.
-    ({ html: preparedHtml, urlMap: dataUrlMap } = extractOversizedDataUrls(
-      renderResult.html,
-    ));
-    if (dataUrlMap.size > 0) {
-      logger.info(
-        `${INDENT}${INDENT}↳ ${path} - stashed ${dataUrlMap.size} oversized data URL(s) before parsing (${renderResult.html.length} → ${preparedHtml.length} bytes)`,
-      );
-    }
-
-    // Sanitize rendered HTML: fix metadata, remove noise, inject missing tags
-    try {
-      sanitizedHtml = sanitizeHtml({
-        html: preparedHtml,
-        url: renderResult.finalUrl,
-        canonicalDomain: config.canonicalDomain,
-      });
-      logger.debug(`Sanitized HTML: ${sanitizedHtml}`);
-    } catch (e) {
-      logger.error(
-        `${INDENT}${INDENT}↳ ${path} - HTML sanitization failed fallback to original HTML`,
-        e,
-      );
-      sanitizedHtml = preparedHtml;
-    }
-    logger.info(`${INDENT}${INDENT}↳ ${path} - HTML sanitized`);
-
-    try {
-      const analyzer = SeoAnalyzer.register({
-        html: sanitizedHtml,
-        url: renderResult.finalUrl,
-        statusCode: renderResult.statusCode,
-        xRobotsTag: renderResult.xRobotsTag ?? null,
-      });
-      seoAnalysisResult = analyzer.analyze();
-      logger.info(`${INDENT}${INDENT}↳ ${path} - SEO analysis completed`);
-    } catch (e) {
-      logger.error(`${INDENT}${INDENT}↳ ${path} - SEO analysis failed`, e);
-      result.failure = { reason: "unknown" };
-      return result;
-    }
-
-    if (
-      !looksLikeFailedRender({
-        title: seoAnalysisResult.title,
-        wordCount: seoAnalysisResult.wordCount,
-        h1Count: seoAnalysisResult.h1Count,
-      })
-    ) {
-      break;
-    }
-    if (attempt < MAX_CONTENT_ATTEMPTS) {
-      logger.warn(
-        `${INDENT}${INDENT}↳ ${path} - thin render (${seoAnalysisResult.wordCount} words), retrying with extended stability windows`,
-      );
-    }
-  }
-
-  if (!renderResult || !seoAnalysisResult) {
-    return result;
-  }
-  if (
-    looksLikeFailedRender({
-      title: seoAnalysisResult.title,
-      wordCount: seoAnalysisResult.wordCount,
-      h1Count: seoAnalysisResult.h1Count,
-    })
-  ) {
-    logger.warn(
-      `${INDENT}${INDENT}↳ ${path} - thin render persisted after retry (${seoAnalysisResult.wordCount} words), caching as-is`,
-    );
-  }
-  result.isRendered = true;
-  result.renderDurationMs = renderResult.diagnostics?.durationMs;
-
-  // Detect SEO metadata lost during sanitization. Both inputs carry the same
-  // placeholders, so property-presence comparisons stay accurate.
-  try {
-    const metadataLoss = detectMetadataLoss(preparedHtml, sanitizedHtml);
-    if (metadataLoss.lostProperties.length > 0) {
-      logger.warn(
-        `${INDENT}${INDENT}↳ ${path} - SEO metadata lost during sanitization: ${metadataLoss.lostProperties.join(", ")}`,
-        { originalHtml: renderResult.html, sanitizedHtml },
-      );
-
-      if (config.telegramBotToken && config.telegramChatId) {
-        try {
-          await sendTelegramMessage({
-            botToken: config.telegramBotToken,
-            chatId: config.telegramChatId,
-            message: `⚠️ SEO metadata lost during sanitization\n\nJob ID: ${escapeMarkdownV2(process.env.CLOUD_RUN_EXECUTION ?? "")}\nURL: ${escapeMarkdownV2(urlToRender)}\nPath: ${escapeMarkdownV2(path)}\nLost: ${escapeMarkdownV2(metadataLoss.lostProperties.join(", "))}`,
-          });
-        } catch (e) {
-          logger.error(`Failed to send metadata loss alert to Telegram`, e);
-        }
-      }
-    }
-  } catch (e) {
-    logger.error(
-      `${INDENT}${INDENT}↳ ${path} - SEO metadata loss detection failed`,
-      e,
-    );
-  }
-
-  // Restore the stashed data URLs into the final HTML before persistence.
-  const finalSanitizedHtml = restoreDataUrls(sanitizedHtml, dataUrlMap);
-
-  if (snapshotDir) {
-    // Local testing aid: mirror the snapshot that would be persisted into the
-    // per-run output directory. Never fails the pipeline.
-    const fileName =
-      (path.replace(/^\//, "").replace(/[^a-zA-Z0-9._-]+/g, "_") || "index") +
-      ".html";
-    try {
-      await writeFile(join(snapshotDir, fileName), finalSanitizedHtml);
-      logger.info(
-        `${INDENT}${INDENT}↳ ${path} - snapshot written to ${join(snapshotDir, fileName)}`,
-      );
-    } catch (e) {
-      logger.warn(`${INDENT}${INDENT}↳ ${path} - failed to write snapshot`, e);
-    }
-  }
-
-  // Skip caching if SKIP_CACHE_SYNC is true
-  if (config.skipCacheSync) {
-    return result;
-  }
-
-  // Upload snapshot to R2
-  const r2Loader = R2Loader.register({
-    targetUrl: renderResult.url,
-    html: finalSanitizedHtml,
-    seoAnalysis: seoAnalysisResult,
-    userAgent: config.userAgent,
-    diagnostics: renderResult.diagnostics,
-    r2CacheConfig: {
-      cfAccountId: config.cfAccountId,
-      r2AccessKeyId: config.r2AccessKeyId,
-      r2SecretAccessKey: config.r2SecretAccessKey,
-      r2BucketName: config.r2BucketName,
-      cacheTtl,
-    },
-  });
-  const r2UploadResult = await r2Loader.uploadR2Object();
-  result.isCachedToR2 = r2UploadResult.r2Synced;
-
-  if (!r2UploadResult.r2Synced) {
-    logger.error(
-      `${INDENT}${INDENT}↳ ${path} - uploading snapshot to R2 failed`,
-    );
-    return result;
-  }
-  logger.info(
-    `${INDENT}${INDENT}↳ ${path} - snapshot uploaded to R2 (objectKey: ${r2UploadResult.objectKey})`,
-  );
-  return result;
-}
-
 // End-of-run reporting: log render durations, outbound-request and
 // asset-cache stats, and (when snapshots are written) a machine-readable
 // summary.json next to them so cache-on/cache-off runs can be diffed
@@ -644,20 +751,39 @@ async function reportRunSummary({
   assetCache,
   snapshotDir,
   concurrency,
+  sitemapSources,
+  excludedUrls,
 }: {
   pipelineResults: PipelineResult[];
   requestStats: RequestStats;
   assetCache: AssetCache | null;
   snapshotDir: string | null;
   concurrency: number;
+  sitemapSources: SitemapSource[];
+  excludedUrls: ExcludedUrl[];
 }): Promise<void> {
+  if (sitemapSources.length > 0) {
+    logger.info(`[Summary] Sitemaps:`);
+    for (const source of sitemapSources) {
+      logger.info(
+        `${INDENT}${source.url} — ${source.error ? `failed (${source.error})` : `${source.urlCount} URLs`}`,
+      );
+    }
+  }
   logger.info(`[Summary] Render durations:`);
   for (const r of pipelineResults) {
-    const duration =
-      r.renderDurationMs !== undefined
+    const duration = r.isSkippedFresh
+      ? `skipped (fresh)`
+      : r.renderDurationMs !== undefined
         ? `${(r.renderDurationMs / 1000).toFixed(1)}s`
         : `failed (${r.failure?.reason ?? "unknown"})`;
-    logger.info(`${INDENT}${extractPathFromUrl(r.url)} — ${duration}`);
+    const profileTag = r.profile ? ` [${r.profile}]` : "";
+    const depthTag = r.discoveryDepth
+      ? ` (crawl depth ${r.discoveryDepth})`
+      : "";
+    logger.info(
+      `${INDENT}${extractPathFromUrl(r.url)}${profileTag}${depthTag} — ${duration}`,
+    );
   }
 
   const reqStats = requestStats.stats();
@@ -688,9 +814,23 @@ async function reportRunSummary({
       pages: pipelineResults.map((r) => ({
         path: extractPathFromUrl(r.url),
         url: r.url,
+        profile: resultProfileName(r),
         rendered: r.isRendered,
+        skippedFresh: r.isSkippedFresh ?? false,
         renderDurationMs: r.renderDurationMs ?? null,
         failureReason: r.failure?.reason ?? null,
+        pathRule: r.pathRule ?? null,
+        discoveryDepth: r.discoveryDepth ?? null,
+        seoScore: r.seoScore ?? null,
+        seoTopIssues: r.seoTopIssues ?? [],
+        sitemap: r.sitemap ?? null,
+      })),
+      sitemaps: sitemapSources,
+      excluded: excludedUrls.map(({ url, reason, rule }) => ({
+        path: extractPathFromUrl(url),
+        url,
+        reason,
+        rule,
       })),
       outboundRequests: {
         customerOrigin: reqStats.originRequests,
@@ -720,26 +860,88 @@ async function reportRunSummary({
 
 async function runPipelineStreams({
   concurrency,
-  urlsToRender,
-  cacheTtlMap,
+  renderQueue,
+  renderOptionsMap,
   config,
   launchBrowserFn,
+  store,
+  sitemapEntryMap,
+  sitemapSources,
+  excludedUrls,
+  robotsTxt,
+  crawler,
+  resumedResults,
+  pathRuleSet,
+  deadline,
+  onResult,
 }: {
   concurrency: number;
   config: Configuration;
-  urlsToRender: string[];
-  cacheTtlMap: Map<string, number>;
+  store: SnapshotStore | null;
+  renderQueue: RenderQueue;
+  // When set, streams stop taking URLs as the job's time budget runs out.
+  deadline: JobDeadline | null;
+  // TTL, profiles and wait selectors per URL (PATHS_LIST + PATH_RULES)
+  renderOptionsMap: Map<string, UrlRenderOptions>;
   launchBrowserFn: () => Promise<Browser>;
+  // Sitemap <lastmod>/<priority>/<changefreq> per URL, carried onto results
+  sitemapEntryMap: Map<string, SitemapEntry>;
+  sitemapSources: SitemapSource[];
+  // Reported in summary.json alongside the rendered pages
+  excludedUrls: ExcludedUrl[];
+  // Gives each page's SEO analysis its robots.txt verdict
+  robotsTxt: RobotsTxtCheck | null;
+  // Crawl discovery: queues the same-host links of each rendered page
+  crawler: LinkCrawler | null;
+  // Carried over from an earlier attempt; crawled from the store, not rendered
+  resumedResults: PipelineResult[];
+  // Resolves the render options of URLs the crawl discovers
+  pathRuleSet: PathRuleSet;
+  // Called as each URL finishes (success or failure), for progress
+  // checkpointing.
+  onResult?: (result: PipelineResult) => void;
 }): Promise<{ resultMap: Map<string, PipelineResult> }> {
   const pipelineResults: PipelineResult[] = [];
+  const recordResult = (result: PipelineResult) => {
+    const sitemapEntry = sitemapEntryMap.get(result.url);
+    if (sitemapEntry) {
+      const { lastmod, priority, changefreq } = sitemapEntry;
+      result.sitemap = { lastmod, priority, changefreq };
+    }
+    const rule = renderOptionsMap.get(result.url)?.rule;
+    if (rule) {
+      result.pathRule = rule;
+    }
+    const discoveryDepth = crawler?.depthOf(result.url);
+    if (discoveryDepth !== undefined) {
+      result.discoveryDepth = discoveryDepth;
+    }
+    pipelineResults.push(result);
+    onResult?.(result);
+  };
   // Cap concurrency to the number of URLs so we don't launch idle browsers.
-  concurrency = Math.min(concurrency, urlsToRender.length || 1);
+  // A crawl grows the queue as it goes, so it keeps every stream.
+  if (!crawler) {
+    concurrency = Math.min(concurrency, renderQueue.size || 1);
+  }
   logger.info(
-    `Running pipeline with ${concurrency} parallel streams over ${urlsToRender.length} URLs`,
+    `Running pipeline with ${concurrency} parallel streams over ${renderQueue.size} URLs`,
   );
   if (config.skipCacheSync) {
     logger.info(`${INDENT}↳ SKIPPING CACHING: SKIP_CACHE_SYNC is true`);
   }
+  if (crawler && config.crawl) {
+    logger.info(
+      `${INDENT}↳ CRAWL DISCOVERY: following same-host links up to ${config.crawl.maxDepth} deep, at most ${config.crawl.maxPages} new URLs`,
+    );
+  }
+  if (config.incremental) {
+    logger.info(
+      store
+        ? `${INDENT}↳ INCREMENTAL: skipping pages whose snapshot is still fresh`
+        : `${INDENT}↳ INCREMENTAL ignored: there are no stored snapshots to compare against while SKIP_CACHE_SYNC is true`,
+    );
+  }
 
   // One asset cache for the whole job (all streams render the same site):
   // each unique bundle/stylesheet/font is fetched from the customer's origin
@@ -766,9 +968,6 @@ async function runPipelineStreams({
     }
   }
 
-  // Recycle each stream's browser periodically so long runs don't accumulate
-  // Chromium memory bloat.
-  const REFRESH_EVERY_RENDERS = 20;
   // Stagger stream start-up so the CPU-heavy boot phase of concurrent renders
   // (bundle parse/eval) doesn't land on the container all at once.
   const STREAM_START_STAGGER_MS = 2_000;
@@ -781,67 +980,194 @@ async function runPipelineStreams({
   });
   await pool.init();
 
-  // Each stream pulls the next URL as soon as it finishes its current one —
-  // no batch barrier, so one slow render never idles the other streams and
-  // their next renders never start in lockstep.
-  let nextUrlIndex = 0;
-
-  const failedResult = (url: string): PipelineResult => ({
+  const failedResult = (
+    url: string,
+    profile: RenderProfile,
+    failure: PrerenderFailureDetail = { reason: "unknown" },
+  ): PipelineResult => ({
     url,
+    profile: renderVariant(profile),
     isRendered: false,
     isCachedToR2: false,
-    failure: { reason: "unknown" },
+    failure,
   });
 
+  // Crawl discovery: streams that find the queue empty wait while another
+  // stream's page may still add links, and wake when any page finishes.
+  let busyStreams = 0;
+  let waitingStreams: (() => void)[] = [];
+  const wakeWaitingStreams = () => {
+    const waiting = waitingStreams;
+    waitingStreams = [];
+    waiting.forEach((resolve) => resolve());
+  };
+
+  // Crawl discovery: queue the new links on a page. Pages that weren't
+  // rendered (skipped as fresh, or resumed from an earlier attempt) are
+  // crawled from their stored snapshot, once per URL.
+  const crawledUrls = new Set<string>();
+  const crawlPage = (url: string, html: string, finalUrl: string) => {
+    if (!crawler) return;
+    crawledUrls.add(url);
+    for (const link of crawler.discover(url, html, finalUrl)) {
+      renderOptionsMap.set(link, pathRuleSet.resolve(link, undefined));
+      renderQueue.enqueue(link);
+    }
+  };
+  const crawlStoredSnapshot = async (url: string, objectKey: string) => {
+    if (!crawler || !store || crawledUrls.has(url)) return;
+    try {
+      const stored = await store.get(objectKey);
+      if (stored) {
+        // The stored HTML doesn't record a redirect; resolve against the URL
+        crawlPage(url, stored.body, url);
+      }
+    } catch (e) {
+      logger.warn(
+        `[Crawl] Failed to read the stored snapshot of ${extractPathFromUrl(url)}, not following its links`,
+        e,
+      );
+    }
+  };
+  if (crawler) {
+    const stored = resumedResults.filter(
+      (result): result is PipelineResult & { objectKey: string } =>
+        !!result.objectKey,
+    );
+    for (let i = 0; i < stored.length; i += STORED_CRAWL_CONCURRENCY) {
+      await Promise.all(
+        stored
+          .slice(i, i + STORED_CRAWL_CONCURRENCY)
+          .map((result) => crawlStoredSnapshot(result.url, result.objectKey)),
+      );
+    }
+  }
+
+  // Each stream pulls the next URL as soon as it finishes its current one —
+  // no batch barrier, so one slow render never idles the other streams and
+  // their next renders never start in lockstep. A URL is rendered once per
+  // render profile, back to back on the same stream.
   const runStream = async (slot: number): Promise<void> => {
     if (slot > 0) {
       await sleep(slot * STREAM_START_STAGGER_MS);
     }
     let rendersOnBrowser = 0;
-    while (nextUrlIndex < urlsToRender.length) {
-      const urlIndex = nextUrlIndex++;
-      const url = urlsToRender[urlIndex];
-      if (url === undefined) {
+    while (!deadline?.isDraining()) {
+      const queued = renderQueue.next();
+      if (!queued) {
+        // A page still rendering on another stream may yet queue more links.
+        if (crawler && busyStreams > 0) {
+          await new Promise<void>((resolve) => waitingStreams.push(resolve));
+          continue;
+        }
         break;
       }
-      const cacheTtl = cacheTtlMap.get(url) ?? DEFAULT_CACHE_TTL;
+      const { url, position } = queued;
+      const renderOptions = renderOptionsMap.get(url);
+      const cacheTtl = renderOptions?.cacheTtl ?? DEFAULT_CACHE_TTL;
+      busyStreams++;
 
-      if (rendersOnBrowser >= REFRESH_EVERY_RENDERS) {
-        await pool.recycle(slot);
-        rendersOnBrowser = 0;
-        logger.info(
-          `[Browser] Stream ${slot} browser recycled after ${REFRESH_EVERY_RENDERS} renders`,
-        );
-      }
-
-      const browser = await pool.ensureHealthy(slot);
-      if (!browser) {
-        pipelineResults.push(failedResult(url));
-        continue;
-      }
       try {
-        pipelineResults.push(
-          await runPipeline({
-            pipelineNumber: urlIndex + 1,
-            urlToRender: url,
-            cacheTtl,
-            config,
-            browser,
-            assetCache,
-            requestStats,
-            snapshotDir,
-          }),
-        );
-      } catch (e) {
-        logger.error(
-          `[Stream ${slot}] Pipeline threw for ${extractPathFromUrl(url)}`,
-          e,
-        );
-        // If the browser died mid-render, drop it so the next render relaunches.
-        await pool.dropIfDisconnected(slot);
-        pipelineResults.push(failedResult(url));
+        for (const profile of selectRenderProfiles(
+          config.renderProfiles,
+          renderOptions?.profiles,
+        )) {
+          if (config.incremental && store) {
+            const fresh = await findFreshSnapshot({
+              store,
+              url,
+              variant: renderVariant(profile),
+              lastmod: sitemapEntryMap.get(url)?.lastmod,
+              fallbackTtl: cacheTtl,
+            }).catch((e) => {
+              logger.warn(
+                `[Incremental] Failed to check the stored snapshot of ${extractPathFromUrl(url)}, rendering it`,
+                e,
+              );
+              return null;
+            });
+            if (fresh) {
+              logger.info(
+                `[${position}] Skipping ${url} (${profile.name}): snapshot from ${new Date(fresh.createdAt).toISOString()} is still fresh`,
+              );
+              const freshResult: PipelineResult = {
+                url,
+                profile: renderVariant(profile),
+                isRendered: false,
+                isCachedToR2: false,
+                isSkippedFresh: true,
+                objectKey: fresh.objectKey,
+                digest: fresh.digest,
+                cacheTtl: fresh.cacheTtl ?? cacheTtl,
+              };
+              const storedAnalysis = await readStoredSeoAnalysis({
+                store,
+                objectKey: fresh.objectKey,
+                digest: fresh.digest,
+              }).catch((e) => {
+                logger.warn(
+                  `[Incremental] Failed to read the stored analysis of ${extractPathFromUrl(url)}, leaving it out of the SEO report`,
+                  e,
+                );
+                return null;
+              });
+              if (storedAnalysis) {
+                applySeoReportFields(freshResult, storedAnalysis);
+                freshResult.hasStoredAnalysis = true;
+              }
+              recordResult(freshResult);
+              await crawlStoredSnapshot(url, fresh.objectKey);
+              continue;
+            }
+          }
+
+          if (rendersOnBrowser >= RECYCLE_AFTER_RENDERS) {
+            await pool.recycle(slot);
+            rendersOnBrowser = 0;
+            logger.info(
+              `[Browser] Stream ${slot} browser recycled after ${RECYCLE_AFTER_RENDERS} renders`,
+            );
+          }
+
+          const browser = await pool.ensureHealthy(slot);
+          if (!browser) {
+            recordResult(failedResult(url, profile));
+            continue;
+          }
+          try {
+            const { result, snapshot } = await runPipeline({
+              pipelineNumber: position,
+              urlToRender: url,
+              profile,
+              cacheTtl,
+              waitSelectors: renderOptions?.waitSelectors,
+              robotsTxt,
+              config,
+              browser,
+              assetCache,
+              requestStats,
+              snapshotDir,
+              store,
+            });
+            recordResult(result);
+            if (snapshot) {
+              crawlPage(url, snapshot.html, snapshot.finalUrl);
+            }
+          } catch (e) {
+            logger.error(
+              `[Stream ${slot}] Pipeline threw for ${extractPathFromUrl(url)} (${profile.name} profile)`,
+              e,
+            );
+            // If the browser died mid-render, drop it so the next render relaunches.
+            await pool.dropIfDisconnected(slot);
+            recordResult(failedResult(url, profile));
+          }
+          rendersOnBrowser++;
+        }
+      } finally {
+        busyStreams--;
+        wakeWaitingStreams();
       }
-      rendersOnBrowser++;
     }
   };
 
@@ -849,6 +1175,22 @@ async function runPipelineStreams({
     await Promise.all(
       Array.from({ length: concurrency }, (_, slot) => runStream(slot)),
     );
+    const unrendered = renderQueue.drain();
+    if (unrendered.length > 0) {
+      logger.warn(
+        `[Deadline] Job time budget nearly spent; ${unrendered.length} URLs left unrendered`,
+      );
+      for (const url of unrendered) {
+        for (const profile of selectRenderProfiles(
+          config.renderProfiles,
+          renderOptionsMap.get(url)?.profiles,
+        )) {
+          recordResult(
+            failedResult(url, profile, { reason: "deadline_exceeded" }),
+          );
+        }
+      }
+    }
   } finally {
     await pool.closeAll();
     logger.info(`[Browser] All stream browsers closed`);
@@ -858,24 +1200,86 @@ async function runPipelineStreams({
       assetCache,
       snapshotDir,
       concurrency,
+      sitemapSources,
+      excludedUrls: [...excludedUrls, ...(crawler?.excludedUrls ?? [])],
     });
   }
 
   const resultMap = new Map<string, PipelineResult>();
   pipelineResults.forEach((result) => {
-    resultMap.set(result.url, result);
+    resultMap.set(pipelineResultKey(result), result);
   });
 
   return { resultMap };
 }
 
+// Every task persists its completed shard manifest (the final form of its
+// progress checkpoint). Sharded runs (Cloud Run taskCount > 1) render only
+// this task's share of the URLs; the task that completes the set merges every
+// shard into the one batch report. Returns null when another task sends that
+// report.
+async function collectBatchResults({
+  store,
+  shard,
+  manifest,
+  resultMap,
+}: {
+  store: SnapshotStore | null;
+  shard: TaskShard;
+  manifest: Omit<ShardManifest, "results">;
+  resultMap: Map<string, PipelineResult>;
+}): Promise<{
+  resultMap: Map<string, PipelineResult>;
+  startedAt: number;
+} | null> {
+  const ownResults = { resultMap, startedAt: manifest.startedAt };
+  if (!store) {
+    if (shard.count > 1) {
+      logger.warn(
+        `[Shard] SKIP_CACHE_SYNC is true, so shards can't be merged through the snapshot store; reporting shard ${shard.index + 1}/${shard.count} on its own`,
+      );
+    }
+    return ownResults;
+  }
+
+  let manifests: ShardManifest[] | null;
+  try {
+    manifests = await finalizeShard({
+      store,
+      manifest: { ...manifest, results: [...resultMap.values()] },
+    });
+  } catch (e) {
+    logger.error(
+      `[Shard] Failed to write shard ${shard.index + 1}/${shard.count} manifest; reporting it on its own`,
+      e,
+    );
+    return ownResults;
+  }
+  if (!manifests) {
+    return null;
+  }
+
+  const mergedResultMap = new Map<string, PipelineResult>();
+  for (const { results } of manifests) {
+    for (const result of results) {
+      mergedResultMap.set(pipelineResultKey(result), result);
+    }
+  }
+  return {
+    resultMap: mergedResultMap,
+    startedAt: Math.min(...manifests.map((m) => m.startedAt)),
+  };
+}
+
 async function main(): Promise<void> {
   const config = getConfig();
   const startedAt = Date.now();
+  const shard = resolveTaskShard();
 
   // STEP 1 : Prepare target URLs
-  // Build URL-to-TTL map from pathsList
-  const cacheTtlMap = new Map<string, number>();
+  // Map each PATHS_LIST URL to its entry (TTL, profiles, wait selectors)
+  const pathEntryMap = new Map<string, PathEntry>();
+  const pathPriorityMap = new Map<string, number | undefined>();
   const urlToOriginalPathMap = new Map<string, string>();
   const urlsFromPaths = config.pathsList.map((entry) => {
     const url = stripTrackingParams(
@@ -887,31 +1291,201 @@ async function main(): Promise<void> {
     } catch {
       encodedUrl = url;
     }
-    cacheTtlMap.set(encodedUrl, entry.ttl);
+    pathEntryMap.set(encodedUrl, entry);
+    pathPriorityMap.set(encodedUrl, entry.priority);
     urlToOriginalPathMap.set(encodedUrl, entry.path);
     return encodedUrl;
   });
 
   let urlsToRender: string[];
   let sitemapUrl: string;
+  let sitemapEntryMap = new Map<string, SitemapEntry>();
+  let sitemapSources: SitemapSource[] = [];
+  let excludedUrls: ExcludedUrl[] = [];
+  // Fetched even without sitemap parsing: every page's analysis records its
+  // robots.txt verdict.
+  const robotsTxt = await fetchRobotsTxt({
+    baseUrl: config.baseUrl,
+    userAgent: config.userAgent,
+  });
   if (config.skipSitemapParsing) {
     logger.info(`SKIPPING SITEMAP PARSING: SKIP_SITEMAP_PARSING is true`);
     urlsToRender = urlsFromPaths;
     sitemapUrl = "skipped";
   } else {
-    const result = await prepareTargetUrls({ config, urlsFromPaths });
+    const result = await prepareTargetUrls({
+      config,
+      urlsFromPaths,
+      robotsTxt,
+    });
     urlsToRender = result.urlsToRender;
     sitemapUrl = result.sitemapUrl;
+    sitemapEntryMap = result.sitemapEntryMap;
+    sitemapSources = result.sitemapSources;
+    excludedUrls = result.excludedUrls;
+  }
+
+  if (shard.count > 1) {
+    const shardUrls = await selectShardUrls(urlsToRender, shard);
+    logger.info(
+      `[Shard] Task ${shard.index + 1}/${shard.count} renders ${shardUrls.length} of ${urlsToRender.length} URLs`,
+    );
+    urlsToRender = shardUrls;
+  }
+
+  // Resolve each URL's TTL and render options: its PATHS_LIST entry's own
+  // fields first, then the first matching PATH_RULES rule.
+  const pathRuleSet = PathRuleSet.register({ rules: config.pathRules });
+  const renderOptionsMap = new Map(
+    urlsToRender.map((url) => [
+      url,
+      pathRuleSet.resolve(url, pathEntryMap.get(url)),
+    ]),
+  );
+  if (pathRuleSet.size > 0) {
+    const ruleCounts = countBy(
+      [...renderOptionsMap.values()],
+      (options) => options.rule ?? "(no rule)",
+    );
+    logger.info(
+      `[PathRules] ${Object.entries(ruleCounts)
+        .map(([rule, count]) => `${rule}: ${count}`)
+        .join(", ")}`,
+    );
+  }
+
+  // Every URL known so far seeds the crawl at depth 0. Each task would crawl
+  // the whole site on its own, so sharded runs don't crawl.
+  let crawler: LinkCrawler | null = null;
+  if (config.crawl && shard.count > 1) {
+    logger.warn(
+      `[Crawl] CRAWL_DISCOVERY is ignored in sharded runs (${shard.count} tasks)`,
+    );
+  } else if (config.crawl) {
+    crawler = LinkCrawler.register({
+      seedUrls: urlsToRender,
+      maxDepth: config.crawl.maxDepth,
+      maxPages: config.crawl.maxPages,
+      exclude: buildDiscoveryFilter(config, robotsTxt) ?? (() => null),
+    });
+  }
+
+  // Progress is checkpointed to the snapshot store, so there's nothing to
+  // resume from (or merge through) when cache sync is off.
+  const store = config.skipCacheSync
+    ? null
+    : createSnapshotStore(config.storage);
+  if (store) {
+    logger.info(`Snapshot store: ${store.location}`);
+  }
+  const shardManifest: Omit<ShardManifest, "results" | "completedAt"> = {
+    batchId: config.batchId,
+    executionId: process.env.CLOUD_RUN_EXECUTION ?? "local",
+    shard,
+    sitemapUrl,
+    startedAt,
+  };
+
+  // Resume: URLs a previous attempt at this batch already synced (a killed
+  // task's retry, or a re-execution) are carried over instead of re-rendered.
+  // A URL counts as done only once every render profile has synced it.
+  let resumedResults: PipelineResult[] = [];
+  if (store) {
+    try {
+      const progress = await loadShardProgress({
+        store,
+        batchId: config.batchId,
+        shard,
+      });
+      // Crawl-discovered URLs are in no sitemap, and their linking pages may
+      // not be crawled again, so they come back from the manifest.
+      const restoredUrls = crawler?.restore(progress.discoveredUrls) ?? [];
+      if (restoredUrls.length > 0) {
+        for (const url of restoredUrls) {
+          renderOptionsMap.set(url, pathRuleSet.resolve(url, undefined));
+        }
+        urlsToRender = [...urlsToRender, ...restoredUrls];
+        logger.info(
+          `[Resume] ${restoredUrls.length} URLs discovered by a previous attempt's crawl are back in the run`,
+        );
+      }
+      resumedResults = selectResumedResults({
+        synced: progress.syncedResults,
+        urls: urlsToRender,
+        // PATHS_LIST entries and PATH_RULES may narrow a URL's profiles.
+        profileNamesFor: (url) =>
+          selectRenderProfiles(
+            config.renderProfiles,
+            renderOptionsMap.get(url)?.profiles,
+          ).map((profile) => profile.name),
+      });
+    } catch (e) {
+      logger.warn(`[Resume] Failed to load the progress manifest`, e);
+    }
+    if (resumedResults.length > 0) {
+      const resumedUrlSet = new Set(resumedResults.map((r) => r.url));
+      urlsToRender = urlsToRender.filter((url) => !resumedUrlSet.has(url));
+      logger.info(
+        `[Resume] ${resumedUrlSet.size} URLs already synced by a previous attempt; ${urlsToRender.length} left to render`,
+      );
+    }
+  }
+  const checkpointer = store
+    ? ShardCheckpointer.register({
+        store,
+        manifest: shardManifest,
+        seedResults: resumedResults,
+        discoveredUrls: () => crawler?.discoveredUrls ?? [],
+      })
+    : null;
+
+  // Most important pages first, so a run cut short misses the least
+  // important ones.
+  const renderQueue = RenderQueue.register({
+    urls: urlsToRender,
+    pathPriorityMap,
+    sitemapEntryMap,
+  });
+
+  const deadline = config.jobDeadlineSeconds
+    ? JobDeadline.register({
+        budgetSeconds: config.jobDeadlineSeconds,
+        startedAt,
+      })
+    : null;
+  if (deadline) {
+    logger.info(
+      `Job deadline: ${new Date(deadline.deadlineAt).toISOString()} (JOB_DEADLINE_SECONDS=${config.jobDeadlineSeconds})`,
+    );
   }
 
   // STEP 2+3 : Run the pipeline streams (one browser per stream).
-  const { resultMap: urlResultMap } = await runPipelineStreams({
+  const { resultMap: renderedResultMap } = await runPipelineStreams({
     concurrency: config.concurrency,
-    urlsToRender,
-    cacheTtlMap,
+    renderQueue,
+    renderOptionsMap,
     config,
     launchBrowserFn: launchBrowser,
+    store,
+    sitemapEntryMap,
+    sitemapSources,
+    excludedUrls,
+    robotsTxt: robotsTxt
+      ? { robots: robotsTxt, userAgent: config.robotsUserAgent }
+      : null,
+    crawler,
+    resumedResults,
+    pathRuleSet,
+    deadline,
+    onResult: (result) => checkpointer?.record(result),
   });
+  await checkpointer?.stop();
+  if (crawler) {
+    logger.info(
+      `[Crawl] Discovered ${crawler.discoveredCount} URLs; ${crawler.excludedUrls.length} links excluded by filters`,
+    );
+    excludedUrls.push(...crawler.excludedUrls);
+  }
 
   if (config.skipCacheSync) {
     logger.info(`SKIPPING CACHE SYNC: SKIP_CACHE_SYNC is true`);
@@ -919,10 +1493,30 @@ async function main(): Promise<void> {
 
   const completedAt = Date.now();
 
+  const shardResultMap = new Map<string, PipelineResult>(
+    resumedResults.map((result) => [pipelineResultKey(result), result]),
+  );
+  for (const [key, result] of renderedResultMap) {
+    shardResultMap.set(key, result);
+  }
+  const batchResults = await collectBatchResults({
+    store,
+    shard,
+    manifest: {
+      ...shardManifest,
+      completedAt,
+      discoveredUrls: crawler?.discoveredUrls ?? [],
+    },
+    resultMap: shardResultMap,
+  });
+  if (!batchResults) {
+    return;
+  }
+
   // STEP 6 : Report result
   await reportResult({
     config,
-    urlResultMap,
+    resultMap: batchResults.resultMap,
     urlToOriginalPathMap,
     domain: config.domain,
     canonicalDomain: config.canonicalDomain,
@@ -931,9 +1525,12 @@ async function main(): Promise<void> {
     sitemapFilter: config.skipSitemapParsing
       ? "skipped"
       : config.sitemapUpdatedWithin,
-    startedAt,
+    sitemapSources,
+    excludedUrls,
+    startedAt: batchResults.startedAt,
     completedAt,
     userId: config.userId,
+    store,
   });
 }
 
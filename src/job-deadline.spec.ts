@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { JobDeadline } from "./job-deadline";
+
+const STARTED_AT = 1_700_000_000_000;
+
+describe("JobDeadline", () => {
+  it("keeps five minutes back from a long budget", () => {
+    const deadline = JobDeadline.register({
+      budgetSeconds: 7200,
+      startedAt: STARTED_AT,
+    });
+    expect(deadline.deadlineAt).toBe(STARTED_AT + 7_200_000);
+    expect(deadline.isDraining(STARTED_AT + 6_899_999)).toBe(false);
+    expect(deadline.isDraining(STARTED_AT + 6_900_000)).toBe(true);
+  });
+
+  it("keeps a quarter back from a short budget", () => {
+    const deadline = JobDeadline.register({
+      budgetSeconds: 120,
+      startedAt: STARTED_AT,
+    });
+    expect(deadline.isDraining(STARTED_AT + 89_999)).toBe(false);
+    expect(deadline.isDraining(STARTED_AT + 90_000)).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+// Time kept back at the end of the budget for in-flight renders (up to a 65s
+// render plus its 4×-stability retry), their uploads, the shard merge and the
+// webhook. Capped at a quarter of the budget so short budgets still render.
+const DRAIN_MARGIN_MS = 5 * 60_000;
+const MAX_DRAIN_FRACTION = 0.25;
+
+/**
+ * The task's wall-clock budget. Cloud Run kills a task at `timeoutSeconds`
+ * without warning, and a killed task never sends its report — so streams
+ * check `isDraining()` before taking each URL and stop early enough to finish
+ * what they already started.
+ */
+export class JobDeadline {
+  private readonly _deadlineAt: number;
+  private readonly _drainAt: number;
+
+  static register({
+    budgetSeconds,
+    startedAt,
+  }: {
+    budgetSeconds: number;
+    startedAt: number;
+  }): JobDeadline {
+    return new JobDeadline(budgetSeconds * 1000, startedAt);
+  }
+
+  private constructor(budgetMs: number, startedAt: number) {
+    this._deadlineAt = startedAt + budgetMs;
+    this._drainAt =
+      this._deadlineAt -
+      Math.min(DRAIN_MARGIN_MS, budgetMs * MAX_DRAIN_FRACTION);
+  }
+
+  get deadlineAt(): number {
+    return this._deadlineAt;
+  }
+
+  /** True once no new render should start. */
+  isDraining(now: number = Date.now()): boolean {
+    return now >= this._drainAt;
+  }
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import { LinkCrawler, extractLinks } from "./link-crawler";
+
+const PAGE = "https://example.com/blog/";
+
+function page(links: string): string {
+  return `<html><head><title>t</title></head><body>${links}</body></html>`;
+}
+
+describe("extractLinks", () => {
+  it("keeps same-host page links, resolved and normalized", () => {
+    expect(
+      extractLinks(
+        page(`
+          <a href="/about">About</a>
+          <a href="post-1#comments">Post</a>
+          <a href="https://example.com/pricing?utm_source=nav">Pricing</a>
+          <a href="http://example.com/contact">Contact</a>
+          <a href="/about">About again</a>
+        `),
+        PAGE,
+      ),
+    ).toEqual([
+      "https://example.com/about",
+      "https://example.com/blog/post-1",
+      "https://example.com/pricing",
+      "https://example.com/contact",
+    ]);
+  });
+
+  it("skips other hosts, non-page files, nofollow and non-http links", () => {
+    expect(
+      extractLinks(
+        page(`
+          <a href="https://other.com/">Other</a>
+          <a href="https://cdn.example.com/x">CDN</a>
+          <a href="/files/report.pdf">PDF</a>
+          <a href="/login" rel="nofollow noopener">Login</a>
+          <a href="/export" download>Export</a>
+          <a href="mailto:hi@example.com">Mail</a>
+          <a href="javascript:void(0)">JS</a>
+          <a href="/kept">Kept</a>
+        `),
+        PAGE,
+      ),
+    ).toEqual(["https://example.com/kept"]);
+  });
+
+  it("resolves against <base href> on the page's own host", () => {
+    const html = `<html><head><base href="https://canonical.example.org/app/"></head><body><a href="settings">S</a></body></html>`;
+    expect(extractLinks(html, PAGE)).toEqual([
+      "https://example.com/app/settings",
+    ]);
+  });
+});
+
+describe("LinkCrawler", () => {
+  it("records depths and stops at maxDepth", () => {
+    const crawler = LinkCrawler.register({
+      seedUrls: ["https://example.com"],
+      maxDepth: 2,
+      maxPages: 100,
+      exclude: () => null,
+    });
+    expect(
+      crawler.discover("https://example.com", page(`<a href="/a">a</a>`)),
+    ).toEqual(["https://example.com/a"]);
+    expect(
+      crawler.discover(
+        "https://example.com/a",
+        page(`<a href="/a/b">b</a><a href="/">home</a>`),
+      ),
+    ).toEqual(["https://example.com/a/b"]);
+    // /a/b is at depth 2; its links would be depth 3
+    expect(
+      crawler.discover("https://example.com/a/b", page(`<a href="/c">c</a>`)),
+    ).toEqual([]);
+    expect(crawler.depthOf("https://example.com")).toBe(0);
+    expect(crawler.depthOf("https://example.com/a")).toBe(1);
+    expect(crawler.depthOf("https://example.com/a/b")).toBe(2);
+    expect(crawler.discoveredCount).toBe(2);
+  });
+
+  it("resolves links against the final URL, counting depth from the queued one", () => {
+    const crawler = LinkCrawler.register({
+      seedUrls: ["https://example.com/old"],
+      maxDepth: 1,
+      maxPages: 100,
+      exclude: () => null,
+    });
+    expect(
+      crawler.discover(
+        "https://example.com/old",
+        page(`<a href="next">next</a>`),
+        "https://example.com/new/",
+      ),
+    ).toEqual(["https://example.com/new/next"]);
+    expect(crawler.depthOf("https://example.com/new/next")).toBe(1);
+  });
+
+  it("stops adding URLs at maxPages", () => {
+    const crawler = LinkCrawler.register({
+      seedUrls: ["https://example.com"],
+      maxDepth: 5,
+      maxPages: 2,
+      exclude: () => null,
+    });
+    expect(
+      crawler.discover(
+        "https://example.com",
+        page(`<a href="/1">1</a><a href="/2">2</a><a href="/3">3</a>`),
+      ),
+    ).toEqual(["https://example.com/1", "https://example.com/2"]);
+    expect(
+      crawler.discover("https://example.com/1", page(`<a href="/4">4</a>`)),
+    ).toEqual([]);
+  });
+
+  it("lists links the filter rejects once", () => {
+    const crawler = LinkCrawler.register({
+      seedUrls: ["https://example.com"],
+      maxDepth: 3,
+      maxPages: 10,
+      exclude: (url) =>
+        url.includes("/admin")
+          ? { reason: "excluded", rule: "/admin/**" }
+          : null,
+    });
+    const html = page(`<a href="/admin">admin</a><a href="/ok">ok</a>`);
+    expect(crawler.discover("https://example.com", html)).toEqual([
+      "https://example.com/ok",
+    ]);
+    crawler.discover("https://example.com/ok", html);
+    expect(crawler.excludedUrls).toEqual([
+      {
+        url: "https://example.com/admin",
+        reason: "excluded",
+        rule: "/admin/**",
+      },
+    ]);
+  });
+
+  it("lists what it discovered, and takes it back on a restart", () => {
+    const first = LinkCrawler.register({
+      seedUrls: ["https://example.com"],
+      maxDepth: 2,
+      maxPages: 100,
+      exclude: () => null,
+    });
+    first.discover("https://example.com", page(`<a href="/a">a</a>`));
+    first.discover("https://example.com/a", page(`<a href="/b">b</a>`));
+    expect(first.discoveredUrls).toEqual([
+      { url: "https://example.com/a", depth: 1 },
+      { url: "https://example.com/b", depth: 2 },
+    ]);
+
+    // The restart's seeds now list /a, and /private is filtered out
+    const restarted = LinkCrawler.register({
+      seedUrls: ["https://example.com", "https://example.com/a"],
+      maxDepth: 2,
+      maxPages: 2,
+      exclude: (url) =>
+        url.includes("/private")
+          ? { reason: "excluded", rule: "/private" }
+          : null,
+    });
+    expect(
+      restarted.restore([
+        ...first.discoveredUrls,
+        { url: "https://example.com/private", depth: 1 },
+        { url: "https://example.com/deep", depth: 3 },
+        { url: "https://example.com/c", depth: 1 },
+        { url: "https://example.com/d", depth: 1 },
+      ]),
+    ).toEqual(["https://example.com/b", "https://example.com/c"]);
+    expect(restarted.depthOf("https://example.com/b")).toBe(2);
+    expect(restarted.discoveredCount).toBe(2);
+    // maxPages is spent on restored URLs too
+    expect(
+      restarted.discover("https://example.com", page(`<a href="/e">e</a>`)),
+    ).toEqual([]);
+  });
+});
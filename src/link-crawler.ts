@@ -0,0 +1,170 @@
+import normalizeUrl from "normalize-url";
+import { parse } from "node-html-parser";
+import { stripTrackingParams } from "./cache-manager/kv-key-utils";
+import type { ExcludedUrl } from "./url-filter";
+
+// Links to these are files, not pages worth prerendering.
+const NON_PAGE_EXTENSION =
+  /\.(?:pdf|zip|gz|tar|rar|7z|dmg|exe|jpe?g|png|gif|webp|avif|svg|ico|mp3|mp4|mov|webm|avi|csv|xlsx?|docx?|pptx?|xml|json|txt|css|js)$/i;
+
+/**
+ * Same-host page links in `html`, resolved against `pageUrl` (or the page's
+ * `<base href>`) and normalized like sitemap URLs, so a crawled URL and its
+ * sitemap twin share one render. Fragments are dropped; `rel="nofollow"`,
+ * `download` and non-page file links are skipped.
+ */
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const root = parse(html);
+  let page: URL;
+  let baseUrl: URL;
+  try {
+    page = new URL(pageUrl);
+    baseUrl = new URL(
+      root.querySelector("base[href]")?.getAttribute("href") ?? pageUrl,
+      page,
+    );
+  } catch {
+    return [];
+  }
+  // sanitizeHtml points <base href> at the canonical domain; only its path
+  // matters here, since the crawl stays on the page's own host.
+  baseUrl.protocol = page.protocol;
+  baseUrl.host = page.host;
+  const host = page.hostname;
+  const links = new Set<string>();
+  for (const anchor of root.querySelectorAll("a[href]")) {
+    const rel = anchor.getAttribute("rel")?.toLowerCase() ?? "";
+    if (
+      rel.split(/\s+/).includes("nofollow") ||
+      anchor.hasAttribute("download")
+    ) {
+      continue;
+    }
+    let link: URL;
+    try {
+      link = new URL(anchor.getAttribute("href") ?? "", baseUrl);
+    } catch {
+      continue;
+    }
+    if (
+      (link.protocol !== "https:" && link.protocol !== "http:") ||
+      link.hostname !== host ||
+      NON_PAGE_EXTENSION.test(link.pathname)
+    ) {
+      continue;
+    }
+    // Same page either way; the run renders over the page's own scheme.
+    link.protocol = page.protocol;
+    link.hash = "";
+    links.add(stripTrackingParams(normalizeUrl(link.toString())));
+  }
+  return [...links];
+}
+
+/** A URL crawl discovery added to the run, at the link depth it was found. */
+export type DiscoveredUrl = {
+  url: string;
+  depth: number;
+};
+
+/**
+ * Crawl discovery: tracks the depth at which each URL was found (seeds are
+ * depth 0) and decides which links from a rendered page join the run. A link
+ * is taken while its depth is within `maxDepth` and fewer than `maxPages`
+ * URLs have been discovered. `exclude` applies the same filters as sitemap
+ * URLs; links it rejects are listed in `excludedUrls`.
+ */
+export class LinkCrawler {
+  private readonly _depths = new Map<string, number>();
+  private readonly _excluded = new Map<string, ExcludedUrl>();
+  private _discoveredCount = 0;
+
+  static register({
+    seedUrls,
+    maxDepth,
+    maxPages,
+    exclude,
+  }: {
+    seedUrls: string[];
+    maxDepth: number;
+    maxPages: number;
+    exclude: (url: string) => Omit<ExcludedUrl, "url"> | null;
+  }): LinkCrawler {
+    return new LinkCrawler(seedUrls, maxDepth, maxPages, exclude);
+  }
+
+  private constructor(
+    seedUrls: string[],
+    private readonly _maxDepth: number,
+    private readonly _maxPages: number,
+    private readonly _exclude: (url: string) => Omit<ExcludedUrl, "url"> | null,
+  ) {
+    for (const url of seedUrls) {
+      this._depths.set(url, 0);
+    }
+  }
+
+  /** Number of URLs the crawl has added to the run. */
+  get discoveredCount(): number {
+    return this._discoveredCount;
+  }
+
+  /** Links the crawl turned away, by the filter that rejected them. */
+  get excludedUrls(): ExcludedUrl[] {
+    return [...this._excluded.values()];
+  }
+
+  /** The URLs the crawl added to the run (seeds excluded), with depths. */
+  get discoveredUrls(): DiscoveredUrl[] {
+    return [...this._depths]
+      .filter(([, depth]) => depth > 0)
+      .map(([url, depth]) => ({ url, depth }));
+  }
+
+  depthOf(url: string): number | undefined {
+    return this._depths.get(url);
+  }
+
+  /**
+   * Take back URLs an earlier attempt at the batch discovered, at their
+   * recorded depths, under the same limits and filters as new links. Returns
+   * the URLs to queue: those that aren't seeds of this run already.
+   */
+  restore(urls: DiscoveredUrl[]): string[] {
+    const restored: string[] = [];
+    for (const { url, depth } of urls) {
+      if (this._discoveredCount >= this._maxPages) break;
+      if (depth > this._maxDepth || this._depths.has(url)) continue;
+      if (this._exclude(url)) continue;
+      this._depths.set(url, depth);
+      this._discoveredCount++;
+      restored.push(url);
+    }
+    return restored;
+  }
+
+  /**
+   * Take the new links on a rendered page. Returns the URLs to queue, each
+   * recorded one level deeper than the page. Links resolve against
+   * `finalUrl`, where the page ended up after redirects, while the depth
+   * counts from the queued `pageUrl`.
+   */
+  discover(pageUrl: string, html: string, finalUrl = pageUrl): string[] {
+    const depth = (this._depths.get(pageUrl) ?? 0) + 1;
+    if (depth > this._maxDepth) return [];
+    const discovered: string[] = [];
+    for (const url of extractLinks(html, finalUrl)) {
+      if (this._discoveredCount >= this._maxPages) break;
+      if (this._depths.has(url) || this._excluded.has(url)) continue;
+      const exclusion = this._exclude(url);
+      if (exclusion) {
+        this._excluded.set(url, { url, ...exclusion });
+        continue;
+      }
+      this._depths.set(url, depth);
+      this._discoveredCount++;
+      discovered.push(url);
+    }
+    return discovered;
+  }
+}
@@ -0,0 +1,356 @@
+import { describe, expect, it } from "vitest";
+import { ConfigValidationError } from "./config-file";
+import {
+  loadConfig,
+  loadRenderProfilesOnly,
+  loadServerConfig,
+  parseAllowedHosts,
+  parsePathRules,
+  parsePathsList,
+  parseUrlPatterns,
+} from "./load-config";
+
+const VALID_SOURCE = {
+  BATCH_ID: "batch-1",
+  USER_ID: "user-1",
+  REQUEST_SOURCE: "manual",
+  DOMAIN: "example.com",
+  ORIGIN_HOST: "origin.example.com",
+  BASE_URL: "https://example.com/",
+  PATHS_LIST: '[{"path":"/"}]',
+  STORAGE_BACKEND: "fs",
+  STORAGE_DIR: "/tmp/snapshots",
+};
+
+function issuesOf(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (e) {
+    if (e instanceof ConfigValidationError) {
+      return e.issues;
+    }
+    throw e;
+  }
+  return [];
+}
+
+describe("loadConfig", () => {
+  it("loads a minimal configuration with defaults", () => {
+    const config = loadConfig(VALID_SOURCE);
+    expect(config.baseUrl).toBe("https://example.com");
+    expect(config.canonicalDomain).toBe("example.com");
+    expect(config.pathsList).toEqual([
+      {
+        path: "/",
+        ttl: undefined,
+        priority: undefined,
+        profiles: undefined,
+        waitSelectors: undefined,
+      },
+    ]);
+    expect(config.pathRules).toEqual([]);
+    expect(config.urlFilter).toEqual({
+      include: [],
+      exclude: [],
+      allowedHosts: [],
+    });
+    expect(config.crawl).toBeNull();
+    expect(config.respectRobotsTxt).toBe(false);
+    expect(config.robotsUserAgent).toBe("Googlebot");
+    expect(config.concurrency).toBe(1);
+    expect(config.skipCacheSync).toBe(true);
+    expect(config.storage).toEqual({
+      backend: "fs",
+      rootDir: "/tmp/snapshots",
+    });
+  });
+
+  it("reports every problem at once", () => {
+    expect(
+      issuesOf(() =>
+        loadConfig({
+          ...VALID_SOURCE,
+          BATCH_ID: "",
+          BASE_URL: "http://example.com",
+          STORAGE_DIR: "",
+          SITEMAP_UPDATED_WITHIN: "2d",
+          JOB_DEADLINE_SECONDS: "-1",
+        }),
+      ),
+    ).toEqual([
+      "BATCH_ID is required",
+      "BASE_URL must start with https://",
+      "SITEMAP_UPDATED_WITHIN must be one of: 1d, 3d, 7d, 30d, all",
+      "STORAGE_DIR is required",
+      "JOB_DEADLINE_SECONDS must be a positive integer",
+    ]);
+  });
+
+  it("loads crawl discovery bounds", () => {
+    expect(
+      loadConfig({ ...VALID_SOURCE, CRAWL_DISCOVERY: "true" }).crawl,
+    ).toEqual({ maxDepth: 3, maxPages: 500 });
+    expect(
+      loadConfig({
+        ...VALID_SOURCE,
+        CRAWL_DISCOVERY: "true",
+        CRAWL_MAX_DEPTH: "1",
+        CRAWL_MAX_PAGES: "50",
+      }).crawl,
+    ).toEqual({ maxDepth: 1, maxPages: 50 });
+    expect(
+      issuesOf(() =>
+        loadConfig({
+          ...VALID_SOURCE,
+          CRAWL_DISCOVERY: "true",
+          CRAWL_MAX_DEPTH: "0",
+        }),
+      ),
+    ).toEqual(["CRAWL_MAX_DEPTH must be a positive integer"]);
+  });
+
+  it("loads regression guard thresholds as fractions", () => {
+    expect(loadConfig(VALID_SOURCE).regressionGuard).toBeNull();
+    expect(
+      loadConfig({ ...VALID_SOURCE, REGRESSION_GUARD: "true" }).regressionGuard,
+    ).toEqual({ maxWordCountDrop: 0.8, minStructuralSimilarity: 0.3 });
+    expect(
+      loadConfig({
+        ...VALID_SOURCE,
+        REGRESSION_GUARD: "true",
+        REGRESSION_MAX_WORD_DROP: "50",
+        REGRESSION_MIN_SIMILARITY: "0",
+      }).regressionGuard,
+    ).toEqual({ maxWordCountDrop: 0.5, minStructuralSimilarity: 0 });
+    expect(
+      issuesOf(() =>
+        loadConfig({
+          ...VALID_SOURCE,
+          REGRESSION_GUARD: "true",
+          REGRESSION_MAX_WORD_DROP: "0.8",
+        }),
+      ),
+    ).toEqual([
+      "REGRESSION_MAX_WORD_DROP must be an integer between 0 and 100",
+    ]);
+  });
+
+  it("checks per-path profiles against RENDER_PROFILES", () => {
+    expect(
+      issuesOf(() =>
+        loadConfig({
+          ...VALID_SOURCE,
+          RENDER_PROFILES: "desktop",
+          PATHS_LIST: '[{"path":"/","profiles":["mobile"]}]',
+        }),
+      ),
+    ).toEqual([
+      'PATHS_LIST[0].profiles: "mobile" is not one of RENDER_PROFILES (desktop)',
+    ]);
+  });
+});
+
+describe("parsePathsList", () => {
+  it("parses per-path profiles and wait selectors", () => {
+    expect(
+      parsePathsList(
+        JSON.stringify([
+          {
+            path: "/pricing",
+            ttl: 3600,
+            priority: 0.9,
+            profiles: ["mobile"],
+            waitSelectors: ["#plans"],
+          },
+        ]),
+        ["desktop", "mobile"],
+      ),
+    ).toEqual([
+      {
+        path: "/pricing",
+        ttl: 3600,
+        priority: 0.9,
+        profiles: ["mobile"],
+        waitSelectors: ["#plans"],
+      },
+    ]);
+  });
+
+  it("reports every bad entry", () => {
+    expect(
+      issuesOf(() =>
+        parsePathsList(
+          JSON.stringify([
+            { path: "about", ttl: 0 },
+            { path: "/", priority: 2, waitSelectors: [] },
+            { path: "/x", wait: "#a" },
+          ]),
+        ),
+      ),
+    ).toEqual([
+      "PATHS_LIST[0].path must be a string starting with '/'",
+      "PATHS_LIST[0].ttl must be a positive integer",
+      "PATHS_LIST[1].priority must be a number between 0 and 1",
+      "PATHS_LIST[1].waitSelectors must be a non-empty array of non-empty strings",
+      'PATHS_LIST[2]: unknown key "wait"',
+    ]);
+  });
+
+  it("rejects a non-array value", () => {
+    expect(issuesOf(() => parsePathsList('{"path":"/"}'))).toEqual([
+      "PATHS_LIST is required and must be a non-empty array",
+    ]);
+  });
+});
+
+describe("parsePathRules", () => {
+  it("parses ordered glob and regex rules", () => {
+    expect(
+      parsePathRules(
+        JSON.stringify([
+          { pattern: "/blog/**", ttl: 2592000 },
+          { regex: "^/docs/v\\d+/", profiles: ["desktop"] },
+        ]),
+        ["desktop", "mobile"],
+      ),
+    ).toEqual([
+      {
+        pattern: "/blog/**",
+        regex: undefined,
+        ttl: 2592000,
+        profiles: undefined,
+        waitSelectors: undefined,
+      },
+      {
+        pattern: undefined,
+        regex: "^/docs/v\\d+/",
+        ttl: undefined,
+        profiles: ["desktop"],
+        waitSelectors: undefined,
+      },
+    ]);
+  });
+
+  it("reports every bad rule", () => {
+    expect(
+      issuesOf(() =>
+        parsePathRules(
+          JSON.stringify([
+            { pattern: "/a", regex: "a", ttl: 60 },
+            { pattern: "blog/**", ttl: 60 },
+            { regex: "(", ttl: 60 },
+            { pattern: "/b" },
+            { pattern: "/c", ttl: 60, match: "x" },
+          ]),
+        ),
+      ),
+    ).toEqual([
+      'PATH_RULES[0] must set exactly one of "pattern" or "regex"',
+      "PATH_RULES[1].pattern must be a string starting with '/'",
+      expect.stringMatching(/^PATH_RULES\[2\]\.regex is invalid/),
+      "PATH_RULES[3] sets no options (ttl, profiles or waitSelectors)",
+      'PATH_RULES[4]: unknown key "match"',
+    ]);
+  });
+
+  it("accepts an empty list", () => {
+    expect(parsePathRules("[]")).toEqual([]);
+  });
+});
+
+describe("URL filters", () => {
+  it("loads include/exclude patterns and allowed hosts", () => {
+    const config = loadConfig({
+      ...VALID_SOURCE,
+      URL_INCLUDE: '[{"pattern":"/blog/**"}]',
+      URL_EXCLUDE: '[{"regex":"/page/\\\\d+$"}]',
+      ALLOWED_HOSTS: "Example.com, *.example.org",
+    });
+    expect(config.urlFilter).toEqual({
+      include: [{ pattern: "/blog/**", regex: undefined }],
+      exclude: [{ pattern: undefined, regex: "/page/\\d+$" }],
+      allowedHosts: ["example.com", "*.example.org"],
+    });
+  });
+
+  it("reports bad patterns under the variable's name", () => {
+    expect(
+      issuesOf(() =>
+        parseUrlPatterns(
+          '[{"pattern":"admin"},{"regex":"["},{"pattern":"/a","ttl":1}]',
+          "URL_EXCLUDE",
+        ),
+      ),
+    ).toEqual([
+      "URL_EXCLUDE[0].pattern must be a string starting with '/'",
+      expect.stringMatching(/^URL_EXCLUDE\[1\]\.regex is invalid/),
+      'URL_EXCLUDE[2]: unknown key "ttl"',
+    ]);
+  });
+
+  it("accepts allowed hosts as a JSON array", () => {
+    expect(parseAllowedHosts('["example.com","*.example.com"]')).toEqual([
+      "example.com",
+      "*.example.com",
+    ]);
+    expect(issuesOf(() => parseAllowedHosts("https://example.com"))).toEqual([
+      "ALLOWED_HOSTS must list hostnames (e.g. example.com,*.example.com)",
+    ]);
+  });
+});
+
+describe("loadServerConfig", () => {
+  const SERVER_SOURCE = { SERVER_ALLOWED_DOMAINS: "example.com,*.example.com" };
+
+  it("loads allowed domains and listens on loopback by default", () => {
+    const config = loadServerConfig(SERVER_SOURCE);
+    expect(config.host).toBe("127.0.0.1");
+    expect(config.allowedDomains).toEqual(["example.com", "*.example.com"]);
+  });
+
+  it("requires allowed domains", () => {
+    expect(issuesOf(() => loadServerConfig({}))).toEqual([
+      "SERVER_ALLOWED_DOMAINS is required",
+    ]);
+    expect(
+      issuesOf(() =>
+        loadServerConfig({ SERVER_ALLOWED_DOMAINS: "https://example.com" }),
+      ),
+    ).toEqual([
+      "SERVER_ALLOWED_DOMAINS must list hostnames (e.g. example.com,*.example.com)",
+    ]);
+  });
+
+  it("refuses to listen beyond loopback without an auth token", () => {
+    expect(
+      issuesOf(() =>
+        loadServerConfig({ ...SERVER_SOURCE, SERVER_HOST: "0.0.0.0" }),
+      ),
+    ).toEqual([
+      "SERVER_AUTH_TOKEN is required when SERVER_HOST is not a loopback address",
+    ]);
+    expect(
+      loadServerConfig({
+        ...SERVER_SOURCE,
+        SERVER_HOST: "0.0.0.0",
+        SERVER_AUTH_TOKEN: "secret",
+      }).host,
+    ).toBe("0.0.0.0");
+    expect(
+      loadServerConfig({ ...SERVER_SOURCE, SERVER_HOST: "::1" }).host,
+    ).toBe("::1");
+  });
+});
+
+describe("loadRenderProfilesOnly", () => {
+  it("reads RENDER_PROFILES, defaulting to desktop", () => {
+    expect(loadRenderProfilesOnly({}).map((profile) => profile.name)).toEqual([
+      "desktop",
+    ]);
+    expect(
+      loadRenderProfilesOnly({ RENDER_PROFILES: "desktop,mobile" }).map(
+        (profile) => profile.name,
+      ),
+    ).toEqual(["desktop", "mobile"]);
+  });
+});
@@ -1,7 +1,28 @@
+import {
+  ConfigValidationError,
+  loadConfigSource,
+  type ConfigSource,
+} from "./config-file";
+import {
+  DEFAULT_RENDER_PROFILE_NAME,
+  DESKTOP_RENDER_PROFILE,
+  parseRenderProfiles,
+  type RenderProfile,
+} from "./render-profile";
+import type { PathPattern, PathRule } from "./path-rules";
+import {
+  DEFAULT_REGRESSION_THRESHOLDS,
+  type RegressionThresholds,
+} from "./regression-guard";
+import { StorageBackend, type StorageConfig } from "./snapshot-store/type";
+import type { UrlFilterConfig } from "./url-filter";
 import { isMemberOfEnum } from "./util";
 
 export const DEFAULT_CACHE_TTL = 604800; // 7 days
-const DEFAULT_USER_AGENT =
+export const DEFAULT_ROBOTS_USER_AGENT = "Googlebot";
+export const DEFAULT_CRAWL_MAX_DEPTH = 3;
+export const DEFAULT_CRAWL_MAX_PAGES = 500;
+export const DEFAULT_USER_AGENT =
   "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36";
 
 export enum LastmodFilter {
@@ -20,10 +41,20 @@ enum ConfigEnvVariables {
   PATHS_LIST = "PATHS_LIST",
   DOMAIN = "DOMAIN",
   ORIGIN_HOST = "ORIGIN_HOST",
+
+  // STORAGE (which are required depends on STORAGE_BACKEND)
+  STORAGE_BACKEND = "STORAGE_BACKEND",
   CF_ACCOUNT_ID = "CF_ACCOUNT_ID",
   R2_ACCESS_KEY_ID = "R2_ACCESS_KEY_ID",
   R2_SECRET_ACCESS_KEY = "R2_SECRET_ACCESS_KEY",
   R2_BUCKET_NAME = "R2_BUCKET_NAME",
+  STORAGE_ENDPOINT = "STORAGE_ENDPOINT",
+  STORAGE_REGION = "STORAGE_REGION",
+  STORAGE_BUCKET = "STORAGE_BUCKET",
+  STORAGE_ACCESS_KEY_ID = "STORAGE_ACCESS_KEY_ID",
+  STORAGE_SECRET_ACCESS_KEY = "STORAGE_SECRET_ACCESS_KEY",
+  STORAGE_FORCE_PATH_STYLE = "STORAGE_FORCE_PATH_STYLE",
+  STORAGE_DIR = "STORAGE_DIR",
 
   // OPTIONAL
   CONCURRENCY = "CONCURRENCY",
@@ -42,13 +73,61 @@ enum ConfigEnvVariables {
   ENCITED_INTERNAL_KEY = "ENCITED_INTERNAL_KEY",
   OUTPUT_DIR = "OUTPUT_DIR",
   DISABLE_ASSET_CACHE = "DISABLE_ASSET_CACHE",
+  JOB_DEADLINE_SECONDS = "JOB_DEADLINE_SECONDS",
+  RENDER_PROFILES = "RENDER_PROFILES",
+  INCREMENTAL = "INCREMENTAL",
+  SNAPSHOT_HISTORY = "SNAPSHOT_HISTORY",
+  REGRESSION_GUARD = "REGRESSION_GUARD",
+  REGRESSION_MAX_WORD_DROP = "REGRESSION_MAX_WORD_DROP",
+  REGRESSION_MIN_SIMILARITY = "REGRESSION_MIN_SIMILARITY",
+  PATH_RULES = "PATH_RULES",
+  URL_INCLUDE = "URL_INCLUDE",
+  URL_EXCLUDE = "URL_EXCLUDE",
+  ALLOWED_HOSTS = "ALLOWED_HOSTS",
+  RESPECT_ROBOTS_TXT = "RESPECT_ROBOTS_TXT",
+  ROBOTS_USER_AGENT = "ROBOTS_USER_AGENT",
+  CRAWL_DISCOVERY = "CRAWL_DISCOVERY",
+  CRAWL_MAX_DEPTH = "CRAWL_MAX_DEPTH",
+  CRAWL_MAX_PAGES = "CRAWL_MAX_PAGES",
+  PORT = "PORT",
+  SERVER_HOST = "SERVER_HOST",
+  SERVER_AUTH_TOKEN = "SERVER_AUTH_TOKEN",
+  SERVER_ALLOWED_DOMAINS = "SERVER_ALLOWED_DOMAINS",
 }
 
 export interface PathEntry {
   path: string;
-  ttl: number;
+  // Seconds; unset falls back to the matching PATH_RULES rule, then
+  // DEFAULT_CACHE_TTL
+  ttl?: number;
+  // 0.0–1.0, like sitemap <priority>; orders PATHS_LIST entries among
+  // themselves (they always render before sitemap-only URLs).
+  priority?: number;
+  // Names from RENDER_PROFILES to render this path with; all when omitted
+  profiles?: string[];
+  // CSS selectors that must be in the DOM before the snapshot is taken, for
+  // content the readiness heuristics can't see arriving (e.g. lazy widgets)
+  waitSelectors?: string[];
 }
 
+const PATH_ENTRY_KEYS = new Set([
+  "path",
+  "ttl",
+  "priority",
+  "profiles",
+  "waitSelectors",
+]);
+
+const PATH_PATTERN_KEYS = new Set(["pattern", "regex"]);
+
+const PATH_RULE_KEYS = new Set([
+  "pattern",
+  "regex",
+  "ttl",
+  "profiles",
+  "waitSelectors",
+]);
+
 export interface Configuration {
   batchId: string;
   userId: string;
@@ -63,6 +142,18 @@ export interface Configuration {
   baseUrl: string;
   // Paths with per-path TTL
   pathsList: PathEntry[];
+  // Ordered pattern rules assigning TTL and render options to any URL
+  pathRules: PathRule[];
+  // Which sitemap URLs are rendered (host allow-list, include/exclude paths)
+  urlFilter: UrlFilterConfig;
+  // Whether sitemap URLs robots.txt disallows for robotsUserAgent are skipped
+  respectRobotsTxt: boolean;
+  // Crawler whose robots.txt rules decide each page's verdict
+  robotsUserAgent: string;
+  // Crawl discovery: follow same-host links found on rendered pages, up to
+  // `maxDepth` links away from the initial URLs and `maxPages` new URLs.
+  // Null when disabled.
+  crawl: { maxDepth: number; maxPages: number } | null;
   // Callback URL on completion
   webhookUrl?: string;
   // Webhook secret
@@ -71,22 +162,24 @@ export interface Configuration {
   sitemapUrl?: string;
   // Filter by lastmod
   sitemapUpdatedWithin: LastmodFilter;
-  // Cloudflare account ID
-  cfAccountId: string;
-  // R2 S3 key ID
-  r2AccessKeyId: string;
-  // R2 S3 secret
-  r2SecretAccessKey: string;
-  // R2 bucket
-  r2BucketName: string;
+  // Snapshot storage backend (R2 by default) and its credentials
+  storage: StorageConfig;
   // User agent
   userAgent: string;
+  // Device profiles each URL is rendered with; the first is the primary one
+  renderProfiles: RenderProfile[];
   // Concurrency
   concurrency: number;
   // Whether to skip cache sync
   skipCacheSync: boolean;
   // Whether to skip sitemap parsing
   skipSitemapParsing: boolean;
+  // Whether to skip pages whose stored snapshot is still fresh
+  incremental: boolean;
+  // Previous versions kept per page under history keys; 0 keeps none
+  snapshotHistory: number;
+  // When set, renders that regress against the live snapshot aren't stored
+  regressionGuard: RegressionThresholds | null;
   // Telegram bot token
   telegramBotToken?: string;
   // Telegram chat ID
@@ -101,133 +194,602 @@ export interface Configuration {
   // Disables the job-wide asset cache, so every render fetches all assets
   // from the origin — for A/B-measuring the cache's effect locally
   disableAssetCache: boolean;
+  // Wall-clock budget for the whole task; near the end, streams stop taking
+  // new URLs so the report still goes out before the platform kills the job
+  jobDeadlineSeconds?: number;
 }
 
-function requireEnv(name: ConfigEnvVariables): string {
-  const value = process.env[name];
+function requireValue(
+  source: ConfigSource,
+  name: ConfigEnvVariables,
+  issues: string[],
+): string {
+  const value = source[name];
   if (!value) {
-    throw new Error(`${name} is required`);
+    issues.push(`${name} is required`);
+    return "";
   }
   return value;
 }
 
-function boolEnv(name: ConfigEnvVariables, defaultValue: boolean): boolean {
-  const raw = process.env[name]?.toLowerCase();
+/**
+ * Run a parser that throws, recording its message(s) as issues instead so
+ * validation carries on. Returns `fallback` when the parser threw.
+ */
+function collectIssues<T>(issues: string[], fallback: T, parse: () => T): T {
+  try {
+    return parse();
+  } catch (e) {
+    if (e instanceof ConfigValidationError) {
+      issues.push(...e.issues);
+    } else {
+      issues.push(e instanceof Error ? e.message : String(e));
+    }
+    return fallback;
+  }
+}
+
+function loadStorageConfig(
+  source: ConfigSource,
+  issues: string[],
+): StorageConfig {
+  const backend =
+    source[ConfigEnvVariables.STORAGE_BACKEND] || StorageBackend.R2;
+  if (!isMemberOfEnum(StorageBackend, backend)) {
+    issues.push(
+      "STORAGE_BACKEND must be one of: " +
+        Object.values(StorageBackend).join(", "),
+    );
+    return { backend: StorageBackend.FS, rootDir: "" };
+  }
+  const required = (name: ConfigEnvVariables) =>
+    requireValue(source, name, issues);
+  switch (backend) {
+    case StorageBackend.R2:
+      return {
+        backend,
+        cfAccountId: required(ConfigEnvVariables.CF_ACCOUNT_ID),
+        accessKeyId: required(ConfigEnvVariables.R2_ACCESS_KEY_ID),
+        secretAccessKey: required(ConfigEnvVariables.R2_SECRET_ACCESS_KEY),
+        bucket: required(ConfigEnvVariables.R2_BUCKET_NAME),
+      };
+    case StorageBackend.S3: {
+      const endpoint = source[ConfigEnvVariables.STORAGE_ENDPOINT] || undefined;
+      return {
+        backend,
+        endpoint,
+        region: source[ConfigEnvVariables.STORAGE_REGION] || "us-east-1",
+        accessKeyId: required(ConfigEnvVariables.STORAGE_ACCESS_KEY_ID),
+        secretAccessKey: required(ConfigEnvVariables.STORAGE_SECRET_ACCESS_KEY),
+        bucket: required(ConfigEnvVariables.STORAGE_BUCKET),
+        // Custom endpoints are usually MinIO-style, path-addressed buckets
+        forcePathStyle: readBool(
+          source,
+          ConfigEnvVariables.STORAGE_FORCE_PATH_STYLE,
+          endpoint !== undefined,
+        ),
+      };
+    }
+    case StorageBackend.GCS:
+      return {
+        backend,
+        accessKeyId: required(ConfigEnvVariables.STORAGE_ACCESS_KEY_ID),
+        secretAccessKey: required(ConfigEnvVariables.STORAGE_SECRET_ACCESS_KEY),
+        bucket: required(ConfigEnvVariables.STORAGE_BUCKET),
+      };
+    case StorageBackend.FS:
+      return { backend, rootDir: required(ConfigEnvVariables.STORAGE_DIR) };
+  }
+}
+
+function readBool(
+  source: ConfigSource,
+  name: ConfigEnvVariables,
+  defaultValue: boolean,
+): boolean {
+  const raw = source[name]?.toLowerCase();
   return raw ? raw === "true" : defaultValue;
 }
 
-export function loadConfig(): Configuration {
-  const batchId = requireEnv(ConfigEnvVariables.BATCH_ID);
-  const userId = requireEnv(ConfigEnvVariables.USER_ID);
-  const requestSource = requireEnv(ConfigEnvVariables.REQUEST_SOURCE);
-  const domain = requireEnv(ConfigEnvVariables.DOMAIN);
-  const originHost = requireEnv(ConfigEnvVariables.ORIGIN_HOST);
+function readPositiveInt(
+  source: ConfigSource,
+  name: ConfigEnvVariables,
+  defaultValue: number,
+  issues: string[],
+): number {
+  const raw = source[name];
+  if (!raw) return defaultValue;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    issues.push(`${name} must be a positive integer`);
+    return defaultValue;
+  }
+  return value;
+}
 
-  // Canonical domain is optional; falls back to DOMAIN if not set
-  const canonicalDomain =
-    process.env[ConfigEnvVariables.CANONICAL_DOMAIN] || domain;
+function loadConcurrency(source: ConfigSource, issues: string[]): number {
+  const concurrencyRaw = source[ConfigEnvVariables.CONCURRENCY];
+  let concurrency: number = 1;
+  if (concurrencyRaw && !Number.isNaN(parseInt(concurrencyRaw))) {
+    concurrency = parseInt(concurrencyRaw);
+  }
+  const MAX_CONCURRENCY = 10;
+  if (concurrency < 1) {
+    issues.push("CONCURRENCY must be at least 1");
+    return 1;
+  }
+  if (concurrency > MAX_CONCURRENCY) {
+    concurrency = MAX_CONCURRENCY;
+  }
+  return concurrency;
+}
 
-  // Base URL is required
-  const baseUrl = process.env[ConfigEnvVariables.BASE_URL]?.replace(/\/+$/, "");
-  if (!baseUrl) {
-    throw new Error("BASE_URL is required");
+function readPercent(
+  source: ConfigSource,
+  name: ConfigEnvVariables,
+  defaultValue: number,
+  issues: string[],
+): number {
+  const raw = source[name];
+  if (!raw) return defaultValue;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0 || value > 100) {
+    issues.push(`${name} must be an integer between 0 and 100`);
+    return defaultValue;
   }
-  if (!baseUrl.startsWith("https://")) {
-    throw new Error("BASE_URL must start with https://");
+  return value / 100;
+}
+
+// Regression guard is optional, disabled by default; thresholds are percents
+function loadRegressionGuard(
+  source: ConfigSource,
+  issues: string[],
+): RegressionThresholds | null {
+  if (!readBool(source, ConfigEnvVariables.REGRESSION_GUARD, false)) {
+    return null;
   }
+  return {
+    maxWordCountDrop: readPercent(
+      source,
+      ConfigEnvVariables.REGRESSION_MAX_WORD_DROP,
+      DEFAULT_REGRESSION_THRESHOLDS.maxWordCountDrop,
+      issues,
+    ),
+    minStructuralSimilarity: readPercent(
+      source,
+      ConfigEnvVariables.REGRESSION_MIN_SIMILARITY,
+      DEFAULT_REGRESSION_THRESHOLDS.minStructuralSimilarity,
+      issues,
+    ),
+  };
+}
 
-  // Paths list is required
-  const pathsListRaw = process.env[ConfigEnvVariables.PATHS_LIST] ?? "";
-  let pathsListParsed: { path: string; ttl?: number }[] = [];
+function parseStringList(
+  value: unknown,
+  field: string,
+  issues: string[],
+): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    !value.every((item) => typeof item === "string" && item.trim())
+  ) {
+    issues.push(`${field} must be a non-empty array of non-empty strings`);
+    return undefined;
+  }
+  return value as string[];
+}
+
+/**
+ * The render options a PATHS_LIST entry or a PATH_RULES rule may set, checked
+ * the same way for both. `label` prefixes issues (e.g. `PATHS_LIST[2]`).
+ */
+function parseRenderOptions(
+  entry: Record<string, unknown>,
+  label: string,
+  issues: string[],
+  renderProfileNames: string[] | undefined,
+): Pick<PathEntry, "ttl" | "profiles" | "waitSelectors"> {
+  const ttl = entry.ttl ?? undefined;
+  if (
+    ttl !== undefined &&
+    (typeof ttl !== "number" || !Number.isInteger(ttl) || ttl <= 0)
+  ) {
+    issues.push(`${label}.ttl must be a positive integer`);
+  }
+  const profiles = parseStringList(entry.profiles, `${label}.profiles`, issues);
+  for (const name of profiles ?? []) {
+    if (renderProfileNames && !renderProfileNames.includes(name)) {
+      issues.push(
+        `${label}.profiles: "${name}" is not one of RENDER_PROFILES (${renderProfileNames.join(", ")})`,
+      );
+    }
+  }
+  const waitSelectors = parseStringList(
+    entry.waitSelectors,
+    `${label}.waitSelectors`,
+    issues,
+  );
+  return { ttl: ttl as number | undefined, profiles, waitSelectors };
+}
+
+/** JSON.parse a list-valued setting, requiring an array of objects. */
+function parseObjectList(
+  raw: string,
+  name: string,
+  allowEmpty: boolean,
+): Record<string, unknown>[] {
+  let parsed: unknown;
   try {
-    pathsListParsed = JSON.parse(pathsListRaw) as {
-      path: string;
-      ttl?: number;
-    }[];
+    parsed = JSON.parse(raw);
   } catch {
-    throw new Error("PATHS_LIST must be a valid JSON array");
+    throw new ConfigValidationError([`${name} must be a valid JSON array`]);
+  }
+  if (!Array.isArray(parsed) || (!allowEmpty && parsed.length === 0)) {
+    throw new ConfigValidationError([
+      allowEmpty
+        ? `${name} must be a JSON array`
+        : `${name} is required and must be a non-empty array`,
+    ]);
+  }
+  const issues: string[] = [];
+  parsed.forEach((entry, i) => {
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      issues.push(`${name}[${i}] must be an object`);
+    }
+  });
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return parsed as Record<string, unknown>[];
+}
+
+function checkKeys(
+  entry: Record<string, unknown>,
+  allowed: Set<string>,
+  label: string,
+  issues: string[],
+): void {
+  for (const key of Object.keys(entry)) {
+    if (!allowed.has(key)) {
+      issues.push(`${label}: unknown key "${key}"`);
+    }
   }
-  if (!Array.isArray(pathsListParsed) || pathsListParsed.length === 0) {
-    throw new Error("PATHS_LIST is required and must be a non-empty array");
+}
+
+/**
+ * Parse a PATHS_LIST JSON array (also accepted by the CLI's `--paths-file`).
+ * An omitted `ttl` falls back to the matching PATH_RULES rule, then
+ * DEFAULT_CACHE_TTL. Per-path `profiles` are checked against
+ * `renderProfileNames` when given. Throws a ConfigValidationError listing
+ * every bad entry.
+ */
+export function parsePathsList(
+  pathsListRaw: string,
+  renderProfileNames?: string[],
+): PathEntry[] {
+  const entries = parseObjectList(pathsListRaw, "PATHS_LIST", false);
+  const issues: string[] = [];
+  const pathsList = entries.map((entry, i): PathEntry => {
+    const label = `PATHS_LIST[${i}]`;
+    checkKeys(entry, PATH_ENTRY_KEYS, label, issues);
+    if (typeof entry.path !== "string" || !entry.path.startsWith("/")) {
+      issues.push(`${label}.path must be a string starting with '/'`);
+    }
+    const priority = entry.priority ?? undefined;
+    if (
+      priority !== undefined &&
+      (typeof priority !== "number" || priority < 0 || priority > 1)
+    ) {
+      issues.push(`${label}.priority must be a number between 0 and 1`);
+    }
+    return {
+      path: entry.path as string,
+      priority: priority as number | undefined,
+      ...parseRenderOptions(entry, label, issues, renderProfileNames),
+    };
+  });
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
   }
-  const pathsList: PathEntry[] = pathsListParsed.map((entry, i) => {
-    if (!entry.path || !entry.path.startsWith("/")) {
-      throw new Error(
-        `PATHS_LIST[${i}].path must be a string starting with '/'`,
+  return pathsList;
+}
+
+/** Check a `{pattern | regex}` object, as PATH_RULES and URL_* entries use. */
+function parsePathPattern(
+  entry: Record<string, unknown>,
+  label: string,
+  issues: string[],
+): PathPattern {
+  const { pattern, regex } = entry;
+  if ((pattern === undefined) === (regex === undefined)) {
+    issues.push(`${label} must set exactly one of "pattern" or "regex"`);
+  } else if (pattern !== undefined) {
+    if (typeof pattern !== "string" || !pattern.startsWith("/")) {
+      issues.push(`${label}.pattern must be a string starting with '/'`);
+    }
+  } else if (typeof regex !== "string") {
+    issues.push(`${label}.regex must be a string`);
+  } else {
+    try {
+      new RegExp(regex);
+    } catch (e) {
+      issues.push(
+        `${label}.regex is invalid: ${e instanceof Error ? e.message : String(e)}`,
       );
     }
-    const ttl =
-      entry.ttl !== undefined && entry.ttl !== null
-        ? entry.ttl
-        : DEFAULT_CACHE_TTL;
-    if (!Number.isInteger(ttl) || ttl <= 0) {
-      throw new Error(`PATHS_LIST[${i}].ttl must be a positive integer`);
+  }
+  return {
+    pattern: pattern as string | undefined,
+    regex: regex as string | undefined,
+  };
+}
+
+/**
+ * Parse PATH_RULES: an ordered JSON array of `{pattern | regex, ...options}`
+ * (see PathRule). Throws a ConfigValidationError listing every bad rule.
+ */
+export function parsePathRules(
+  pathRulesRaw: string,
+  renderProfileNames?: string[],
+): PathRule[] {
+  const entries = parseObjectList(pathRulesRaw, "PATH_RULES", true);
+  const issues: string[] = [];
+  const rules = entries.map((entry, i): PathRule => {
+    const label = `PATH_RULES[${i}]`;
+    checkKeys(entry, PATH_RULE_KEYS, label, issues);
+    const pattern = parsePathPattern(entry, label, issues);
+    const options = parseRenderOptions(
+      entry,
+      label,
+      issues,
+      renderProfileNames,
+    );
+    if (
+      options.ttl === undefined &&
+      options.profiles === undefined &&
+      options.waitSelectors === undefined
+    ) {
+      issues.push(`${label} sets no options (ttl, profiles or waitSelectors)`);
     }
-    return { path: entry.path, ttl };
+    return { ...pattern, ...options };
+  });
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return rules;
+}
+
+/**
+ * Parse URL_INCLUDE or URL_EXCLUDE (`name`): a JSON array of
+ * `{pattern | regex}` path matchers. Throws a ConfigValidationError listing
+ * every bad entry.
+ */
+export function parseUrlPatterns(raw: string, name: string): PathPattern[] {
+  const entries = parseObjectList(raw, name, true);
+  const issues: string[] = [];
+  const patterns = entries.map((entry, i) => {
+    const label = `${name}[${i}]`;
+    checkKeys(entry, PATH_PATTERN_KEYS, label, issues);
+    return parsePathPattern(entry, label, issues);
   });
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return patterns;
+}
+
+/**
+ * Parse ALLOWED_HOSTS (or another host list, `name`): comma-separated
+ * hostnames or a JSON array of them. A `*.` prefix also allows subdomains.
+ */
+export function parseAllowedHosts(
+  raw: string,
+  name: string = ConfigEnvVariables.ALLOWED_HOSTS,
+): string[] {
+  let hosts: unknown;
+  if (raw.trim().startsWith("[")) {
+    try {
+      hosts = JSON.parse(raw);
+    } catch {
+      throw new ConfigValidationError([`${name} must be a valid JSON array`]);
+    }
+  } else {
+    hosts = raw.split(",").map((host) => host.trim());
+  }
+  if (
+    !Array.isArray(hosts) ||
+    !hosts.every(
+      (host) =>
+        typeof host === "string" && /^(\*\.)?[a-z0-9.-]+$/i.test(host.trim()),
+    )
+  ) {
+    throw new ConfigValidationError([
+      `${name} must list hostnames (e.g. example.com,*.example.com)`,
+    ]);
+  }
+  return (hosts as string[]).map((host) => host.trim().toLowerCase());
+}
+
+/**
+ * Load the job configuration from CONFIG_FILE and/or env vars (env wins).
+ * Every problem is collected and thrown together as a ConfigValidationError.
+ */
+export function loadConfig(
+  source: ConfigSource = loadConfigSource(),
+): Configuration {
+  const issues: string[] = [];
+  const required = (name: ConfigEnvVariables) =>
+    requireValue(source, name, issues);
+
+  const batchId = required(ConfigEnvVariables.BATCH_ID);
+  const userId = required(ConfigEnvVariables.USER_ID);
+  const requestSource = required(ConfigEnvVariables.REQUEST_SOURCE);
+  const domain = required(ConfigEnvVariables.DOMAIN);
+  const originHost = required(ConfigEnvVariables.ORIGIN_HOST);
+
+  // Canonical domain is optional; falls back to DOMAIN if not set
+  const canonicalDomain = source[ConfigEnvVariables.CANONICAL_DOMAIN] || domain;
+
+  // Base URL is required
+  const baseUrl = required(ConfigEnvVariables.BASE_URL).replace(/\/+$/, "");
+  if (baseUrl && !baseUrl.startsWith("https://")) {
+    issues.push("BASE_URL must start with https://");
+  }
+
+  // Render profiles are optional, default to desktop only
+  const renderProfiles = collectIssues(issues, [DESKTOP_RENDER_PROFILE], () =>
+    parseRenderProfiles(
+      source[ConfigEnvVariables.RENDER_PROFILES] || DEFAULT_RENDER_PROFILE_NAME,
+    ),
+  );
+
+  // Paths list is required
+  const pathsList = collectIssues(issues, [], () =>
+    parsePathsList(
+      source[ConfigEnvVariables.PATHS_LIST] ?? "",
+      renderProfiles.map((profile) => profile.name),
+    ),
+  );
+
+  // Path rules are optional; they apply to sitemap URLs and PATHS_LIST alike
+  const pathRulesRaw = source[ConfigEnvVariables.PATH_RULES];
+  const pathRules = pathRulesRaw
+    ? collectIssues(issues, [], () =>
+        parsePathRules(
+          pathRulesRaw,
+          renderProfiles.map((profile) => profile.name),
+        ),
+      )
+    : [];
+
+  // URL filters are optional; they only narrow sitemap URLs, never PATHS_LIST
+  const urlPatterns = (name: ConfigEnvVariables) => {
+    const raw = source[name];
+    return raw
+      ? collectIssues(issues, [], () => parseUrlPatterns(raw, name))
+      : [];
+  };
+  const allowedHostsRaw = source[ConfigEnvVariables.ALLOWED_HOSTS];
+  const urlFilter: UrlFilterConfig = {
+    include: urlPatterns(ConfigEnvVariables.URL_INCLUDE),
+    exclude: urlPatterns(ConfigEnvVariables.URL_EXCLUDE),
+    allowedHosts: allowedHostsRaw
+      ? collectIssues(issues, [], () => parseAllowedHosts(allowedHostsRaw))
+      : [],
+  };
+
+  // robots.txt is always fetched for its sitemaps and per-page verdicts; only
+  // skipping disallowed URLs is opt-in
+  const respectRobotsTxt = readBool(
+    source,
+    ConfigEnvVariables.RESPECT_ROBOTS_TXT,
+    false,
+  );
+  const robotsUserAgent =
+    source[ConfigEnvVariables.ROBOTS_USER_AGENT] || DEFAULT_ROBOTS_USER_AGENT;
+
+  // Crawl discovery is optional, disabled by default
+  const crawl = readBool(source, ConfigEnvVariables.CRAWL_DISCOVERY, false)
+    ? {
+        maxDepth: readPositiveInt(
+          source,
+          ConfigEnvVariables.CRAWL_MAX_DEPTH,
+          DEFAULT_CRAWL_MAX_DEPTH,
+          issues,
+        ),
+        maxPages: readPositiveInt(
+          source,
+          ConfigEnvVariables.CRAWL_MAX_PAGES,
+          DEFAULT_CRAWL_MAX_PAGES,
+          issues,
+        ),
+      }
+    : null;
 
   // Webhook URL, Telegram bot token, Telegram chat ID, and sitemap URL are optional
-  const webhookUrl = process.env[ConfigEnvVariables.WEBHOOK_URL];
-  const webhookSignature = process.env[ConfigEnvVariables.WEBHOOK_SIGNATURE];
-  const telegramBotToken = process.env[ConfigEnvVariables.TELEGRAM_BOT_TOKEN];
-  const telegramChatId = process.env[ConfigEnvVariables.TELEGRAM_CHAT_ID];
-  const sitemapUrl = process.env[ConfigEnvVariables.SITEMAP_URL];
-
-  const sitemapUpdatedWithin =
-    process.env[ConfigEnvVariables.SITEMAP_UPDATED_WITHIN] || LastmodFilter.ALL;
-  if (!isMemberOfEnum(LastmodFilter, sitemapUpdatedWithin)) {
-    throw new Error(
+  const webhookUrl = source[ConfigEnvVariables.WEBHOOK_URL];
+  const webhookSignature = source[ConfigEnvVariables.WEBHOOK_SIGNATURE];
+  const telegramBotToken = source[ConfigEnvVariables.TELEGRAM_BOT_TOKEN];
+  const telegramChatId = source[ConfigEnvVariables.TELEGRAM_CHAT_ID];
+  const sitemapUrl = source[ConfigEnvVariables.SITEMAP_URL];
+
+  const sitemapUpdatedWithinRaw =
+    source[ConfigEnvVariables.SITEMAP_UPDATED_WITHIN] || LastmodFilter.ALL;
+  let sitemapUpdatedWithin = LastmodFilter.ALL;
+  if (isMemberOfEnum(LastmodFilter, sitemapUpdatedWithinRaw)) {
+    sitemapUpdatedWithin = sitemapUpdatedWithinRaw;
+  } else {
+    issues.push(
       "SITEMAP_UPDATED_WITHIN must be one of: " +
         Object.values(LastmodFilter).join(", "),
     );
   }
-  // Cloudflare credentials and cache configuration are required
-  const cfAccountId = requireEnv(ConfigEnvVariables.CF_ACCOUNT_ID);
-  const r2AccessKeyId = requireEnv(ConfigEnvVariables.R2_ACCESS_KEY_ID);
-  const r2SecretAccessKey = requireEnv(ConfigEnvVariables.R2_SECRET_ACCESS_KEY);
-  const r2BucketName = requireEnv(ConfigEnvVariables.R2_BUCKET_NAME);
+  // Storage credentials are required for the selected backend
+  const storage = loadStorageConfig(source, issues);
   // User agent is optional, default to default user agent if not set
-  const userAgent =
-    process.env[ConfigEnvVariables.USER_AGENT] ?? DEFAULT_USER_AGENT;
+  const userAgent = source[ConfigEnvVariables.USER_AGENT] ?? DEFAULT_USER_AGENT;
 
   // Concurrency is optional, default to 1 if not set
-  const concurrencyRaw = process.env[ConfigEnvVariables.CONCURRENCY];
-  let concurrency: number = 1;
-  if (concurrencyRaw && !Number.isNaN(parseInt(concurrencyRaw))) {
-    concurrency = parseInt(concurrencyRaw);
-  }
-  const MAX_CONCURRENCY = 10;
-  if (concurrency < 1) {
-    throw new Error("CONCURRENCY must be at least 1");
-  }
-  if (concurrency > MAX_CONCURRENCY) {
-    concurrency = MAX_CONCURRENCY;
-  }
+  const concurrency = loadConcurrency(source, issues);
 
   // Whether to skip cache sync is optional, default to true if not set
-  const skipCacheSync = boolEnv(ConfigEnvVariables.SKIP_CACHE_SYNC, true);
+  const skipCacheSync = readBool(
+    source,
+    ConfigEnvVariables.SKIP_CACHE_SYNC,
+    true,
+  );
 
   // Whether to skip sitemap parsing is optional, default to false if not set
-  const skipSitemapParsing = boolEnv(
+  const skipSitemapParsing = readBool(
+    source,
     ConfigEnvVariables.SKIP_SITEMAP_PARSING,
     false,
   );
 
+  // Incremental mode is optional, default to false if not set
+  const incremental = readBool(source, ConfigEnvVariables.INCREMENTAL, false);
+
+  // Snapshot history is optional, default to 0 (off) if not set
+  const snapshotHistory = readPositiveInt(
+    source,
+    ConfigEnvVariables.SNAPSHOT_HISTORY,
+    0,
+    issues,
+  );
+
+  const regressionGuard = loadRegressionGuard(source, issues);
+
   // Retry options are optional
-  const retryOptions = process.env[ConfigEnvVariables.RETRY_OPTIONS];
+  const retryOptions = source[ConfigEnvVariables.RETRY_OPTIONS];
 
   const internalKey =
-    process.env[ConfigEnvVariables.ENCITED_INTERNAL_KEY] || undefined;
+    source[ConfigEnvVariables.ENCITED_INTERNAL_KEY] || undefined;
 
   // Output directory is optional; when unset, snapshots aren't written to disk
-  const outputDir = process.env[ConfigEnvVariables.OUTPUT_DIR] || undefined;
+  const outputDir = source[ConfigEnvVariables.OUTPUT_DIR] || undefined;
 
   // Whether to disable the asset cache is optional, default to false if not set
-  const disableAssetCache = boolEnv(
+  const disableAssetCache = readBool(
+    source,
     ConfigEnvVariables.DISABLE_ASSET_CACHE,
     false,
   );
 
+  // Job deadline is optional; when unset, the run has no time budget
+  const jobDeadlineRaw = source[ConfigEnvVariables.JOB_DEADLINE_SECONDS];
+  let jobDeadlineSeconds: number | undefined;
+  if (jobDeadlineRaw) {
+    jobDeadlineSeconds = Number(jobDeadlineRaw);
+    if (!Number.isInteger(jobDeadlineSeconds) || jobDeadlineSeconds <= 0) {
+      issues.push("JOB_DEADLINE_SECONDS must be a positive integer");
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
   return {
     batchId,
     userId,
@@ -237,23 +799,170 @@ export function loadConfig(): Configuration {
     canonicalDomain,
     baseUrl,
     pathsList,
+    pathRules,
+    urlFilter,
+    respectRobotsTxt,
+    robotsUserAgent,
+    crawl,
     webhookUrl,
     webhookSignature,
     sitemapUrl,
     sitemapUpdatedWithin,
-    cfAccountId,
-    r2AccessKeyId,
-    r2SecretAccessKey,
-    r2BucketName,
+    storage,
     userAgent,
+    renderProfiles,
     concurrency,
     skipCacheSync,
     skipSitemapParsing,
+    incremental,
+    snapshotHistory,
+    regressionGuard,
     telegramBotToken,
     telegramChatId,
     retryOptions,
     internalKey,
     outputDir,
     disableAssetCache,
+    jobDeadlineSeconds,
+  };
+}
+
+/**
+ * Only the snapshot store settings, for CLI commands that work on stored
+ * snapshots (rollback) rather than running a batch.
+ */
+export function loadStorageOnlyConfig(
+  source: ConfigSource = loadConfigSource(),
+): StorageConfig {
+  const issues: string[] = [];
+  const storage = loadStorageConfig(source, issues);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return storage;
+}
+
+/**
+ * Only RENDER_PROFILES, for CLI commands that address one profile's stored
+ * snapshot (key, rollback).
+ */
+export function loadRenderProfilesOnly(
+  source: ConfigSource = loadConfigSource(),
+): RenderProfile[] {
+  const issues: string[] = [];
+  const renderProfiles = collectIssues(issues, [], () =>
+    parseRenderProfiles(
+      source[ConfigEnvVariables.RENDER_PROFILES] || DEFAULT_RENDER_PROFILE_NAME,
+    ),
+  );
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return renderProfiles;
+}
+
+// Interfaces only this machine can reach; anything else needs an auth token.
+function isLoopbackHost(host: string): boolean {
+  return (
+    host === "localhost" ||
+    host === "::1" ||
+    host === "[::1]" ||
+    /^127(\.\d{1,3}){3}$/.test(host)
+  );
+}
+
+export interface ServerConfiguration {
+  port: number;
+  // Interface to listen on; loopback unless deliberately exposed
+  host: string;
+  // When set, requests must send `Authorization: Bearer <token>`
+  authToken?: string;
+  // Hosts a request's url, domain and canonicalDomain must all be on; `*.`
+  // also allows subdomains. Everything else is refused before rendering, so
+  // the internal key only ever goes to these.
+  allowedDomains: string[];
+  userAgent: string;
+  renderProfiles: RenderProfile[];
+  // Browsers kept warm; also the number of renders served at once
+  concurrency: number;
+  // Null when SKIP_CACHE_SYNC is true: `sync` requests are then rejected
+  storage: StorageConfig | null;
+  snapshotHistory: number;
+  regressionGuard: RegressionThresholds | null;
+  internalKey?: string;
+  telegramBotToken?: string;
+  telegramChatId?: string;
+  disableAssetCache: boolean;
+}
+
+/**
+ * Configuration for the long-running render server (src/server.ts). Only the
+ * render-related variables apply; batch inputs (BATCH_ID, PATHS_LIST, ...)
+ * come with each request instead.
+ */
+export function loadServerConfig(
+  source: ConfigSource = loadConfigSource(),
+): ServerConfiguration {
+  const issues: string[] = [];
+  const required = (name: ConfigEnvVariables) =>
+    requireValue(source, name, issues);
+  const portRaw = source[ConfigEnvVariables.PORT] || "8080";
+  const port = Number(portRaw);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    issues.push("PORT must be an integer between 1 and 65535");
+  }
+  const skipCacheSync = readBool(
+    source,
+    ConfigEnvVariables.SKIP_CACHE_SYNC,
+    true,
+  );
+  const host = source[ConfigEnvVariables.SERVER_HOST] || "127.0.0.1";
+  const authToken = source[ConfigEnvVariables.SERVER_AUTH_TOKEN] || undefined;
+  if (!authToken && !isLoopbackHost(host)) {
+    issues.push(
+      "SERVER_AUTH_TOKEN is required when SERVER_HOST is not a loopback address",
+    );
+  }
+  const allowedDomainsRaw = required(ConfigEnvVariables.SERVER_ALLOWED_DOMAINS);
+  const config: ServerConfiguration = {
+    port,
+    host,
+    authToken,
+    allowedDomains: allowedDomainsRaw
+      ? collectIssues(issues, [], () =>
+          parseAllowedHosts(
+            allowedDomainsRaw,
+            ConfigEnvVariables.SERVER_ALLOWED_DOMAINS,
+          ),
+        )
+      : [],
+    userAgent: source[ConfigEnvVariables.USER_AGENT] ?? DEFAULT_USER_AGENT,
+    renderProfiles: collectIssues(issues, [DESKTOP_RENDER_PROFILE], () =>
+      parseRenderProfiles(
+        source[ConfigEnvVariables.RENDER_PROFILES] ||
+          DEFAULT_RENDER_PROFILE_NAME,
+      ),
+    ),
+    concurrency: loadConcurrency(source, issues),
+    storage: skipCacheSync ? null : loadStorageConfig(source, issues),
+    snapshotHistory: readPositiveInt(
+      source,
+      ConfigEnvVariables.SNAPSHOT_HISTORY,
+      0,
+      issues,
+    ),
+    regressionGuard: loadRegressionGuard(source, issues),
+    internalKey: source[ConfigEnvVariables.ENCITED_INTERNAL_KEY] || undefined,
+    telegramBotToken: source[ConfigEnvVariables.TELEGRAM_BOT_TOKEN],
+    telegramChatId: source[ConfigEnvVariables.TELEGRAM_CHAT_ID],
+    disableAssetCache: readBool(
+      source,
+      ConfigEnvVariables.DISABLE_ASSET_CACHE,
+      false,
+    ),
   };
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return config;
 }
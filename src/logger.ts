@@ -11,6 +11,20 @@ const baseLogger: Logger = createLogger({
   format: process.env.LOG_LEVEL === "debug" ? format.simple() : format.json(),
 });
 
+/**
+ * Send every level to stderr, for entry points whose stdout is the program's
+ * output (the CLI). `level` overrides LOG_LEVEL.
+ */
+export function routeLogsToStderr(level?: string): void {
+  baseLogger.clear();
+  baseLogger.add(
+    new transports.Console({ stderrLevels: Object.keys(baseLogger.levels) }),
+  );
+  if (level) {
+    baseLogger.level = level;
+  }
+}
+
 export class AppLogger {
   private constructor(private readonly _prefix: string) {}
 
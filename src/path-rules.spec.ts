@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CACHE_TTL } from "./load-config";
+import { PathRuleSet, globToRegExp } from "./path-rules";
+
+describe("globToRegExp", () => {
+  it("matches * within one segment and ** across segments", () => {
+    expect(globToRegExp("/blog/*").test("/blog/post")).toBe(true);
+    expect(globToRegExp("/blog/*").test("/blog/2024/post")).toBe(false);
+    expect(globToRegExp("/blog/**/amp").test("/blog/2024/post/amp")).toBe(true);
+    expect(globToRegExp("/p?ge").test("/page")).toBe(true);
+    expect(globToRegExp("/p?ge").test("/p/ge")).toBe(false);
+  });
+
+  it("lets a trailing /** match the bare prefix", () => {
+    const blog = globToRegExp("/blog/**");
+    expect(blog.test("/blog")).toBe(true);
+    expect(blog.test("/blog/")).toBe(true);
+    expect(blog.test("/blog/a/b")).toBe(true);
+    expect(blog.test("/blogroll")).toBe(false);
+  });
+
+  it("treats other characters literally", () => {
+    expect(globToRegExp("/a.b+(c)").test("/a.b+(c)")).toBe(true);
+    expect(globToRegExp("/a.b").test("/axb")).toBe(false);
+  });
+});
+
+describe("PathRuleSet", () => {
+  const rules = PathRuleSet.register({
+    rules: [
+      { pattern: "/blog/**", ttl: 2592000 },
+      { pattern: "/pricing", ttl: 86400, waitSelectors: ["#plans"] },
+      { regex: "^/app/", profiles: ["desktop"] },
+      { pattern: "/**", ttl: 3600 },
+    ],
+  });
+
+  it("applies the first matching rule to any URL", () => {
+    expect(
+      rules.resolve("https://example.com/blog/post?x=1", undefined),
+    ).toEqual({
+      cacheTtl: 2592000,
+      profiles: undefined,
+      waitSelectors: undefined,
+      rule: "/blog/**",
+    });
+    expect(rules.resolve("https://example.com/app/home", undefined)).toEqual({
+      // Only the first match applies; later rules don't fill in its gaps
+      cacheTtl: DEFAULT_CACHE_TTL,
+      profiles: ["desktop"],
+      waitSelectors: undefined,
+      rule: "/^/app//",
+    });
+  });
+
+  it("lets PATHS_LIST fields win over the rule", () => {
+    expect(
+      rules.resolve("https://example.com/pricing", {
+        path: "/pricing",
+        ttl: 60,
+      }),
+    ).toEqual({
+      cacheTtl: 60,
+      profiles: undefined,
+      waitSelectors: ["#plans"],
+      rule: "/pricing",
+    });
+  });
+
+  it("falls back to the default TTL without a match", () => {
+    const empty = PathRuleSet.register({ rules: [] });
+    expect(empty.resolve("https://example.com/", undefined)).toEqual({
+      cacheTtl: DEFAULT_CACHE_TTL,
+      profiles: undefined,
+      waitSelectors: undefined,
+      rule: null,
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { DEFAULT_CACHE_TTL, type PathEntry } from "./load-config";
+
+/** A URL path matcher. Exactly one of `pattern` (glob) or `regex` is set. */
+export interface PathPattern {
+  /**
+   * Glob on the URL path: `*` matches within one segment, `**` across
+   * segments, `?` one character. A trailing `/**` also matches the bare
+   * prefix (`/blog/**` matches `/blog`).
+   */
+  pattern?: string;
+  /** JavaScript regular expression tested against the URL path. */
+  regex?: string;
+}
+
+/** One PATH_RULES entry: a path pattern and the render options it assigns. */
+export interface PathRule extends PathPattern {
+  ttl?: number;
+  profiles?: string[];
+  waitSelectors?: string[];
+}
+
+/** Per-URL render options after PATHS_LIST entries and PATH_RULES apply. */
+export interface UrlRenderOptions {
+  cacheTtl: number;
+  // Unset means every RENDER_PROFILES profile
+  profiles?: string[];
+  waitSelectors?: string[];
+  /** The rule that matched (its pattern or regex), for reporting. */
+  rule: string | null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Compile a path glob into an anchored regular expression. */
+export function globToRegExp(glob: string): RegExp {
+  // `/**` at the end matches the prefix itself as well as anything below it.
+  const trailingGlobstar = glob.endsWith("/**");
+  const body = trailingGlobstar ? glob.slice(0, -3) : glob;
+  let source = "";
+  for (let i = 0; i < body.length; i++) {
+    const char = body.charAt(i);
+    if (char === "*" && body.charAt(i + 1) === "*") {
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}${trailingGlobstar ? "(?:/.*)?" : ""}$`);
+}
+
+/** Compile a PathPattern into the RegExp tested against URL paths. */
+export function compilePathPattern(pattern: PathPattern): RegExp {
+  return pattern.pattern !== undefined
+    ? globToRegExp(pattern.pattern)
+    : new RegExp(pattern.regex ?? "");
+}
+
+/** How a PathPattern is named in logs and reports: the glob, or `/regex/`. */
+export function pathPatternLabel(pattern: PathPattern): string {
+  return pattern.pattern ?? `/${pattern.regex}/`;
+}
+
+function urlPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Ordered PATH_RULES: the first rule whose pattern matches a URL's path
+ * supplies its defaults. Fields set on the URL's own PATHS_LIST entry win
+ * over the rule's.
+ */
+export class PathRuleSet {
+  private readonly _rules: { rule: PathRule; label: string; test: RegExp }[];
+
+  static register({ rules }: { rules: PathRule[] }): PathRuleSet {
+    return new PathRuleSet(rules);
+  }
+
+  private constructor(rules: PathRule[]) {
+    this._rules = rules.map((rule) => ({
+      rule,
+      label: pathPatternLabel(rule),
+      test: compilePathPattern(rule),
+    }));
+  }
+
+  get size(): number {
+    return this._rules.length;
+  }
+
+  /** The first rule matching the URL's path, with its report label. */
+  match(url: string): { rule: PathRule; label: string } | null {
+    const path = urlPath(url);
+    const matched = this._rules.find(({ test }) => test.test(path));
+    return matched ? { rule: matched.rule, label: matched.label } : null;
+  }
+
+  resolve(url: string, pathEntry: PathEntry | undefined): UrlRenderOptions {
+    const matched = this.match(url);
+    return {
+      cacheTtl: pathEntry?.ttl ?? matched?.rule.ttl ?? DEFAULT_CACHE_TTL,
+      profiles: pathEntry?.profiles ?? matched?.rule.profiles,
+      waitSelectors: pathEntry?.waitSelectors ?? matched?.rule.waitSelectors,
+      rule: matched?.label ?? null,
+    };
+  }
+}
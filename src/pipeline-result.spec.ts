@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { tallyResults, type PipelineResult } from "./pipeline-result";
+
+function resultOf(
+  path: string,
+  fields: Omit<PipelineResult, "url">,
+): PipelineResult {
+  return { url: `https://example.com${path}`, ...fields };
+}
+
+describe("tallyResults", () => {
+  it("counts unchanged snapshots apart from re-uploaded ones", () => {
+    const tally = tallyResults([
+      resultOf("/synced", { isRendered: true, isCachedToR2: true }),
+      resultOf("/unchanged", {
+        isRendered: true,
+        isCachedToR2: true,
+        isUnchanged: true,
+      }),
+      resultOf("/unsynced", { isRendered: true, isCachedToR2: false }),
+      resultOf("/fresh", {
+        isRendered: false,
+        isCachedToR2: false,
+        isSkippedFresh: true,
+      }),
+    ]);
+
+    expect(tally).toMatchObject({
+      countRendered: 3,
+      countR2Synced: 1,
+      countUnchanged: 1,
+      skippedFreshUrls: ["https://example.com/fresh"],
+      failedToSyncUrls: ["https://example.com/unsynced"],
+    });
+    // Unchanged pages are still successes
+    expect(tally.successUrls).toEqual([
+      "https://example.com/synced",
+      "https://example.com/unchanged",
+    ]);
+  });
+
+  it("ignores isUnchanged on a result that didn't sync", () => {
+    const tally = tallyResults([
+      resultOf("/", {
+        isRendered: true,
+        isCachedToR2: false,
+        isUnchanged: true,
+      }),
+    ]);
+
+    expect(tally.countUnchanged).toBe(0);
+    expect(tally.failedToSyncUrls).toEqual(["https://example.com/"]);
+  });
+
+  it("reports a failure without a detail as unknown", () => {
+    expect(
+      tallyResults([
+        resultOf("/broken", { isRendered: false, isCachedToR2: false }),
+      ]).failedToRenderUrls,
+    ).toEqual([
+      { url: "https://example.com/broken", failure: { reason: "unknown" } },
+    ]);
+  });
+});
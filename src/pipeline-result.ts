@@ -0,0 +1,160 @@
+import type { PrerenderFailureDetail } from "./prerender-failure";
+import { DEFAULT_RENDER_PROFILE_NAME } from "./render-profile";
+import type {
+  HreflangLink,
+  IndexableReason,
+  PageSeoAnalysis,
+} from "./seo-analyzer/type";
+import type { SitemapEntry } from "./sitemap-parser";
+
+export interface PipelineResult {
+  url: string;
+  /**
+   * Render profile (RENDER_PROFILES) this result is for. Unset means the
+   * default desktop profile, which is also what results from before render
+   * profiles existed were rendered with.
+   */
+  profile?: string;
+  isRendered: boolean;
+  isCachedToR2: boolean;
+  /**
+   * Cached, but the stored snapshot already had identical HTML — only its
+   * metadata was refreshed. Reported separately from synced pages.
+   */
+  isUnchanged?: boolean;
+  /**
+   * Not rendered: INCREMENTAL mode found a stored snapshot that is within its
+   * TTL and newer than the sitemap's <lastmod>. Neither a success nor a failure.
+   */
+  isSkippedFresh?: boolean;
+  /**
+   * The stored snapshot this result synced, or kept when skipped as fresh.
+   * contentLength is only known for snapshots synced by this run.
+   */
+  objectKey?: string;
+  digest?: string;
+  contentLength?: number;
+  /** Seconds the snapshot stays fresh (the path's cache TTL). */
+  cacheTtl?: number;
+  /** Wall-clock of the successful render attempt, from RenderDiagnostics. */
+  renderDurationMs?: number;
+  /** SeoAnalyzer score (0–100) of the rendered page. */
+  seoScore?: number;
+  /** Ids of the issues that cost the most score points, heaviest first. */
+  seoTopIssues?: string[];
+  /** The analysis' indexability verdict, and why a page isn't indexable. */
+  seoIndexable?: boolean;
+  seoIndexableReason?: IndexableReason;
+  /**
+   * Title, meta description and canonical URL of the rendered page, kept for
+   * the batch SEO report's duplicate and canonical checks.
+   */
+  seoTitle?: string;
+  seoMetaDescription?: string;
+  seoCanonicalUrl?: string;
+  /**
+   * The page's hreflang alternates, kept for the batch-level reciprocity
+   * check. Unset when it has none.
+   */
+  hreflangs?: HreflangLink[];
+  /**
+   * Skipped as fresh, with the title, description, canonical and hreflangs
+   * above read back from the stored snapshot's sidecar, so the batch SEO
+   * report still covers the page.
+   */
+  hasStoredAnalysis?: boolean;
+  /** Why the path failed — unset on success. */
+  failure?: PrerenderFailureDetail;
+  /**
+   * Crawl discovery only: links followed from the initial URLs to reach this
+   * one (0 for PATHS_LIST and sitemap URLs).
+   */
+  discoveryDepth?: number;
+  /** The PATH_RULES rule (pattern or regex) that set this URL's options. */
+  pathRule?: string;
+  /** What the sitemap published for this URL; unset for PATHS_LIST-only URLs. */
+  sitemap?: Omit<SitemapEntry, "loc">;
+}
+
+/**
+ * Copy what the batch SEO report compares across pages (title, description,
+ * canonical, hreflangs) from a page's analysis onto its result.
+ */
+export function applySeoReportFields(
+  result: PipelineResult,
+  analysis: PageSeoAnalysis,
+): void {
+  result.seoTitle = analysis.title;
+  result.seoMetaDescription = analysis.metaDescription;
+  result.seoCanonicalUrl = analysis.canonicalUrl;
+  if (analysis.hreflangs.length > 0) {
+    result.hreflangs = analysis.hreflangs;
+  }
+}
+
+/**
+ * Whether the batch SEO report covers the page: rendered in this run, or
+ * skipped as fresh with its stored analysis read back.
+ */
+export function hasSeoAnalysis(result: PipelineResult): boolean {
+  return result.isRendered || result.hasStoredAnalysis === true;
+}
+
+export function resultProfileName(result: PipelineResult): string {
+  return result.profile ?? DEFAULT_RENDER_PROFILE_NAME;
+}
+
+/** Identity of a result within a batch: one per URL and render profile. */
+export function pipelineResultKey(result: PipelineResult): string {
+  return `${result.url} ${resultProfileName(result)}`;
+}
+
+/** A batch's results bucketed the way the webhook reports them. */
+export interface ResultTally {
+  successUrls: string[];
+  countRendered: number;
+  countR2Synced: number;
+  countUnchanged: number;
+  skippedFreshUrls: string[];
+  failedToRenderUrls: { url: string; failure: PrerenderFailureDetail }[];
+  failedToSyncUrls: string[];
+}
+
+export function tallyResults(results: Iterable<PipelineResult>): ResultTally {
+  const tally: ResultTally = {
+    successUrls: [],
+    countRendered: 0,
+    countR2Synced: 0,
+    countUnchanged: 0,
+    skippedFreshUrls: [],
+    failedToRenderUrls: [],
+    failedToSyncUrls: [],
+  };
+  for (const result of results) {
+    if (result.isSkippedFresh) {
+      tally.skippedFreshUrls.push(result.url);
+      continue;
+    }
+    if (result.isRendered) {
+      tally.countRendered++;
+    }
+    if (result.isCachedToR2 && result.isUnchanged) {
+      tally.countUnchanged++;
+    } else if (result.isCachedToR2) {
+      tally.countR2Synced++;
+    }
+    if (!result.isRendered) {
+      tally.failedToRenderUrls.push({
+        url: result.url,
+        failure: result.failure ?? { reason: "unknown" },
+      });
+    }
+    if (result.isRendered && !result.isCachedToR2) {
+      tally.failedToSyncUrls.push(result.url);
+    }
+    if (result.isRendered && result.isCachedToR2) {
+      tally.successUrls.push(result.url);
+    }
+  }
+  return tally;
+}
@@ -0,0 +1,446 @@
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import puppeteer, { Browser } from "puppeteer-core";
+import { AssetCache } from "./asset-cache";
+import { buildSnapshotObjectKey } from "./cache-manager/kv-key-utils";
+import { R2Loader } from "./cache-manager/r2-loader";
+import { liveSnapshotLooksHealthy } from "./cache-manager/snapshot-history";
+import {
+  sanitizeHtml,
+  detectMetadataLoss,
+  extractOversizedDataUrls,
+  restoreDataUrls,
+  type SanitizerReport,
+} from "./html-sanitizer";
+import { looksLikeFailedRender } from "./html-sanitizer/soft-404";
+import type { Configuration } from "./load-config";
+import { AppLogger, INDENT } from "./logger";
+import { applySeoReportFields, type PipelineResult } from "./pipeline-result";
+import { toFailureDetail } from "./prerender-failure";
+import { renderVariant, type RenderProfile } from "./render-profile";
+import {
+  RenderEngine,
+  type RenderDiagnostics,
+  type RenderResult,
+} from "./render-engine";
+import { checkForRegression } from "./regression-guard";
+import { RequestStats } from "./request-stats";
+import type { RobotsTxtCheck } from "./robots-txt";
+import { SeoAnalyzer } from "./seo-analyzer/index";
+import { topSeoIssueIds } from "./seo-analyzer/score";
+import type { PageSeoAnalysis } from "./seo-analyzer/type";
+import type { SnapshotStore } from "./snapshot-store";
+import { sendTelegramMessage } from "./telegram";
+import { escapeMarkdownV2, extractPathFromUrl } from "./util";
+
+const logger = AppLogger.register({ prefix: "pipeline" });
+
+/** The parts of the job configuration a single render depends on. */
+export type PipelineConfig = Pick<
+  Configuration,
+  | "userAgent"
+  | "internalKey"
+  | "domain"
+  | "canonicalDomain"
+  | "snapshotHistory"
+  | "regressionGuard"
+  | "telegramBotToken"
+  | "telegramChatId"
+>;
+
+/** What a successful render produced, whether or not it was synced. */
+export interface RenderedSnapshot {
+  /** Sanitized HTML, exactly as stored. */
+  html: string;
+  finalUrl: string;
+  statusCode: number;
+  seoAnalysis: PageSeoAnalysis;
+  diagnostics?: RenderDiagnostics;
+  /** Set once the snapshot is in the store. */
+  objectKey: string | null;
+}
+
+export interface PipelineOutcome {
+  result: PipelineResult;
+  /** Null when the render (or its analysis) failed. */
+  snapshot: RenderedSnapshot | null;
+}
+
+// Where the Docker image installs Chrome.
+const DEFAULT_CHROME_PATH = "/usr/bin/chrome";
+
+export async function launchBrowser(
+  executablePath: string = DEFAULT_CHROME_PATH,
+): Promise<Browser> {
+  try {
+    const browser = await puppeteer.launch({
+      executablePath,
+      args: [
+        "--no-sandbox",
+        "--disable-setuid-sandbox",
+        // "--disable-gpu",
+        "--disable-dev-shm-usage",
+        "--disable-extensions",
+        "--no-first-run",
+        "--disable-background-networking",
+      ],
+    });
+    logger.info("Browser launched successfully");
+    return browser;
+  } catch (e) {
+    logger.error(`Failed to launch browser`, e);
+    throw e;
+  }
+}
+
+/** File name (without extension) for a page's local snapshot files. */
+export function snapshotFileStem(
+  url: string,
+  variant: string | undefined,
+): string {
+  return (
+    (extractPathFromUrl(url)
+      .replace(/^\//, "")
+      .replace(/[^a-zA-Z0-9._-]+/g, "_") || "index") +
+    (variant ? `.${variant}` : "")
+  );
+}
+
+/**
+ * Render one URL with one render profile: render (retrying a thin loading
+ * shell once), sanitize, analyse, and — when a store is given — sync the
+ * snapshot. Shared by the batch job and the render server.
+ */
+export async function runPipeline({
+  pipelineNumber,
+  urlToRender,
+  profile,
+  cacheTtl,
+  waitSelectors,
+  robotsTxt,
+  config,
+  browser,
+  assetCache,
+  requestStats,
+  snapshotDir,
+  store,
+}: {
+  pipelineNumber: number;
+  urlToRender: string;
+  profile: RenderProfile;
+  cacheTtl: number;
+  // Selectors the page must contain before it's snapshotted (PATHS_LIST)
+  waitSelectors?: string[];
+  // The site's robots.txt, for the analysis' allow/disallow verdict
+  robotsTxt?: RobotsTxtCheck | null;
+  config: PipelineConfig;
+  browser: Browser;
+  assetCache: AssetCache | null;
+  requestStats: RequestStats;
+  snapshotDir: string | null;
+  // Null when SKIP_CACHE_SYNC is true
+  store: SnapshotStore | null;
+}): Promise<PipelineOutcome> {
+  const variant = renderVariant(profile);
+  // Log label: the path, tagged with the profile for non-default variants.
+  const path = variant
+    ? `${extractPathFromUrl(urlToRender)} [${variant}]`
+    : extractPathFromUrl(urlToRender);
+  const userAgent = profile.userAgent ?? config.userAgent;
+  const result: PipelineResult = {
+    url: urlToRender,
+    profile: variant,
+    isRendered: false,
+    isCachedToR2: false,
+  };
+  logger.info(
+    `[${pipelineNumber}] Processing ${urlToRender}${variant ? ` (${variant} profile)` : ""}`,
+  );
+
+  // A near-empty render usually means the snapshot caught the SPA's loading
+  // shell (readiness heuristics can fire while a starved renderer still holds
+  // the route's Suspense fallback). Retry once with widened stability
+  // windows; if the content is still thin after that, cache it as-is — the
+  // page may just be genuinely minimal. This is a render-quality signal only;
+  // the soft-404 verdict (noindex + wording, or the status-code hint) is
+  // computed separately and never triggers a retry.
+  const MAX_CONTENT_ATTEMPTS = 2;
+  let renderResult: RenderResult | null = null;
+  let preparedHtml = "";
+  let dataUrlMap = new Map<string, string>();
+  let sanitizedHtml = "";
+  let sanitizeFellBack = false;
+  let seoAnalysisResult: PageSeoAnalysis | null = null;
+
+  for (let attempt = 1; attempt <= MAX_CONTENT_ATTEMPTS; attempt++) {
+    const renderer = RenderEngine.register({
+      targetUrl: urlToRender,
+      browser,
+      userAgent,
+      profile,
+      internalKey: config.internalKey,
+      // Renders target the origin host directly, but the page's own absolute
+      // URLs hit the customer domain (behind the rate-limiting Fly proxy) —
+      // those requests need the key too.
+      internalKeyHosts: [config.domain, config.canonicalDomain],
+      extendedStability: attempt > 1,
+      waitSelectors,
+      assetCache: assetCache ?? undefined,
+      requestStats,
+    });
+
+    try {
+      renderResult = await renderer.renderPage();
+      logger.info(`${INDENT}${INDENT}↳ ${path} - rendering completed`);
+    } catch (e) {
+      logger.error(`${INDENT}${INDENT}↳ ${path} - rendering failed`, e);
+      result.failure = toFailureDetail(e);
+      return { result, snapshot: null };
+    }
+
+    // Swap any oversized base64 data URLs for short placeholder tokens so they
+    // don't trigger node-html-parser's regex stack overflow. The originals are
+    // restored after sanitization, before the HTML is persisted.
+    ({ html: preparedHtml, urlMap: dataUrlMap } = extractOversizedDataUrls(
+      renderResult.html,
+    ));
+    if (dataUrlMap.size > 0) {
+      logger.info(
+        `${INDENT}${INDENT}↳ ${path} - stashed ${dataUrlMap.size} oversized data URL(s) before parsing (${renderResult.html.length} → ${preparedHtml.length} bytes)`,
+      );
+    }
+
+    // Sanitize rendered HTML: fix metadata, remove noise, inject missing tags
+    try {
+      sanitizedHtml = sanitizeHtml({
+        html: preparedHtml,
+        url: renderResult.finalUrl,
+        canonicalDomain: config.canonicalDomain,
+      });
+      sanitizeFellBack = false;
+      logger.debug(`Sanitized HTML: ${sanitizedHtml}`);
+    } catch (e) {
+      logger.error(
+        `${INDENT}${INDENT}↳ ${path} - HTML sanitization failed fallback to original HTML`,
+        e,
+      );
+      sanitizedHtml = preparedHtml;
+      sanitizeFellBack = true;
+    }
+    logger.info(`${INDENT}${INDENT}↳ ${path} - HTML sanitized`);
+
+    try {
+      const analyzer = SeoAnalyzer.register({
+        html: sanitizedHtml,
+        url: renderResult.finalUrl,
+        statusCode: renderResult.statusCode,
+        xRobotsTag: renderResult.xRobotsTag ?? null,
+        robotsTxt,
+        renderMetrics: {
+          latencyMs: renderResult.diagnostics?.durationMs,
+          redirectHops: renderResult.redirectHops,
+          htmlBytes: Buffer.byteLength(renderResult.html, "utf8"),
+        },
+      });
+      seoAnalysisResult = analyzer.analyze();
+      logger.info(`${INDENT}${INDENT}↳ ${path} - SEO analysis completed`);
+    } catch (e) {
+      logger.error(`${INDENT}${INDENT}↳ ${path} - SEO analysis failed`, e);
+      result.failure = { reason: "unknown" };
+      return { result, snapshot: null };
+    }
+
+    if (
+      !looksLikeFailedRender({
+        title: seoAnalysisResult.title,
+        wordCount: seoAnalysisResult.wordCount,
+        h1Count: seoAnalysisResult.h1Count,
+      })
+    ) {
+      break;
+    }
+    if (attempt < MAX_CONTENT_ATTEMPTS) {
+      logger.warn(
+        `${INDENT}${INDENT}↳ ${path} - thin render (${seoAnalysisResult.wordCount} words), retrying with extended stability windows`,
+      );
+    }
+  }
+
+  if (!renderResult || !seoAnalysisResult) {
+    return { result, snapshot: null };
+  }
+  const objectKey = await buildSnapshotObjectKey({
+    targetUrl: urlToRender,
+    variant,
+  });
+  if (
+    looksLikeFailedRender({
+      title: seoAnalysisResult.title,
+      wordCount: seoAnalysisResult.wordCount,
+      h1Count: seoAnalysisResult.h1Count,
+    })
+  ) {
+    // A customer-side outage (blank page, broken data) must not replace a
+    // good snapshot: keep the live one and report the page as failed.
+    const keepLive =
+      store &&
+      (await liveSnapshotLooksHealthy(store, objectKey).catch((e) => {
+        logger.warn(
+          `${INDENT}${INDENT}↳ ${path} - failed to check the stored snapshot`,
+          e,
+        );
+        return false;
+      }));
+    if (keepLive) {
+      logger.warn(
+        `${INDENT}${INDENT}↳ ${path} - thin render persisted after retry (${seoAnalysisResult.wordCount} words), keeping the healthy stored snapshot`,
+      );
+      result.failure = { reason: "thin_render_blocked" };
+      return { result, snapshot: null };
+    }
+    logger.warn(
+      `${INDENT}${INDENT}↳ ${path} - thin render persisted after retry (${seoAnalysisResult.wordCount} words), caching as-is`,
+    );
+  }
+
+  // Restore the stashed data URLs into the final HTML before persistence.
+  const finalSanitizedHtml = restoreDataUrls(sanitizedHtml, dataUrlMap);
+
+  // Compare with the live snapshot. A render that lost most of its content
+  // (or its title, H1, canonical or indexability) keeps the live one. The
+  // HTML compared is what would replace it, as uploaded.
+  if (store && config.regressionGuard) {
+    const verdict = await checkForRegression({
+      store,
+      objectKey,
+      url: renderResult.finalUrl,
+      current: { analysis: seoAnalysisResult, html: finalSanitizedHtml },
+      thresholds: config.regressionGuard,
+    }).catch((e) => {
+      logger.warn(
+        `${INDENT}${INDENT}↳ ${path} - regression check against the stored snapshot failed`,
+        e,
+      );
+      return null;
+    });
+    if (verdict && verdict.regressions.length > 0) {
+      logger.warn(
+        `${INDENT}${INDENT}↳ ${path} - render regressed against the stored snapshot (${verdict.regressions.join(", ")}; ${Math.round(verdict.wordCountDrop * 100)}% fewer words, ${Math.round(verdict.structuralSimilarity * 100)}% structural similarity), keeping it`,
+      );
+      result.failure = {
+        reason: "regression_blocked",
+        regressions: verdict.regressions,
+      };
+      return { result, snapshot: null };
+    }
+  }
+
+  result.isRendered = true;
+  result.renderDurationMs = renderResult.diagnostics?.durationMs;
+  result.seoScore = seoAnalysisResult.score;
+  result.seoTopIssues = topSeoIssueIds(seoAnalysisResult.issues);
+  result.seoIndexable = seoAnalysisResult.indexable;
+  result.seoIndexableReason = seoAnalysisResult.indexableReason;
+  applySeoReportFields(result, seoAnalysisResult);
+
+  // Detect SEO metadata lost during sanitization. Both inputs carry the same
+  // placeholders, so property-presence comparisons stay accurate.
+  let lostProperties: string[] = [];
+  try {
+    const metadataLoss = detectMetadataLoss(preparedHtml, sanitizedHtml);
+    lostProperties = metadataLoss.lostProperties;
+    if (metadataLoss.lostProperties.length > 0) {
+      logger.warn(
+        `${INDENT}${INDENT}↳ ${path} - SEO metadata lost during sanitization: ${metadataLoss.lostProperties.join(", ")}`,
+        { originalHtml: renderResult.html, sanitizedHtml },
+      );
+
+      if (config.telegramBotToken && config.telegramChatId) {
+        try {
+          await sendTelegramMessage({
+            botToken: config.telegramBotToken,
+            chatId: config.telegramChatId,
+            message: `⚠️ SEO metadata lost during sanitization\n\nJob ID: ${escapeMarkdownV2(process.env.CLOUD_RUN_EXECUTION ?? "")}\nURL: ${escapeMarkdownV2(urlToRender)}\nPath: ${escapeMarkdownV2(path)}\nLost: ${escapeMarkdownV2(metadataLoss.lostProperties.join(", "))}`,
+          });
+        } catch (e) {
+          logger.error(`Failed to send metadata loss alert to Telegram`, e);
+        }
+      }
+    }
+  } catch (e) {
+    logger.error(
+      `${INDENT}${INDENT}↳ ${path} - SEO metadata loss detection failed`,
+      e,
+    );
+  }
+
+  const sanitizerReport: SanitizerReport = {
+    inputBytes: Buffer.byteLength(renderResult.html, "utf8"),
+    outputBytes: Buffer.byteLength(finalSanitizedHtml, "utf8"),
+    stashedDataUrls: dataUrlMap.size,
+    fellBack: sanitizeFellBack,
+    lostProperties,
+  };
+  const snapshot: RenderedSnapshot = {
+    html: finalSanitizedHtml,
+    finalUrl: renderResult.finalUrl,
+    statusCode: renderResult.statusCode,
+    seoAnalysis: seoAnalysisResult,
+    diagnostics: renderResult.diagnostics,
+    objectKey: null,
+  };
+
+  if (snapshotDir) {
+    // Local testing aid: mirror the snapshot that would be persisted into the
+    // per-run output directory. Never fails the pipeline.
+    const fileName = `${snapshotFileStem(urlToRender, variant)}.html`;
+    try {
+      await writeFile(join(snapshotDir, fileName), finalSanitizedHtml);
+      logger.info(
+        `${INDENT}${INDENT}↳ ${path} - snapshot written to ${join(snapshotDir, fileName)}`,
+      );
+    } catch (e) {
+      logger.warn(`${INDENT}${INDENT}↳ ${path} - failed to write snapshot`, e);
+    }
+  }
+
+  // Skip caching if SKIP_CACHE_SYNC is true
+  if (!store) {
+    return { result, snapshot };
+  }
+
+  // Upload snapshot to R2
+  const r2Loader = R2Loader.register({
+    targetUrl: urlToRender,
+    html: finalSanitizedHtml,
+    seoAnalysis: seoAnalysisResult,
+    userAgent,
+    diagnostics: renderResult.diagnostics,
+    store,
+    cacheTtl,
+    variant,
+    sanitizerReport,
+    historySize: config.snapshotHistory,
+  });
+  const r2UploadResult = await r2Loader.uploadR2Object();
+  result.isCachedToR2 = r2UploadResult.r2Synced;
+  result.isUnchanged = r2UploadResult.unchanged;
+  snapshot.objectKey = r2UploadResult.objectKey;
+  result.objectKey = r2UploadResult.objectKey ?? undefined;
+  result.digest = r2UploadResult.digest ?? undefined;
+  result.contentLength = r2UploadResult.contentLength ?? undefined;
+  result.cacheTtl = cacheTtl;
+
+  if (!r2UploadResult.r2Synced) {
+    logger.error(
+      `${INDENT}${INDENT}↳ ${path} - uploading snapshot to R2 failed`,
+    );
+    return { result, snapshot };
+  }
+  logger.info(
+    r2UploadResult.unchanged
+      ? `${INDENT}${INDENT}↳ ${path} - snapshot unchanged, R2 metadata refreshed (objectKey: ${r2UploadResult.objectKey})`
+      : `${INDENT}${INDENT}↳ ${path} - snapshot uploaded to R2 (objectKey: ${r2UploadResult.objectKey})`,
+  );
+  return { result, snapshot };
+}
@@ -1,8 +1,18 @@
+import type { RegressionCheck } from "./regression-guard";
+
 export const PRERENDER_FAILURE_CODES = [
   "fetch_error",
   "too_many_redirects",
   "navigation_loop",
   "sync_failed",
+  // A thin render (looksLikeFailedRender) that would have replaced a healthy
+  // stored snapshot; the stored one was kept.
+  "thin_render_blocked",
+  // The render regressed past REGRESSION_GUARD's thresholds against the live
+  // snapshot, which was kept.
+  "regression_blocked",
+  // Never started: the job's time budget ran out first (JOB_DEADLINE_SECONDS).
+  "deadline_exceeded",
   "unknown",
 ] as const;
 export type PrerenderFailureCode = (typeof PRERENDER_FAILURE_CODES)[number];
@@ -11,6 +21,8 @@ export interface PrerenderFailureDetail {
   reason: PrerenderFailureCode;
   /** HTTP status of the main document — only set for fetch_error. */
   status?: number;
+  /** What regressed — only set for regression_blocked. */
+  regressions?: RegressionCheck[];
 }
 
 export interface PrerenderFailedPath {
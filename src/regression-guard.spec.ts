@@ -0,0 +1,177 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  checkForRegression,
+  compareSnapshots,
+  DEFAULT_REGRESSION_THRESHOLDS,
+  structuralSimilarity,
+  type ComparedPage,
+} from "./regression-guard";
+import { LocalFsStore } from "./snapshot-store";
+
+const KEY = "v1/example.com/about_abf24d57a306f5a7.html";
+
+const ARTICLE_HTML = `<html><head><title>About us</title>
+<link rel="canonical" href="https://example.com/about"></head>
+<body><h1>About us</h1><ul><li>One</li><li>Two</li><li>Three</li></ul>
+<p>${"We build things for people. ".repeat(20)}</p></body></html>`;
+
+function page(
+  analysis: Partial<ComparedPage["analysis"]>,
+  html = ARTICLE_HTML,
+): ComparedPage {
+  return {
+    analysis: {
+      wordCount: 120,
+      title: "About us",
+      h1Count: 1,
+      canonicalUrl: "https://example.com/about",
+      indexable: true,
+      ...analysis,
+    },
+    html,
+  };
+}
+
+describe("structuralSimilarity", () => {
+  it("is 1 for the same structure and drops as elements go missing", () => {
+    expect(structuralSimilarity(ARTICLE_HTML, ARTICLE_HTML)).toBe(1);
+    expect(
+      structuralSimilarity(
+        ARTICLE_HTML,
+        "<html><body><div>Loading…</div></body></html>",
+      ),
+    ).toBe(0);
+    expect(
+      structuralSimilarity(
+        "<body><ul><li>a</li><li>b</li></ul></body>",
+        "<body><ul><li>a</li></ul></body>",
+      ),
+    ).toBeCloseTo(2 / 3);
+  });
+});
+
+describe("compareSnapshots", () => {
+  it("passes a render that changed within the thresholds", () => {
+    expect(
+      compareSnapshots({
+        previous: page({}),
+        current: page({ wordCount: 100, title: "About" }),
+      }),
+    ).toEqual({
+      regressions: [],
+      wordCountDrop: 20 / 120,
+      structuralSimilarity: 1,
+    });
+  });
+
+  it("flags every lost signal", () => {
+    const { regressions } = compareSnapshots({
+      previous: page({}),
+      current: page(
+        {
+          wordCount: 10,
+          title: " ",
+          h1Count: 0,
+          canonicalUrl: undefined,
+          indexable: false,
+        },
+        "<html><body><div>Oops</div></body></html>",
+      ),
+    });
+    expect(regressions).toEqual([
+      "word_count_drop",
+      "title_lost",
+      "h1_lost",
+      "canonical_lost",
+      "indexability_lost",
+      "structure_changed",
+    ]);
+  });
+
+  it("applies the configured thresholds", () => {
+    const previous = page({});
+    const current = page({ wordCount: 60 });
+    expect(compareSnapshots({ previous, current }).regressions).toEqual([]);
+    expect(
+      compareSnapshots({
+        previous,
+        current,
+        thresholds: { ...DEFAULT_REGRESSION_THRESHOLDS, maxWordCountDrop: 0.5 },
+      }).regressions,
+    ).toEqual(["word_count_drop"]);
+  });
+
+  it("doesn't flag what the live snapshot never had", () => {
+    expect(
+      compareSnapshots({
+        previous: page({ title: undefined, h1Count: 0, indexable: false }),
+        current: page({ title: undefined, h1Count: 0, indexable: false }),
+      }).regressions,
+    ).toEqual([]);
+  });
+});
+
+describe("checkForRegression", () => {
+  let rootDir: string;
+  let store: LocalFsStore;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "regression-guard-"));
+    store = LocalFsStore.register({ rootDir });
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  const check = (current: ComparedPage) =>
+    checkForRegression({
+      store,
+      objectKey: KEY,
+      url: "https://example.com/about",
+      current,
+      thresholds: DEFAULT_REGRESSION_THRESHOLDS,
+    });
+
+  it("has nothing to compare without a live snapshot", async () => {
+    expect(await check(page({}))).toBeNull();
+  });
+
+  it("analyzes the live snapshot, taking indexability from its metadata", async () => {
+    await store.put(KEY, ARTICLE_HTML, {
+      contentType: "text/html; charset=utf-8",
+      metadata: { seoIndexable: "false" },
+    });
+
+    const verdict = await check(
+      page(
+        { wordCount: 3, title: undefined, indexable: false },
+        "<html><body><h1>About us</h1><p>Come back soon</p></body></html>",
+      ),
+    );
+
+    // indexable: false on both sides, so losing it isn't flagged
+    expect(verdict?.regressions).toEqual(["word_count_drop", "title_lost"]);
+    expect(verdict?.structuralSimilarity).toBeCloseTo(2 / 6);
+  });
+
+  it("compares the uploaded HTML, inline images and all, like for like", async () => {
+    const image = `data:image/png;base64,${"A".repeat(20_000)}`;
+    const html = ARTICLE_HTML.replace(
+      "<h1>About us</h1>",
+      `<h1>About us</h1><img src="${image}" alt="Team">`,
+    );
+    await store.put(KEY, html, {
+      contentType: "text/html; charset=utf-8",
+      metadata: { seoIndexable: "true" },
+    });
+
+    expect(await check(page({}, html))).toMatchObject({
+      regressions: [],
+      structuralSimilarity: 1,
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { parse } from "node-html-parser";
+import { extractOversizedDataUrls } from "./html-sanitizer";
+import { SeoAnalyzer } from "./seo-analyzer/index";
+import type { PageSeoAnalysis } from "./seo-analyzer/type";
+import type { SnapshotStore } from "./snapshot-store";
+
+/** How far a new render may fall behind the live snapshot before it's kept out. */
+export interface RegressionThresholds {
+  // Largest tolerated word-count drop, as a fraction of the live snapshot's
+  maxWordCountDrop: number;
+  // Smallest tolerated structural similarity (0–1, see structuralSimilarity)
+  minStructuralSimilarity: number;
+}
+
+export const DEFAULT_REGRESSION_THRESHOLDS: RegressionThresholds = {
+  maxWordCountDrop: 0.8,
+  minStructuralSimilarity: 0.3,
+};
+
+export type RegressionCheck =
+  | "word_count_drop"
+  | "title_lost"
+  | "h1_lost"
+  | "canonical_lost"
+  | "indexability_lost"
+  | "structure_changed";
+
+export type ComparedPage = {
+  analysis: Pick<
+    PageSeoAnalysis,
+    "wordCount" | "title" | "h1Count" | "canonicalUrl" | "indexable"
+  >;
+  html: string;
+};
+
+export interface RegressionVerdict {
+  // Empty when the new render may replace the live snapshot
+  regressions: RegressionCheck[];
+  // Fraction of the live snapshot's words the new render lost (0 when it grew)
+  wordCountDrop: number;
+  structuralSimilarity: number;
+}
+
+function countElements(html: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const root = parse(html);
+  const body = root.querySelector("body") ?? root;
+  for (const element of body.querySelectorAll("*")) {
+    const tag = element.rawTagName?.toLowerCase();
+    if (tag) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * How alike two pages' bodies are built, 0–1: the weighted Jaccard index of
+ * their per-tag element counts. A page that lost its article, list or grid
+ * scores low even when its title and headings survived.
+ */
+export function structuralSimilarity(
+  previousHtml: string,
+  currentHtml: string,
+): number {
+  const previous = countElements(previousHtml);
+  const current = countElements(currentHtml);
+  let shared = 0;
+  let total = 0;
+  for (const tag of new Set([...previous.keys(), ...current.keys()])) {
+    const a = previous.get(tag) ?? 0;
+    const b = current.get(tag) ?? 0;
+    shared += Math.min(a, b);
+    total += Math.max(a, b);
+  }
+  return total === 0 ? 1 : shared / total;
+}
+
+/** Compare a new render with the live snapshot it would replace. */
+export function compareSnapshots({
+  previous,
+  current,
+  thresholds = DEFAULT_REGRESSION_THRESHOLDS,
+}: {
+  previous: ComparedPage;
+  current: ComparedPage;
+  thresholds?: RegressionThresholds;
+}): RegressionVerdict {
+  const regressions: RegressionCheck[] = [];
+  const before = previous.analysis;
+  const after = current.analysis;
+
+  const wordCountDrop =
+    before.wordCount > 0
+      ? Math.max(0, (before.wordCount - after.wordCount) / before.wordCount)
+      : 0;
+  if (wordCountDrop >= thresholds.maxWordCountDrop) {
+    regressions.push("word_count_drop");
+  }
+  if (before.title?.trim() && !after.title?.trim()) {
+    regressions.push("title_lost");
+  }
+  if (before.h1Count > 0 && after.h1Count === 0) regressions.push("h1_lost");
+  if (before.canonicalUrl && !after.canonicalUrl) {
+    regressions.push("canonical_lost");
+  }
+  if (before.indexable && !after.indexable) {
+    regressions.push("indexability_lost");
+  }
+  const similarity = structuralSimilarity(previous.html, current.html);
+  if (similarity < thresholds.minStructuralSimilarity) {
+    regressions.push("structure_changed");
+  }
+  return { regressions, wordCountDrop, structuralSimilarity: similarity };
+}
+
+/**
+ * Fetch the live snapshot at `objectKey` and compare the new render with it.
+ * `current.html` is the render as it would be uploaded, so both sides go
+ * through the same data-URL stash. Null when there's no live snapshot to
+ * protect.
+ */
+export async function checkForRegression({
+  store,
+  objectKey,
+  url,
+  current,
+  thresholds,
+}: {
+  store: SnapshotStore;
+  objectKey: string;
+  url: string;
+  current: ComparedPage;
+  thresholds: RegressionThresholds;
+}): Promise<RegressionVerdict | null> {
+  const stored = await store.get(objectKey);
+  if (!stored?.body) return null;
+  // Same data-URL stash as the pipeline, so large inline images don't trip
+  // the parser.
+  const { html } = extractOversizedDataUrls(stored.body);
+  // Snapshots are only stored for 2xx/3xx renders. The response headers
+  // (X-Robots-Tag) aren't stored, so indexability comes from the snapshot's
+  // metadata when it has it.
+  const analysis = SeoAnalyzer.register({
+    html,
+    url,
+    statusCode: 200,
+    xRobotsTag: null,
+  }).analyze();
+  const storedIndexable = stored.metadata.seoindexable;
+  if (storedIndexable !== undefined) {
+    analysis.indexable = storedIndexable === "true";
+  }
+  return compareSnapshots({
+    previous: { analysis, html },
+    current: {
+      analysis: current.analysis,
+      html: extractOversizedDataUrls(current.html).html,
+    },
+    thresholds,
+  });
+}
@@ -9,6 +9,7 @@ import { getHostname } from "tldts";
 import { AssetCache } from "./asset-cache";
 import { RequestStats } from "./request-stats";
 import { AppLogger } from "./logger";
+import { DESKTOP_RENDER_PROFILE, type RenderProfile } from "./render-profile";
 import { RenderTracer } from "./render-tracer";
 import { RenderFailureError } from "./prerender-failure";
 
@@ -32,6 +33,9 @@ const CACHEABLE_ASSET_TYPES = new Set([
 // Cap diagnostics lists so a pathological page (e.g. an ad script erroring in a
 // loop) can't grow them unbounded.
 const DIAG_MAX_ENTRIES = 50;
+// Per-selector cap on waiting for a PATHS_LIST wait selector after readiness.
+// The 65s render timeout still bounds the whole render.
+const WAIT_SELECTOR_TIMEOUT_MS = 10_000;
 
 export type RenderDiagnostics = {
   // What ended the readiness wait: app_signaled, network_and_dom_stable,
@@ -48,11 +52,14 @@ export type RenderDiagnostics = {
 };
 
 export interface RenderResult {
+  // The URL as requested; redirects are followed to `finalUrl`
   url: string;
   html: string;
   statusCode: number;
   xRobotsTag?: string | null;
   finalUrl: string;
+  // HTTP redirects followed before the final response
+  redirectHops?: number;
   diagnostics?: RenderDiagnostics;
 }
 
@@ -66,10 +73,11 @@ type DiagnosticsCollector = {
 };
 
 // R2 caps total object metadata at 8192 bytes, and values must be strings.
-// Keep the diagnostics blobs well under that (worst case here is ~3KB across
-// the three lists, leaving headroom for the url/userAgent/seo* keys). Counts
-// are stored separately so a trimmed list stays distinguishable from a
-// complete one.
+// Keep the diagnostics blobs well under that (worst case here is ~3.8KB across
+// the four lists, leaving headroom for the url/userAgent/seo* keys); on
+// stores with a tighter cap R2Loader drops the lists altogether. Counts are
+// stored separately so a trimmed list stays distinguishable from a complete
+// one.
 export function renderDiagnosticsToMetadata(
   d: RenderDiagnostics,
 ): Record<string, string> {
@@ -136,9 +144,11 @@ export class RenderEngine {
   private readonly _targetHost: string;
   private readonly _browser: Browser;
   private readonly _userAgent: string;
+  private readonly _profile: RenderProfile;
   private readonly _internalKey: string | null;
   private readonly _internalKeyHosts: Set<string>;
   private readonly _stabilityMultiplier: number;
+  private readonly _waitSelectors: string[];
   private readonly _assetCache: AssetCache | null;
   private readonly _requestStats: RequestStats | null;
   private readonly _logger: AppLogger;
@@ -147,20 +157,28 @@ export class RenderEngine {
     targetUrl,
     browser,
     userAgent,
+    profile,
     internalKey,
     internalKeyHosts,
     extendedStability,
+    waitSelectors,
     assetCache,
     requestStats,
   }: {
     targetUrl: string;
     browser: Browser;
     userAgent: string;
+    // Viewport and device emulation; desktop when omitted. The caller
+    // resolves the profile's user agent into `userAgent`.
+    profile?: RenderProfile;
     internalKey?: string;
     internalKeyHosts?: string[];
     // Widens the readiness quiet/stable windows 4x. Used when retrying a
     // render whose first attempt produced a loading-shell snapshot.
     extendedStability?: boolean;
+    // CSS selectors to wait for once the page is otherwise ready; a selector
+    // that never appears is logged and the snapshot is taken anyway.
+    waitSelectors?: string[];
     // Job-wide cache of the site's static assets; repeat requests are
     // answered from memory instead of re-hitting the customer's origin.
     assetCache?: AssetCache;
@@ -171,9 +189,11 @@ export class RenderEngine {
       targetUrl,
       browser,
       userAgent,
+      profile ?? DESKTOP_RENDER_PROFILE,
       internalKey ?? null,
       internalKeyHosts ?? [],
       extendedStability ?? false,
+      waitSelectors ?? [],
       assetCache ?? null,
       requestStats ?? null,
     );
@@ -183,9 +203,11 @@ export class RenderEngine {
     targetUrl: string,
     browser: Browser,
     userAgent: string,
+    profile: RenderProfile,
     internalKey: string | null,
     internalKeyHosts: string[],
     extendedStability: boolean,
+    waitSelectors: string[],
     assetCache: AssetCache | null,
     requestStats: RequestStats | null,
   ) {
@@ -193,6 +215,7 @@ export class RenderEngine {
     this._targetHost = getHostname(targetUrl) ?? "";
     this._browser = browser;
     this._userAgent = userAgent.trim();
+    this._profile = profile;
     this._internalKey = internalKey;
     this._assetCache = assetCache;
     this._requestStats = requestStats;
@@ -206,6 +229,7 @@ export class RenderEngine {
         ),
     );
     this._stabilityMultiplier = extendedStability ? 4 : 1;
+    this._waitSelectors = waitSelectors;
     this._logger = AppLogger.register({ prefix: "render-engine" });
   }
 
@@ -388,7 +412,12 @@ export class RenderEngine {
     tracer: RenderTracer | null,
     diagnostics: DiagnosticsCollector,
   ): Promise<RenderResult> {
-    await page.setViewport({ width: 1280, height: 720 });
+    await page.setViewport({
+      ...this._profile.viewport,
+      deviceScaleFactor: this._profile.deviceScaleFactor,
+      isMobile: this._profile.isMobile,
+      hasTouch: this._profile.hasTouch,
+    });
     await page.setUserAgent({ userAgent: this._userAgent });
     await page.setExtraHTTPHeaders({
       "Accept-Language": "en-US,en;q=0.9",
@@ -544,6 +573,7 @@ export class RenderEngine {
       firstPartyReqPending,
     });
     this._logger.debug(`[Prerender] Snapshot triggered by: ${readyReason}`);
+    await this.waitForSelectors(page);
     if (!response) {
       throw new Error(`Failed to navigate to ${this._url}`);
     }
@@ -587,6 +617,7 @@ export class RenderEngine {
       statusCode,
       xRobotsTag,
       finalUrl,
+      redirectHops: response.request().redirectChain().length,
       diagnostics: {
         readyReason,
         durationMs: Date.now() - diagnostics.startedAt,
@@ -598,6 +629,20 @@ export class RenderEngine {
     };
   }
 
+  private async waitForSelectors(page: Page): Promise<void> {
+    for (const selector of this._waitSelectors) {
+      try {
+        await page.waitForSelector(selector, {
+          timeout: WAIT_SELECTOR_TIMEOUT_MS,
+        });
+      } catch (e) {
+        this._logger.warn(
+          `[Prerender] Wait selector "${selector}" not found on ${this._url}: ${e instanceof Error ? e.message : String(e)}`,
+        );
+      }
+    }
+  }
+
   private async maybeCacheAsset(res: HTTPResponse): Promise<void> {
     const cache = this._assetCache;
     if (!cache) {
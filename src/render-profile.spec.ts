@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  DESKTOP_RENDER_PROFILE,
+  parseRenderProfiles,
+  renderVariant,
+} from "./render-profile";
+
+describe("parseRenderProfiles", () => {
+  it("resolves built-in profile names in order", () => {
+    const profiles = parseRenderProfiles("mobile, desktop");
+    expect(profiles.map((profile) => profile.name)).toEqual([
+      "mobile",
+      "desktop",
+    ]);
+    expect(profiles[0]?.isMobile).toBe(true);
+    expect(profiles[1]).toEqual(DESKTOP_RENDER_PROFILE);
+  });
+
+  it("rejects unknown built-in names", () => {
+    expect(() => parseRenderProfiles("desktop,tablet")).toThrow(/tablet/);
+  });
+
+  it("builds custom profiles from JSON", () => {
+    const [tablet] = parseRenderProfiles(
+      JSON.stringify([
+        {
+          name: "tablet",
+          viewport: { width: 820, height: 1180 },
+          deviceScaleFactor: 2,
+          isMobile: true,
+          hasTouch: true,
+        },
+      ]),
+    );
+    expect(tablet).toEqual({
+      name: "tablet",
+      viewport: { width: 820, height: 1180 },
+      deviceScaleFactor: 2,
+      isMobile: true,
+      hasTouch: true,
+      userAgent: undefined,
+    });
+  });
+
+  it("lets a JSON entry override part of a built-in profile", () => {
+    const [mobile] = parseRenderProfiles(
+      JSON.stringify([{ name: "mobile", userAgent: "Custom/1.0" }]),
+    );
+    expect(mobile?.userAgent).toBe("Custom/1.0");
+    expect(mobile?.viewport).toEqual({ width: 412, height: 915 });
+  });
+
+  it("requires a viewport for custom profiles", () => {
+    expect(() => parseRenderProfiles('[{"name":"tablet"}]')).toThrow(
+      /viewport/,
+    );
+  });
+
+  it("rejects names that can't go into an object key", () => {
+    expect(() =>
+      parseRenderProfiles(
+        '[{"name":"Big Screen","viewport":{"width":1920,"height":1080}}]',
+      ),
+    ).toThrow(/slug/);
+  });
+
+  it("rejects names that would collide with snapshot history keys", () => {
+    expect(() =>
+      parseRenderProfiles(
+        '[{"name":"history-1","viewport":{"width":1920,"height":1080}}]',
+      ),
+    ).toThrow(/history-/);
+    expect(
+      parseRenderProfiles(
+        '[{"name":"history","viewport":{"width":1920,"height":1080}}]',
+      ).map((profile) => profile.name),
+    ).toEqual(["history"]);
+  });
+
+  it("rejects repeated profiles", () => {
+    expect(() => parseRenderProfiles("mobile,mobile")).toThrow(/repeat/);
+  });
+});
+
+describe("renderVariant", () => {
+  it("leaves the default profile unsuffixed", () => {
+    expect(renderVariant(DESKTOP_RENDER_PROFILE)).toBeUndefined();
+    const [mobile] = parseRenderProfiles("mobile");
+    expect(mobile && renderVariant(mobile)).toBe("mobile");
+  });
+});
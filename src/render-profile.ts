@@ -0,0 +1,169 @@
+/**
+ * Device emulation for one snapshot variant of a page. Sites that serve
+ * different markup to mobile crawlers (Googlebot Smartphone) need a snapshot
+ * per profile; RENDER_PROFILES picks which ones a run renders.
+ */
+export interface RenderProfile {
+  /** Lowercase slug; names the variant in object keys, metadata and reports. */
+  name: string;
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+  /** Overrides USER_AGENT for this profile. */
+  userAgent?: string;
+}
+
+// Renders with this profile keep the unsuffixed object key the worker serves
+// today; every other profile writes a variant next to it.
+export const DEFAULT_RENDER_PROFILE_NAME = "desktop";
+
+const MOBILE_USER_AGENT =
+  "Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Mobile Safari/537.36";
+
+export const DESKTOP_RENDER_PROFILE: RenderProfile = {
+  name: DEFAULT_RENDER_PROFILE_NAME,
+  viewport: { width: 1280, height: 720 },
+  deviceScaleFactor: 1,
+  isMobile: false,
+  hasTouch: false,
+};
+
+// Matches the screen Googlebot Smartphone renders with.
+const MOBILE_RENDER_PROFILE: RenderProfile = {
+  name: "mobile",
+  viewport: { width: 412, height: 915 },
+  deviceScaleFactor: 2.625,
+  isMobile: true,
+  hasTouch: true,
+  userAgent: MOBILE_USER_AGENT,
+};
+
+const BUILT_IN_RENDER_PROFILES: Record<string, RenderProfile> = {
+  [DESKTOP_RENDER_PROFILE.name]: DESKTOP_RENDER_PROFILE,
+  [MOBILE_RENDER_PROFILE.name]: MOBILE_RENDER_PROFILE,
+};
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9-]+$/;
+// A variant key `<base>.history-1.html` would be the default profile's
+// history slot 1 (buildSnapshotHistoryKey).
+const RESERVED_PROFILE_NAME_PREFIX = "history-";
+
+/**
+ * The variant tag for a profile's snapshot: undefined for the default
+ * profile (whose snapshot keeps the canonical key), its name otherwise.
+ */
+export function renderVariant(profile: RenderProfile): string | undefined {
+  return profile.name === DEFAULT_RENDER_PROFILE_NAME
+    ? undefined
+    : profile.name;
+}
+
+/**
+ * The profiles one URL is rendered with: a PATHS_LIST entry's `profiles`
+ * narrows the run's RENDER_PROFILES, keeping their order.
+ */
+export function selectRenderProfiles(
+  profiles: RenderProfile[],
+  names: string[] | undefined,
+): RenderProfile[] {
+  return names
+    ? profiles.filter((profile) => names.includes(profile.name))
+    : profiles;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function parseProfileObject(raw: unknown, i: number): RenderProfile {
+  if (typeof raw !== "object" || raw === null) {
+    throw new Error(`RENDER_PROFILES[${i}] must be an object`);
+  }
+  const entry = raw as Partial<RenderProfile>;
+  if (
+    typeof entry.name !== "string" ||
+    !PROFILE_NAME_PATTERN.test(entry.name)
+  ) {
+    throw new Error(
+      `RENDER_PROFILES[${i}].name must be a lowercase slug (a-z, 0-9, -)`,
+    );
+  }
+  if (entry.name.startsWith(RESERVED_PROFILE_NAME_PREFIX)) {
+    throw new Error(
+      `RENDER_PROFILES[${i}].name must not start with "${RESERVED_PROFILE_NAME_PREFIX}", which snapshot history keys use`,
+    );
+  }
+  // A built-in name starts from the built-in profile, so overriding just the
+  // user agent of "mobile" doesn't require restating its viewport.
+  const base = BUILT_IN_RENDER_PROFILES[entry.name];
+  const viewport = entry.viewport ?? base?.viewport;
+  if (
+    !viewport ||
+    !isPositiveNumber(viewport.width) ||
+    !isPositiveNumber(viewport.height)
+  ) {
+    throw new Error(
+      `RENDER_PROFILES[${i}].viewport must have a positive width and height`,
+    );
+  }
+  const deviceScaleFactor =
+    entry.deviceScaleFactor ?? base?.deviceScaleFactor ?? 1;
+  if (!isPositiveNumber(deviceScaleFactor)) {
+    throw new Error(
+      `RENDER_PROFILES[${i}].deviceScaleFactor must be a positive number`,
+    );
+  }
+  const userAgent = entry.userAgent ?? base?.userAgent;
+  if (userAgent !== undefined && typeof userAgent !== "string") {
+    throw new Error(`RENDER_PROFILES[${i}].userAgent must be a string`);
+  }
+  return {
+    name: entry.name,
+    viewport: { width: viewport.width, height: viewport.height },
+    deviceScaleFactor,
+    isMobile: Boolean(entry.isMobile ?? base?.isMobile ?? false),
+    hasTouch: Boolean(entry.hasTouch ?? base?.hasTouch ?? false),
+    userAgent,
+  };
+}
+
+/**
+ * RENDER_PROFILES is either a comma-separated list of built-in profile names
+ * (`desktop,mobile`) or a JSON array of profile objects. The first profile is
+ * the primary one: the webhook's top-level counts describe it.
+ */
+export function parseRenderProfiles(raw: string): RenderProfile[] {
+  let profiles: RenderProfile[];
+  if (raw.trim().startsWith("[")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new Error("RENDER_PROFILES must be a valid JSON array");
+    }
+    profiles = (parsed as unknown[]).map(parseProfileObject);
+  } else {
+    profiles = raw
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean)
+      .map((name) => {
+        const profile = BUILT_IN_RENDER_PROFILES[name];
+        if (!profile) {
+          throw new Error(
+            `RENDER_PROFILES: unknown profile "${name}" (built-in: ${Object.keys(BUILT_IN_RENDER_PROFILES).join(", ")})`,
+          );
+        }
+        return profile;
+      });
+  }
+  if (profiles.length === 0) {
+    throw new Error("RENDER_PROFILES must name at least one profile");
+  }
+  const names = new Set(profiles.map((profile) => profile.name));
+  if (names.size !== profiles.length) {
+    throw new Error("RENDER_PROFILES must not repeat a profile name");
+  }
+  return profiles;
+}
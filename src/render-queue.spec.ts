@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { RenderQueue } from "./render-queue";
+import type { SitemapEntry } from "./sitemap-parser";
+
+function drain(queue: RenderQueue): string[] {
+  const urls: string[] = [];
+  for (let queued = queue.next(); queued; queued = queue.next()) {
+    urls.push(queued.url);
+  }
+  return urls;
+}
+
+function sitemapEntries(entries: SitemapEntry[]): Map<string, SitemapEntry> {
+  return new Map(entries.map((entry) => [entry.loc, entry]));
+}
+
+describe("RenderQueue", () => {
+  it("renders PATHS_LIST entries before sitemap-only URLs", () => {
+    const queue = RenderQueue.register({
+      urls: ["/blog", "/", "/about"],
+      pathPriorityMap: new Map([
+        ["/", undefined],
+        ["/about", undefined],
+      ]),
+      sitemapEntryMap: sitemapEntries([{ loc: "/blog", priority: 1 }]),
+    });
+    expect(drain(queue)).toEqual(["/", "/about", "/blog"]);
+  });
+
+  it("orders PATHS_LIST entries by their own priority, then listed order", () => {
+    const queue = RenderQueue.register({
+      urls: ["/a", "/b", "/c"],
+      pathPriorityMap: new Map([
+        ["/a", undefined],
+        ["/b", 0.9],
+        ["/c", undefined],
+      ]),
+      sitemapEntryMap: new Map(),
+    });
+    expect(drain(queue)).toEqual(["/b", "/a", "/c"]);
+  });
+
+  it("orders sitemap URLs by priority, then most recent lastmod", () => {
+    const queue = RenderQueue.register({
+      urls: ["/old", "/none", "/new", "/top", "/low"],
+      pathPriorityMap: new Map(),
+      sitemapEntryMap: sitemapEntries([
+        { loc: "/old", lastmod: "2024-01-01" },
+        { loc: "/none" },
+        { loc: "/new", lastmod: "2024-06-01T12:00:00Z" },
+        { loc: "/top", priority: 0.9, lastmod: "2020-01-01" },
+        { loc: "/low", priority: 0.1, lastmod: "2025-01-01" },
+      ]),
+    });
+    expect(drain(queue)).toEqual(["/top", "/new", "/old", "/none", "/low"]);
+  });
+
+  it("treats an unparsable lastmod like a missing one", () => {
+    const queue = RenderQueue.register({
+      urls: ["/bad", "/good"],
+      pathPriorityMap: new Map(),
+      sitemapEntryMap: sitemapEntries([
+        { loc: "/bad", lastmod: "yesterday" },
+        { loc: "/good", lastmod: "2024-01-01" },
+      ]),
+    });
+    expect(drain(queue)).toEqual(["/good", "/bad"]);
+  });
+
+  it("numbers positions from 1 in render order", () => {
+    const queue = RenderQueue.register({
+      urls: ["/x", "/y"],
+      pathPriorityMap: new Map(),
+      sitemapEntryMap: new Map(),
+    });
+    expect(queue.size).toBe(2);
+    expect(queue.next()).toEqual({ url: "/x", position: 1 });
+    expect(queue.next()).toEqual({ url: "/y", position: 2 });
+    expect(queue.next()).toBeNull();
+  });
+
+  it("drains the URLs not yet handed out", () => {
+    const queue = RenderQueue.register({
+      urls: ["/x", "/y", "/z"],
+      pathPriorityMap: new Map(),
+      sitemapEntryMap: new Map(),
+    });
+    queue.next();
+    expect(queue.drain()).toEqual(["/y", "/z"]);
+    expect(queue.next()).toBeNull();
+    expect(queue.drain()).toEqual([]);
+  });
+
+  it("appends discovered URLs once, behind the ranked ones", () => {
+    const queue = RenderQueue.register({
+      urls: ["/a", "/b"],
+      pathPriorityMap: new Map([["/a", undefined]]),
+      sitemapEntryMap: new Map(),
+    });
+    expect(queue.next()?.url).toBe("/a");
+    expect(queue.enqueue("/a")).toBe(false);
+    expect(queue.enqueue("/c")).toBe(true);
+    expect(queue.enqueue("/c")).toBe(false);
+    expect(queue.size).toBe(3);
+    expect(drain(queue)).toEqual(["/b", "/c"]);
+  });
+});
@@ -0,0 +1,111 @@
+import { DateTime } from "luxon";
+import type { SitemapEntry } from "./sitemap-parser";
+
+// sitemaps.org: "The default priority of a page is 0.5."
+const DEFAULT_PRIORITY = 0.5;
+
+export interface QueuedUrl {
+  url: string;
+  /** 1-based position in render order; used as the pipeline number in logs. */
+  position: number;
+}
+
+interface RankedUrl {
+  url: string;
+  explicit: boolean;
+  priority: number;
+  lastmodMs: number;
+  insertion: number;
+}
+
+function parseLastmod(lastmod: string | undefined): number {
+  if (!lastmod) return -Infinity;
+  const millis = DateTime.fromISO(lastmod).toMillis();
+  return Number.isFinite(millis) ? millis : -Infinity;
+}
+
+function compareRanked(a: RankedUrl, b: RankedUrl): number {
+  if (a.explicit !== b.explicit) return a.explicit ? -1 : 1;
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  if (a.lastmodMs !== b.lastmodMs) return b.lastmodMs > a.lastmodMs ? 1 : -1;
+  return a.insertion - b.insertion;
+}
+
+/**
+ * Render order for a run. When a job is time-boxed, whatever doesn't get
+ * rendered should be the least important pages rather than whatever happened
+ * to come last in the sitemap:
+ *   1. PATHS_LIST entries (by their own `priority`, then listed order),
+ *   2. sitemap URLs by <priority>, highest first,
+ *   3. then most recent <lastmod> first (missing or unparsable lastmod last).
+ * Ties keep their original order. URLs found by crawl discovery are appended
+ * behind everything already queued, so the crawl proceeds breadth-first.
+ */
+export class RenderQueue {
+  private readonly _urls: string[];
+  private readonly _known: Set<string>;
+  private _nextIndex = 0;
+
+  static register({
+    urls,
+    pathPriorityMap,
+    sitemapEntryMap,
+  }: {
+    urls: string[];
+    // Every PATHS_LIST URL, mapped to its per-path priority (if any).
+    pathPriorityMap: Map<string, number | undefined>;
+    sitemapEntryMap: Map<string, SitemapEntry>;
+  }): RenderQueue {
+    const ranked = urls.map((url, insertion): RankedUrl => {
+      const explicit = pathPriorityMap.has(url);
+      const sitemapEntry = sitemapEntryMap.get(url);
+      return {
+        url,
+        explicit,
+        priority:
+          (explicit ? pathPriorityMap.get(url) : sitemapEntry?.priority) ??
+          DEFAULT_PRIORITY,
+        lastmodMs: parseLastmod(sitemapEntry?.lastmod),
+        insertion,
+      };
+    });
+    ranked.sort(compareRanked);
+    return new RenderQueue(ranked.map((entry) => entry.url));
+  }
+
+  private constructor(urls: string[]) {
+    this._urls = urls;
+    this._known = new Set(urls);
+  }
+
+  /** Total number of URLs queued over the run. */
+  get size(): number {
+    return this._urls.length;
+  }
+
+  /** Next URL to render, or null when the queue is drained. */
+  next(): QueuedUrl | null {
+    const url = this._urls[this._nextIndex];
+    if (url === undefined) return null;
+    this._nextIndex++;
+    return { url, position: this._nextIndex };
+  }
+
+  /**
+   * Append a URL discovered mid-run. Returns false (and queues nothing) when
+   * the URL was already queued at some point.
+   */
+  enqueue(url: string): boolean {
+    if (this._known.has(url)) return false;
+    this._known.add(url);
+    this._urls.push(url);
+    return true;
+  }
+
+  /** Take every URL not yet handed out, leaving the queue empty. */
+  drain(): string[] {
+    const rest = this._urls.slice(this._nextIndex);
+    this._nextIndex = this._urls.length;
+    return rest;
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CACHE_TTL } from "./load-config";
+import { parseRenderProfiles } from "./render-profile";
+import {
+  RenderRequestError,
+  bearerTokenMatches,
+  parseRenderRequest,
+} from "./render-server";
+
+const profiles = parseRenderProfiles("desktop,mobile");
+const allowedDomains = ["*.example.com"];
+
+describe("parseRenderRequest", () => {
+  it("fills defaults from the URL and the primary profile", () => {
+    const request = parseRenderRequest(
+      { url: "https://example.com/about" },
+      profiles,
+      allowedDomains,
+    );
+    expect(request).toMatchObject({
+      url: "https://example.com/about",
+      sync: false,
+      cacheTtl: DEFAULT_CACHE_TTL,
+      domain: "example.com",
+      canonicalDomain: "example.com",
+    });
+    expect(request.profile.name).toBe("desktop");
+  });
+
+  it("resolves a named profile and explicit domains", () => {
+    const request = parseRenderRequest(
+      {
+        url: "https://staging.example.com/",
+        profile: "mobile",
+        sync: true,
+        cacheTtl: 3600,
+        domain: "example.com",
+        canonicalDomain: "www.example.com",
+      },
+      profiles,
+      allowedDomains,
+    );
+    expect(request.profile.name).toBe("mobile");
+    expect(request.sync).toBe(true);
+    expect(request.cacheTtl).toBe(3600);
+    expect(request.domain).toBe("example.com");
+    expect(request.canonicalDomain).toBe("www.example.com");
+  });
+
+  it("rejects bodies that aren't objects", () => {
+    expect(() => parseRenderRequest([], profiles, allowedDomains)).toThrow(
+      RenderRequestError,
+    );
+    expect(() => parseRenderRequest(null, profiles, allowedDomains)).toThrow(
+      RenderRequestError,
+    );
+  });
+
+  it("rejects missing and non-http URLs", () => {
+    expect(() => parseRenderRequest({}, profiles, allowedDomains)).toThrow(
+      /url/,
+    );
+    expect(() =>
+      parseRenderRequest(
+        { url: "ftp://example.com/" },
+        profiles,
+        allowedDomains,
+      ),
+    ).toThrow(/http/);
+  });
+
+  it("rejects unknown profiles with the configured names", () => {
+    expect(() =>
+      parseRenderRequest(
+        { url: "https://example.com/", profile: "tablet" },
+        profiles,
+        allowedDomains,
+      ),
+    ).toThrow(/desktop, mobile/);
+  });
+
+  it("rejects invalid sync and cacheTtl values", () => {
+    expect(() =>
+      parseRenderRequest(
+        { url: "https://example.com/", sync: "yes" },
+        profiles,
+        allowedDomains,
+      ),
+    ).toThrow(/sync/);
+    expect(() =>
+      parseRenderRequest(
+        { url: "https://example.com/", cacheTtl: 0 },
+        profiles,
+        allowedDomains,
+      ),
+    ).toThrow(/cacheTtl/);
+  });
+
+  it("refuses hosts that aren't in SERVER_ALLOWED_DOMAINS with a 403", () => {
+    for (const body of [
+      { url: "https://attacker.test/" },
+      { url: "https://example.com/", domain: "attacker.test" },
+      { url: "https://example.com/", canonicalDomain: "attacker.test" },
+    ]) {
+      let error: unknown;
+      try {
+        parseRenderRequest(body, profiles, allowedDomains);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(RenderRequestError);
+      expect((error as RenderRequestError).status).toBe(403);
+      expect((error as RenderRequestError).message).toMatch(
+        /attacker\.test is not in SERVER_ALLOWED_DOMAINS/,
+      );
+    }
+    expect(() =>
+      parseRenderRequest(
+        { url: "https://example.com.attacker.test/" },
+        profiles,
+        allowedDomains,
+      ),
+    ).toThrow(/SERVER_ALLOWED_DOMAINS/);
+  });
+
+  it("reports validation failures as 400s", () => {
+    let error: unknown;
+    try {
+      parseRenderRequest({}, profiles, allowedDomains);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(RenderRequestError);
+    expect((error as RenderRequestError).status).toBe(400);
+  });
+});
+
+describe("bearerTokenMatches", () => {
+  it("accepts only the exact bearer token", () => {
+    expect(bearerTokenMatches("Bearer s3cret", "s3cret")).toBe(true);
+    expect(bearerTokenMatches("Bearer s3cre", "s3cret")).toBe(false);
+    expect(bearerTokenMatches("Bearer s3cret-and-more", "s3cret")).toBe(false);
+    expect(bearerTokenMatches("s3cret", "s3cret")).toBe(false);
+    expect(bearerTokenMatches(undefined, "s3cret")).toBe(false);
+  });
+});
@@ -0,0 +1,333 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { AssetCache } from "./asset-cache";
+import { BrowserPool, RECYCLE_AFTER_RENDERS } from "./browser-pool";
+import { DEFAULT_CACHE_TTL, type ServerConfiguration } from "./load-config";
+import { AppLogger } from "./logger";
+import { runPipeline } from "./pipeline";
+import type { PrerenderFailureDetail } from "./prerender-failure";
+import type { RenderDiagnostics } from "./render-engine";
+import type { RenderProfile } from "./render-profile";
+import { RequestStats } from "./request-stats";
+import type { PageSeoAnalysis } from "./seo-analyzer/type";
+import type { SnapshotStore } from "./snapshot-store";
+import { hostAllowed } from "./url-filter";
+
+// A render request is a handful of fields; anything bigger is a mistake.
+const MAX_BODY_BYTES = 64 * 1024;
+
+export class RenderRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "RenderRequestError";
+    this.status = status;
+  }
+}
+
+export interface RenderRequest {
+  url: string;
+  profile: RenderProfile;
+  /** Upload the snapshot to the store, exactly like the batch job does. */
+  sync: boolean;
+  cacheTtl: number;
+  /** Routing domain that also gets the internal key; defaults to the URL's host. */
+  domain: string;
+  /** Host canonical URLs are rewritten to; defaults to `domain`. */
+  canonicalDomain: string;
+}
+
+export interface RenderResponseBody {
+  url: string;
+  profile: string;
+  final_url: string;
+  status_code: number;
+  html: string;
+  seo_analysis: PageSeoAnalysis;
+  diagnostics: RenderDiagnostics | null;
+  synced: boolean;
+  unchanged: boolean;
+  object_key: string | null;
+}
+
+function optionalString(
+  body: Record<string, unknown>,
+  field: string,
+): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string" || !value) {
+    throw new RenderRequestError(`${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+/**
+ * Whether an Authorization header carries `Bearer <token>`. Compared as
+ * SHA-256 digests in constant time, so neither the response time nor an
+ * early length mismatch tells a caller how much of a guess was right.
+ */
+export function bearerTokenMatches(
+  authorization: string | undefined,
+  token: string,
+): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(
+    digest(authorization ?? ""),
+    digest(`Bearer ${token}`),
+  );
+}
+
+/**
+ * Validate a `POST /render` body against the server's render profiles and
+ * SERVER_ALLOWED_DOMAINS. The URL's host, `domain` and `canonicalDomain` must
+ * all be allowed: the internal key is sent to them, and a synced snapshot is
+ * stored under the URL's host.
+ */
+export function parseRenderRequest(
+  raw: unknown,
+  profiles: RenderProfile[],
+  allowedDomains: string[],
+): RenderRequest {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new RenderRequestError("Request body must be a JSON object");
+  }
+  const body = raw as Record<string, unknown>;
+
+  const url = optionalString(body, "url");
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url ?? "");
+  } catch {
+    throw new RenderRequestError("url must be an absolute URL");
+  }
+  if (parsedUrl.protocol !== "https:" && parsedUrl.protocol !== "http:") {
+    throw new RenderRequestError("url must be an http(s) URL");
+  }
+
+  const profileName = optionalString(body, "profile");
+  const profile = profileName
+    ? profiles.find((candidate) => candidate.name === profileName)
+    : profiles[0];
+  if (!profile) {
+    throw new RenderRequestError(
+      `profile must be one of: ${profiles.map((p) => p.name).join(", ")}`,
+    );
+  }
+
+  if (body.sync !== undefined && typeof body.sync !== "boolean") {
+    throw new RenderRequestError("sync must be a boolean");
+  }
+  const cacheTtl = body.cacheTtl ?? DEFAULT_CACHE_TTL;
+  if (typeof cacheTtl !== "number" || !Number.isInteger(cacheTtl)) {
+    throw new RenderRequestError("cacheTtl must be a positive integer");
+  }
+  if (cacheTtl <= 0) {
+    throw new RenderRequestError("cacheTtl must be a positive integer");
+  }
+
+  const domain = (
+    optionalString(body, "domain") ?? parsedUrl.hostname
+  ).toLowerCase();
+  const canonicalDomain = (
+    optionalString(body, "canonicalDomain") ?? domain
+  ).toLowerCase();
+  for (const [field, host] of [
+    ["url", parsedUrl.hostname],
+    ["domain", domain],
+    ["canonicalDomain", canonicalDomain],
+  ] as const) {
+    if (!hostAllowed(host, allowedDomains)) {
+      throw new RenderRequestError(
+        `${field}: ${host} is not in SERVER_ALLOWED_DOMAINS`,
+        403,
+      );
+    }
+  }
+  return {
+    url: parsedUrl.toString(),
+    profile,
+    sync: body.sync ?? false,
+    cacheTtl,
+    domain,
+    canonicalDomain,
+  };
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RenderRequestError("Request body too large", 413);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new RenderRequestError("Request body must be valid JSON");
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * On-demand rendering over HTTP with the batch job's pipeline. Browsers stay
+ * warm in a BrowserPool between requests (one render per browser at a time;
+ * extra requests wait for a free one), and one AssetCache serves every
+ * request's static assets.
+ */
+export class RenderServer {
+  private readonly _config: ServerConfiguration;
+  private readonly _pool: BrowserPool;
+  private readonly _store: SnapshotStore | null;
+  private readonly _assetCache: AssetCache | null;
+  private readonly _requestStats = RequestStats.register();
+  private readonly _rendersPerSlot: number[];
+  private readonly _logger: AppLogger;
+  private _requestCount = 0;
+
+  static register({
+    config,
+    pool,
+    store,
+  }: {
+    config: ServerConfiguration;
+    pool: BrowserPool;
+    // Null when SKIP_CACHE_SYNC is true
+    store: SnapshotStore | null;
+  }): RenderServer {
+    return new RenderServer(config, pool, store);
+  }
+
+  private constructor(
+    config: ServerConfiguration,
+    pool: BrowserPool,
+    store: SnapshotStore | null,
+  ) {
+    this._config = config;
+    this._pool = pool;
+    this._store = store;
+    this._assetCache = config.disableAssetCache ? null : AssetCache.register();
+    this._rendersPerSlot = new Array<number>(pool.size).fill(0);
+    this._logger = AppLogger.register({ prefix: "render-server" });
+  }
+
+  /** node:http request listener. */
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      if (req.method === "GET" && req.url === "/healthz") {
+        sendJson(res, 200, { ok: true });
+        return;
+      }
+      if (req.url !== "/render") {
+        throw new RenderRequestError("Not found", 404);
+      }
+      if (req.method !== "POST") {
+        throw new RenderRequestError("Method not allowed", 405);
+      }
+      if (
+        this._config.authToken &&
+        !bearerTokenMatches(req.headers.authorization, this._config.authToken)
+      ) {
+        throw new RenderRequestError("Unauthorized", 401);
+      }
+      const request = parseRenderRequest(
+        await readJsonBody(req),
+        this._config.renderProfiles,
+        this._config.allowedDomains,
+      );
+      if (request.sync && !this._store) {
+        throw new RenderRequestError(
+          "sync is unavailable: the server runs with SKIP_CACHE_SYNC=true",
+        );
+      }
+      const { status, body } = await this.render(request);
+      sendJson(res, status, body);
+    } catch (e) {
+      if (e instanceof RenderRequestError) {
+        sendJson(res, e.status, { error: e.message });
+        return;
+      }
+      this._logger.error(`Unhandled error serving ${req.url}`, e);
+      sendJson(res, 500, { error: "Internal error" });
+    }
+  }
+
+  private async render(request: RenderRequest): Promise<{
+    status: number;
+    body: RenderResponseBody | { error: PrerenderFailureDetail };
+  }> {
+    const pipelineNumber = ++this._requestCount;
+    const slot = await this._pool.acquire();
+    try {
+      if ((this._rendersPerSlot[slot] ?? 0) >= RECYCLE_AFTER_RENDERS) {
+        await this._pool.recycle(slot);
+        this._rendersPerSlot[slot] = 0;
+      }
+      const browser = await this._pool.ensureHealthy(slot);
+      if (!browser) {
+        throw new RenderRequestError("No browser available", 503);
+      }
+      this._rendersPerSlot[slot] = (this._rendersPerSlot[slot] ?? 0) + 1;
+      try {
+        const { result, snapshot } = await runPipeline({
+          pipelineNumber,
+          urlToRender: request.url,
+          profile: request.profile,
+          cacheTtl: request.cacheTtl,
+          config: {
+            userAgent: this._config.userAgent,
+            // Safe to forward: parseRenderRequest only lets through hosts
+            // on SERVER_ALLOWED_DOMAINS
+            internalKey: this._config.internalKey,
+            domain: request.domain,
+            canonicalDomain: request.canonicalDomain,
+            snapshotHistory: this._config.snapshotHistory,
+            regressionGuard: this._config.regressionGuard,
+            telegramBotToken: this._config.telegramBotToken,
+            telegramChatId: this._config.telegramChatId,
+          },
+          browser,
+          assetCache: this._assetCache,
+          requestStats: this._requestStats,
+          snapshotDir: null,
+          store: request.sync ? this._store : null,
+        });
+        if (!snapshot) {
+          return {
+            status: 422,
+            body: { error: result.failure ?? { reason: "unknown" } },
+          };
+        }
+        return {
+          status: 200,
+          body: {
+            url: request.url,
+            profile: request.profile.name,
+            final_url: snapshot.finalUrl,
+            status_code: snapshot.statusCode,
+            html: snapshot.html,
+            seo_analysis: snapshot.seoAnalysis,
+            diagnostics: snapshot.diagnostics ?? null,
+            synced: result.isCachedToR2,
+            unchanged: result.isUnchanged ?? false,
+            object_key: snapshot.objectKey,
+          },
+        };
+      } catch (e) {
+        // If the browser died mid-render, drop it so the next request relaunches.
+        await this._pool.dropIfDisconnected(slot);
+        throw e;
+      }
+    } finally {
+      this._pool.release(slot);
+    }
+  }
+}
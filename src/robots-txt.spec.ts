@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkRobotsTxt,
+  parseRobotsTxt,
+  robotsTxtVerdictToMetadata,
+} from "./robots-txt";
+
+const ROBOTS_TXT = `# Example robots.txt
+User-agent: Googlebot
+User-agent: Bingbot
+Disallow: /admin
+Allow: /admin/public
+Crawl-delay: 2
+
+User-agent: *
+Disallow: /
+Allow: /$
+Allow: /blog/
+Disallow: /*.pdf$
+Disallow:
+
+Sitemap: https://example.com/sitemap-posts.xml
+sitemap: https://example.com/sitemap-pages.xml # trailing comment
+`;
+
+describe("parseRobotsTxt", () => {
+  it("groups consecutive user-agents and collects sitemaps", () => {
+    const robots = parseRobotsTxt(ROBOTS_TXT);
+    const googleRules = [
+      { type: "disallow", path: "/admin" },
+      { type: "allow", path: "/admin/public" },
+    ];
+    expect(robots.userAgents).toEqual([
+      { name: "Googlebot", rules: googleRules, crawlDelay: 2 },
+      { name: "Bingbot", rules: googleRules, crawlDelay: 2 },
+      {
+        name: "*",
+        rules: [
+          { type: "disallow", path: "/" },
+          { type: "allow", path: "/$" },
+          { type: "allow", path: "/blog/" },
+          { type: "disallow", path: "/*.pdf$" },
+        ],
+      },
+    ]);
+    expect(robots.sitemaps).toEqual([
+      "https://example.com/sitemap-posts.xml",
+      "https://example.com/sitemap-pages.xml",
+    ]);
+    expect(robots.raw).toBe(ROBOTS_TXT);
+  });
+
+  it("ignores rules before any user-agent line", () => {
+    expect(parseRobotsTxt("Disallow: /\n").userAgents).toEqual([]);
+  });
+
+  it("percent-encodes rule paths, keeping wildcards and existing escapes", () => {
+    expect(
+      parseRobotsTxt(
+        "User-agent: *\nDisallow: /café/*\nDisallow: /a%2fb$\nDisallow: /100%\n",
+      ).userAgents[0]?.rules,
+    ).toEqual([
+      { type: "disallow", path: "/caf%C3%A9/*" },
+      { type: "disallow", path: "/a%2Fb$" },
+      { type: "disallow", path: "/100%25" },
+    ]);
+  });
+});
+
+describe("checkRobotsTxt", () => {
+  const robots = parseRobotsTxt(ROBOTS_TXT);
+  const check = (userAgent: string, url: string) =>
+    checkRobotsTxt({ robots, userAgent }, url);
+
+  it("applies the crawler's own group, case-insensitively", () => {
+    expect(check("googlebot", "https://example.com/admin/users")).toEqual({
+      userAgent: "googlebot",
+      allowed: false,
+      rule: "Disallow: /admin",
+    });
+    // The longest matching rule wins
+    expect(check("Googlebot", "https://example.com/admin/public/a")).toEqual({
+      userAgent: "Googlebot",
+      allowed: true,
+      rule: "Allow: /admin/public",
+    });
+    // No matching rule: allowed
+    expect(check("Googlebot", "https://example.com/pricing")).toEqual({
+      userAgent: "Googlebot",
+      allowed: true,
+      rule: null,
+    });
+  });
+
+  it("falls back to the * group with wildcards and end anchors", () => {
+    expect(check("DuckDuckBot", "https://example.com/").allowed).toBe(true);
+    expect(check("DuckDuckBot", "https://example.com/pricing").allowed).toBe(
+      false,
+    );
+    expect(check("DuckDuckBot", "https://example.com/blog/post").allowed).toBe(
+      true,
+    );
+    expect(check("DuckDuckBot", "https://example.com/blog/a.pdf")).toEqual({
+      userAgent: "DuckDuckBot",
+      allowed: false,
+      rule: "Disallow: /*.pdf$",
+    });
+  });
+
+  it("lets Allow win a tie between equally long rules", () => {
+    const tied = parseRobotsTxt("User-agent: *\nDisallow: /a\nAllow: /a\n");
+    expect(
+      checkRobotsTxt({ robots: tied, userAgent: "x" }, "https://e.com/a")
+        .allowed,
+    ).toBe(true);
+  });
+
+  it("matches non-ASCII rules against the encoded URL", () => {
+    const robots = parseRobotsTxt(
+      "User-agent: *\nDisallow: /café\nDisallow: /%e3%81%82\n",
+    );
+    const allowed = (url: string) =>
+      checkRobotsTxt({ robots, userAgent: "x" }, url).allowed;
+    expect(allowed("https://e.com/café/menu")).toBe(false);
+    expect(allowed("https://e.com/caf%C3%A9/menu")).toBe(false);
+    expect(allowed("https://e.com/あ")).toBe(false);
+    expect(allowed("https://e.com/cafe")).toBe(true);
+  });
+
+  it("matches rules against the query string too", () => {
+    const robots = parseRobotsTxt("User-agent: *\nDisallow: /*?sort=\n");
+    expect(
+      checkRobotsTxt({ robots, userAgent: "x" }, "https://e.com/list?sort=asc")
+        .allowed,
+    ).toBe(false);
+  });
+});
+
+describe("robotsTxtVerdictToMetadata", () => {
+  it("leaves both values empty without robots.txt", () => {
+    expect(robotsTxtVerdictToMetadata(undefined)).toEqual({
+      seoRobotsTxtAllowed: "",
+      seoRobotsTxtRule: "",
+    });
+  });
+
+  it("bounds the rule and keeps it to printable ASCII", () => {
+    expect(
+      robotsTxtVerdictToMetadata({
+        userAgent: "x",
+        allowed: false,
+        rule: `Disallow: /\u00e9${"a".repeat(500)}`,
+      }),
+    ).toEqual({
+      seoRobotsTxtAllowed: "false",
+      // 200 characters in all
+      seoRobotsTxtRule: `Disallow: /?${"a".repeat(188)}`,
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { AppLogger } from "./logger";
+import type { RobotsTxtResult, RobotsTxtVerdict } from "./seo-analyzer/type";
+
+const logger = AppLogger.register({ prefix: "robots-txt" });
+
+const ROBOTS_TXT_TIMEOUT_MS = 10_000;
+
+/** A site's robots.txt and the crawler its verdicts are given for. */
+export interface RobotsTxtCheck {
+  robots: RobotsTxtResult;
+  // Product token, e.g. "Googlebot"
+  userAgent: string;
+}
+
+type RobotsTxtGroup = RobotsTxtResult["userAgents"][number];
+
+// Longest Disallow/Allow path kept in snapshot metadata; R2 caps the whole
+// metadata at 8KB and robots.txt paths have no length limit.
+const MAX_RULE_METADATA_LENGTH = 200;
+
+/**
+ * Percent-encode a robots.txt path or URL path the way RFC 9309 compares
+ * them: non-ASCII characters (as UTF-8), spaces and controls are encoded,
+ * existing escapes are kept with upper-case hex, and a stray `%` becomes
+ * `%25`. `*` and `$` pass through, so wildcards survive.
+ */
+function percentEncodePath(path: string): string {
+  return path.replace(/%([0-9a-fA-F]{2})|[^\x21-\x7E]|%/gu, (match, hex) =>
+    typeof hex === "string"
+      ? `%${hex.toUpperCase()}`
+      : match === "%"
+        ? "%25"
+        : encodeURIComponent(match.toWellFormed()),
+  );
+}
+
+/**
+ * Parse robots.txt (RFC 9309). Consecutive `User-agent` lines share the rules
+ * that follow them, so each name gets its own copy of the group's rules. An
+ * empty `Disallow:` allows everything and adds no rule. Rule paths are stored
+ * percent-encoded, so `Disallow: /café` matches the `/caf%C3%A9` a URL
+ * parser produces.
+ */
+export function parseRobotsTxt(raw: string): RobotsTxtResult {
+  const userAgents: RobotsTxtGroup[] = [];
+  const sitemaps: string[] = [];
+  let currentGroups: RobotsTxtGroup[] = [];
+  let groupHasRules = false;
+  for (const rawLine of raw.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    switch (key) {
+      case "user-agent": {
+        // A user-agent line after rules starts a new group.
+        if (groupHasRules) {
+          currentGroups = [];
+          groupHasRules = false;
+        }
+        const group: RobotsTxtGroup = { name: value, rules: [] };
+        userAgents.push(group);
+        currentGroups.push(group);
+        break;
+      }
+      case "allow":
+      case "disallow":
+        groupHasRules = true;
+        if (!value) break;
+        for (const group of currentGroups) {
+          group.rules.push({ type: key, path: percentEncodePath(value) });
+        }
+        break;
+      case "crawl-delay": {
+        groupHasRules = true;
+        const delay = Number(value);
+        if (Number.isFinite(delay) && delay >= 0) {
+          for (const group of currentGroups) {
+            group.crawlDelay = delay;
+          }
+        }
+        break;
+      }
+      case "sitemap":
+        if (value) sitemaps.push(value);
+        break;
+    }
+  }
+  return { userAgents, sitemaps, raw };
+}
+
+// `*` matches any run of characters and a trailing `$` anchors the end;
+// everything else is a prefix match.
+function robotsPathToRegExp(path: string): RegExp {
+  const anchored = path.endsWith("$");
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Whether robots.txt lets `userAgent` fetch `url`. The crawler obeys the
+ * groups naming it (case-insensitive), or `*` when none do. Among the rules
+ * matching the URL's path and query, the longest wins, and Allow wins a tie.
+ */
+export function checkRobotsTxt(
+  { robots, userAgent }: RobotsTxtCheck,
+  url: string,
+): RobotsTxtVerdict {
+  const token = userAgent.toLowerCase();
+  let groups = robots.userAgents.filter(
+    (group) => group.name.toLowerCase() === token,
+  );
+  if (groups.length === 0) {
+    groups = robots.userAgents.filter((group) => group.name === "*");
+  }
+  let target: string;
+  try {
+    const parsed = new URL(url);
+    target = percentEncodePath(parsed.pathname + parsed.search);
+  } catch {
+    target = percentEncodePath(url);
+  }
+  let best: { type: "allow" | "disallow"; path: string } | null = null;
+  for (const rule of groups.flatMap((group) => group.rules)) {
+    if (!robotsPathToRegExp(rule.path).test(target)) continue;
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.type === "allow")
+    ) {
+      best = rule;
+    }
+  }
+  return {
+    userAgent,
+    allowed: best?.type !== "disallow",
+    rule: best
+      ? `${best.type === "allow" ? "Allow" : "Disallow"}: ${best.path}`
+      : null,
+  };
+}
+
+/**
+ * A robots.txt verdict as R2 object metadata. Both values are empty when
+ * robots.txt wasn't available. The rule is cut to a bounded length and kept
+ * to printable ASCII, since metadata travels as HTTP headers.
+ */
+export function robotsTxtVerdictToMetadata(
+  verdict: RobotsTxtVerdict | undefined,
+): Record<string, string> {
+  return {
+    seoRobotsTxtAllowed: verdict ? String(verdict.allowed) : "",
+    seoRobotsTxtRule: (verdict?.rule ?? "")
+      .replace(/[^\x20-\x7E]/g, "?")
+      .slice(0, MAX_RULE_METADATA_LENGTH),
+  };
+}
+
+/**
+ * Fetch and parse `<baseUrl>/robots.txt`. Never throws: a missing or
+ * unreachable robots.txt yields null, which the job treats as "everything
+ * allowed, no extra sitemaps".
+ */
+export async function fetchRobotsTxt({
+  baseUrl,
+  userAgent,
+}: {
+  baseUrl: string;
+  // Sent as the request's User-Agent header
+  userAgent: string;
+}): Promise<RobotsTxtResult | null> {
+  const robotsUrl = `${baseUrl}/robots.txt`;
+  try {
+    const res = await fetch(robotsUrl, {
+      headers: { "User-Agent": userAgent },
+      signal: AbortSignal.timeout(ROBOTS_TXT_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      logger.info(`No robots.txt at ${robotsUrl} (HTTP ${res.status})`);
+      return null;
+    }
+    const robots = parseRobotsTxt(await res.text());
+    logger.info(
+      `Parsed ${robotsUrl}: ${robots.userAgents.length} user-agent groups, ${robots.sitemaps.length} sitemaps`,
+    );
+    return robots;
+  } catch (e) {
+    logger.warn(`Failed to fetch ${robotsUrl}`, e);
+    return null;
+  }
+}
@@ -0,0 +1,109 @@
+import { parse } from "node-html-parser";
+import { describe, expect, it } from "vitest";
+import {
+  assessHreflang,
+  extractHreflangLinks,
+  hreflangUrlKey,
+  isValidHreflang,
+} from "./hreflang";
+
+describe("isValidHreflang", () => {
+  it("accepts languages with optional script and region, and x-default", () => {
+    for (const code of [
+      "en",
+      "en-GB",
+      "EN-us",
+      "zh-Hant-TW",
+      "es-419",
+      "x-default",
+    ]) {
+      expect(isValidHreflang(code), code).toBe(true);
+    }
+  });
+
+  it("rejects unknown, malformed and aliased codes", () => {
+    for (const code of [
+      "en-UK",
+      "xx",
+      "eng",
+      "en_US",
+      "english",
+      "en-XX",
+      "",
+    ]) {
+      expect(isValidHreflang(code), code).toBe(false);
+    }
+  });
+});
+
+describe("hreflangUrlKey", () => {
+  it("ignores www, trailing slashes, query and hash", () => {
+    expect(hreflangUrlKey("https://www.example.com/fr/?a=1#x")).toBe(
+      "example.com/fr",
+    );
+    expect(hreflangUrlKey("not a url")).toBeNull();
+  });
+});
+
+describe("extractHreflangLinks", () => {
+  it("reads alternate links and resolves relative hrefs", () => {
+    const root = parse(`<html><head>
+      <link rel="alternate" hreflang="en" href="https://example.com/">
+      <link rel="alternate" hreflang="fr" href="/fr/">
+      <link rel="canonical" href="https://example.com/">
+      <link rel="stylesheet" hreflang="de" href="/de.css">
+      <link rel="alternate" hreflang="de">
+    </head></html>`);
+    expect(extractHreflangLinks(root, "https://example.com/")).toEqual([
+      { hreflang: "en", href: "https://example.com/" },
+      { hreflang: "fr", href: "https://example.com/fr/" },
+    ]);
+  });
+});
+
+describe("assessHreflang", () => {
+  const page = "https://example.com/fr/";
+
+  it("is 'none' without alternates", () => {
+    expect(assessHreflang([], page).hreflangStatus).toBe("none");
+  });
+
+  it("is 'ok' for a self-referencing set with x-default", () => {
+    expect(
+      assessHreflang(
+        [
+          { hreflang: "fr", href: page },
+          { hreflang: "en", href: "https://example.com/" },
+          { hreflang: "x-default", href: "https://example.com/" },
+        ],
+        page,
+      ),
+    ).toEqual({
+      hreflangSelfReference: true,
+      hreflangHasXDefault: true,
+      hreflangInvalidCodes: [],
+      hreflangStatus: "ok",
+    });
+  });
+
+  it("reports the most serious problem first", () => {
+    expect(
+      assessHreflang(
+        [{ hreflang: "en-UK", href: "https://example.com/" }],
+        page,
+      ),
+    ).toEqual({
+      hreflangSelfReference: false,
+      hreflangHasXDefault: false,
+      hreflangInvalidCodes: ["en-UK"],
+      hreflangStatus: "invalid_code",
+    });
+    expect(
+      assessHreflang([{ hreflang: "en", href: "https://example.com/" }], page)
+        .hreflangStatus,
+    ).toBe("missing_self_reference");
+    expect(
+      assessHreflang([{ hreflang: "fr", href: page }], page).hreflangStatus,
+    ).toBe("missing_x_default");
+  });
+});
@@ -0,0 +1,115 @@
+import type { HTMLElement } from "node-html-parser";
+import type { HreflangLink, PageSeoAnalysis } from "./type";
+
+const X_DEFAULT_HREFLANG = "x-default";
+
+// language (ISO 639-1), optional script (ISO 15924), optional region
+// (ISO 3166-1 alpha-2 or UN M.49)
+const HREFLANG_PATTERN = /^([a-z]{2})(?:-([a-z]{4}))?(?:-([a-z]{2}|\d{3}))?$/i;
+
+const languageNames = new Intl.DisplayNames(["en"], {
+  type: "language",
+  fallback: "none",
+});
+const regionNames = new Intl.DisplayNames(["en"], {
+  type: "region",
+  fallback: "none",
+});
+
+/**
+ * Whether Google accepts `code` as an hreflang value: "x-default", or a known
+ * ISO 639-1 language with an optional script and region. Aliases that ICU
+ * would silently rewrite (the classic "en-UK" for "en-GB") are rejected.
+ */
+export function isValidHreflang(code: string): boolean {
+  if (code.toLowerCase() === X_DEFAULT_HREFLANG) return true;
+  const match = HREFLANG_PATTERN.exec(code);
+  if (!match) return false;
+  const [, language = "", , region] = match;
+  if (!languageNames.of(language)) return false;
+  if (region === undefined) return true;
+  try {
+    if (!regionNames.of(region.toUpperCase())) return false;
+    const [canonical = ""] = Intl.getCanonicalLocales(`und-${region}`);
+    return canonical.toLowerCase() === `und-${region.toLowerCase()}`;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Identity used to match hreflang targets to pages: host without "www." plus
+ * path without a trailing slash. Null for an unparsable URL.
+ */
+export function hreflangUrlKey(url: string): string | null {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return `${hostname.replace(/^www\./, "")}${pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return null;
+  }
+}
+
+/** Every <link rel="alternate" hreflang>, with hrefs made absolute. */
+export function extractHreflangLinks(
+  root: HTMLElement,
+  pageUrl: string,
+): HreflangLink[] {
+  const links: HreflangLink[] = [];
+  for (const link of root.querySelectorAll("link[hreflang]")) {
+    const rel = (link.getAttribute("rel") ?? "").toLowerCase().split(/\s+/);
+    const hreflang = link.getAttribute("hreflang")?.trim();
+    const href = link.getAttribute("href")?.trim();
+    if (!rel.includes("alternate") || !hreflang || !href) continue;
+    try {
+      links.push({ hreflang, href: new URL(href, pageUrl).toString() });
+    } catch {
+      links.push({ hreflang, href });
+    }
+  }
+  return links;
+}
+
+/** Per-page hreflang checks; reciprocity needs the whole batch. */
+export function assessHreflang(
+  links: HreflangLink[],
+  pageUrl: string,
+): Pick<
+  PageSeoAnalysis,
+  | "hreflangSelfReference"
+  | "hreflangHasXDefault"
+  | "hreflangInvalidCodes"
+  | "hreflangStatus"
+> {
+  const pageKey = hreflangUrlKey(pageUrl);
+  const hreflangSelfReference = links.some(
+    (link) => hreflangUrlKey(link.href) === pageKey,
+  );
+  const hreflangHasXDefault = links.some(
+    (link) => link.hreflang.toLowerCase() === X_DEFAULT_HREFLANG,
+  );
+  const hreflangInvalidCodes = [
+    ...new Set(
+      links
+        .map((link) => link.hreflang)
+        .filter((code) => !isValidHreflang(code)),
+    ),
+  ];
+
+  let hreflangStatus: PageSeoAnalysis["hreflangStatus"] = "ok";
+  if (links.length === 0) {
+    hreflangStatus = "none";
+  } else if (hreflangInvalidCodes.length > 0) {
+    hreflangStatus = "invalid_code";
+  } else if (!hreflangSelfReference) {
+    hreflangStatus = "missing_self_reference";
+  } else if (!hreflangHasXDefault) {
+    hreflangStatus = "missing_x_default";
+  }
+  return {
+    hreflangSelfReference,
+    hreflangHasXDefault,
+    hreflangInvalidCodes,
+    hreflangStatus,
+  };
+}
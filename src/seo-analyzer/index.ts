@@ -5,24 +5,51 @@ import {
   extractStatusCodeHint,
   hasNoindexMeta,
 } from "../html-sanitizer/soft-404";
-import type { MetaTags, OgTags, PageSeoAnalysis } from "./type";
+import { checkRobotsTxt, type RobotsTxtCheck } from "../robots-txt";
+import { assessHreflang, extractHreflangLinks } from "./hreflang";
+import { computeSeoScore } from "./score";
+import { extractStructuredData } from "./structured-data";
+import type {
+  ImageAudit,
+  LinkAudit,
+  MetaTags,
+  OgTags,
+  PageSeoAnalysis,
+  StructuredData,
+} from "./type";
+
+// Render-time measurements that feed the score but aren't in the HTML.
+export type RenderMetrics = {
+  // RenderDiagnostics.durationMs
+  latencyMs?: number;
+  redirectHops?: number;
+  // Size of the page as rendered; defaults to the analyzed HTML's size
+  htmlBytes?: number;
+};
 
 export class SeoAnalyzer {
   private readonly _html: string;
   private readonly _url: string;
   private readonly _statusCode: number;
   private readonly _xRobotsTag: string | null;
+  private readonly _robotsTxt: RobotsTxtCheck | null;
+  private readonly _renderMetrics: RenderMetrics;
 
   static register({
     html,
     url,
     statusCode,
     xRobotsTag,
+    robotsTxt = null,
+    renderMetrics = {},
   }: {
     html: string;
     url: string;
     statusCode: number;
     xRobotsTag: string | null;
+    // The site's robots.txt, when the caller fetched it
+    robotsTxt?: RobotsTxtCheck | null;
+    renderMetrics?: RenderMetrics;
   }): SeoAnalyzer {
     if (statusCode >= 400) {
       throw new Error(`Status code is not 200~399, got ${statusCode}`);
@@ -33,18 +60,29 @@ export class SeoAnalyzer {
     if (!html) {
       throw new Error("HTML is required");
     }
-    return new SeoAnalyzer(html, url, statusCode, xRobotsTag);
+    return new SeoAnalyzer(
+      html,
+      url,
+      statusCode,
+      xRobotsTag,
+      robotsTxt,
+      renderMetrics,
+    );
   }
   private constructor(
     html: string,
     url: string,
     statusCode: number,
     xRobotsTag: string | null,
+    robotsTxt: RobotsTxtCheck | null,
+    renderMetrics: RenderMetrics,
   ) {
     this._html = html;
     this._url = url;
     this._statusCode = statusCode;
     this._xRobotsTag = xRobotsTag;
+    this._robotsTxt = robotsTxt;
+    this._renderMetrics = renderMetrics;
   }
 
   analyze(): PageSeoAnalysis {
@@ -82,10 +120,26 @@ export class SeoAnalyzer {
       finalStatusCode = soft404.statusCode ?? 404;
     }
 
+    // -------------------------------------------------------------------------
+    // Image and link audit
+    // -------------------------------------------------------------------------
+    const images = this.auditImages({ root });
+    const links = this.auditLinks({ root });
+
+    // -------------------------------------------------------------------------
+    // Structured data
+    // -------------------------------------------------------------------------
+    const structuredData = extractStructuredData(root);
+
+    // -------------------------------------------------------------------------
+    // Hreflang
+    // -------------------------------------------------------------------------
+    const hreflangs = extractHreflangLinks(root, this._url);
+
     // -------------------------------------------------------------------------
     // Build result
     // -------------------------------------------------------------------------
-    return {
+    const analysis: Omit<PageSeoAnalysis, "score" | "issues"> = {
       statusCode: finalStatusCode,
       indexable,
       isSoft404: soft404.isSoft404,
@@ -106,6 +160,7 @@ export class SeoAnalyzer {
       }),
 
       canonical: this.assessCanonical({ canonical: metaTags.canonical }),
+      canonicalUrl: metaTags.canonical,
 
       h1: h1Tags[0],
       h1Count: h1Tags.length,
@@ -114,13 +169,124 @@ export class SeoAnalyzer {
       wordCount,
       contentStatus: this.assessContentStatus({ wordCount }),
 
+      ...images,
+      imageAltStatus: this.assessImageAlt(images),
+
+      ...links,
+      internalLinkStatus: links.internalLinkCount > 0 ? "ok" : "none",
+      nofollowStatus: this.assessNofollow(links),
+      brokenLinkStatus: links.brokenLinkCount > 0 ? "found" : "ok",
+
+      ...structuredData,
+      structuredDataStatus: this.assessStructuredData(structuredData),
+
+      hreflangs,
+      ...assessHreflang(hreflangs, this._url),
+
       hasOgTags: this.hasEssentialOgTags(ogTags),
       hasTwitterTags: this.hasEssentialTwitterTags(ogTags),
 
       robotsMeta: metaTags.robotsMeta,
       viewport: metaTags.viewport,
       hasViewport: !!metaTags.viewport,
+
+      ...(this._robotsTxt && {
+        robotsTxt: this._robotsTxt.robots,
+        robotsTxtVerdict: checkRobotsTxt(this._robotsTxt, this._url),
+      }),
+    };
+
+    // -------------------------------------------------------------------------
+    // Score
+    // -------------------------------------------------------------------------
+    const { score, issues } = computeSeoScore({
+      analysis,
+      httpStatusCode: this._statusCode,
+      // Scoped to <head> so inline SVG <title>s don't count
+      titleCount: root.querySelectorAll("head title").length,
+      canonicalCount: root.querySelectorAll("link[rel='canonical']").length,
+      htmlBytes:
+        this._renderMetrics.htmlBytes ?? Buffer.byteLength(this._html, "utf8"),
+      urlDepth: this.urlDepth(),
+      latencyMs: this._renderMetrics.latencyMs,
+      redirectHops: this._renderMetrics.redirectHops,
+    });
+
+    return { ...analysis, score, issues };
+  }
+
+  private urlDepth(): number {
+    try {
+      return new URL(this._url).pathname.split("/").filter(Boolean).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  private auditImages({ root }: { root: HTMLElement }): ImageAudit {
+    const audit: ImageAudit = {
+      imageCount: 0,
+      imagesMissingAlt: 0,
+      imagesEmptyAlt: 0,
     };
+    for (const img of root.querySelectorAll("img")) {
+      audit.imageCount++;
+      const alt = img.getAttribute("alt");
+      if (alt === undefined) {
+        audit.imagesMissingAlt++;
+      } else if (!alt.trim()) {
+        audit.imagesEmptyAlt++;
+      }
+    }
+    return audit;
+  }
+
+  private auditLinks({ root }: { root: HTMLElement }): LinkAudit {
+    const audit: LinkAudit = {
+      linkCount: 0,
+      internalLinkCount: 0,
+      externalLinkCount: 0,
+      nofollowLinkCount: 0,
+      brokenLinkCount: 0,
+    };
+    const pageHost = this.hostOf(this._url);
+    for (const link of root.querySelectorAll("a[href]")) {
+      audit.linkCount++;
+      if (/\bnofollow\b/i.test(link.getAttribute("rel") ?? "")) {
+        audit.nofollowLinkCount++;
+      }
+      const href = (link.getAttribute("href") ?? "").trim();
+      // Goes nowhere a crawler can follow
+      if (!href || href === "#" || /^javascript:/i.test(href)) {
+        audit.brokenLinkCount++;
+        continue;
+      }
+      let target: URL;
+      try {
+        target = new URL(href, this._url);
+      } catch {
+        audit.brokenLinkCount++;
+        continue;
+      }
+      // mailto:, tel: and the like are neither
+      if (target.protocol !== "http:" && target.protocol !== "https:") {
+        continue;
+      }
+      if (target.hostname === pageHost) {
+        audit.internalLinkCount++;
+      } else {
+        audit.externalLinkCount++;
+      }
+    }
+    return audit;
+  }
+
+  private hostOf(url: string): string | null {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return null;
+    }
   }
 
   private extractMetaTags({ root }: { root: HTMLElement }): MetaTags {
@@ -360,6 +526,59 @@ export class SeoAnalyzer {
     }
   }
 
+  // Images without usable alt text (missing or empty), as a share of all
+  private assessImageAlt({
+    imageCount,
+    imagesMissingAlt,
+    imagesEmptyAlt,
+  }: ImageAudit): PageSeoAnalysis["imageAltStatus"] {
+    if (imageCount === 0) {
+      return "ok";
+    }
+    const withoutAltRatio = (imagesMissingAlt + imagesEmptyAlt) / imageCount;
+    if (
+      withoutAltRatio >= DEFAULT_SEO_CONFIG.thresholds.img_alt_very_low_ratio
+    ) {
+      return "very_low_ratio";
+    } else if (
+      withoutAltRatio >= DEFAULT_SEO_CONFIG.thresholds.img_alt_low_ratio
+    ) {
+      return "low_ratio";
+    } else {
+      return "ok";
+    }
+  }
+
+  private assessNofollow({
+    linkCount,
+    nofollowLinkCount,
+  }: LinkAudit): PageSeoAnalysis["nofollowStatus"] {
+    if (
+      linkCount > 0 &&
+      nofollowLinkCount / linkCount >=
+        DEFAULT_SEO_CONFIG.thresholds.nofollow_high_ratio
+    ) {
+      return "high_ratio";
+    }
+    return "ok";
+  }
+
+  private assessStructuredData({
+    structuredData,
+    invalidJsonLdCount,
+  }: StructuredData): PageSeoAnalysis["structuredDataStatus"] {
+    if (
+      invalidJsonLdCount > 0 ||
+      structuredData.some((item) => item.missingProperties.length > 0)
+    ) {
+      return "invalid";
+    } else if (structuredData.length === 0) {
+      return "none";
+    } else {
+      return "ok";
+    }
+  }
+
   private assessContentStatus({
     wordCount,
   }: {
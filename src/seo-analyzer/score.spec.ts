@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { computeSeoScore, topSeoIssueIds, type SeoScoreInput } from "./score";
+
+const CLEAN_INPUT: SeoScoreInput = {
+  analysis: {
+    isSoft404: false,
+    titleStatus: "ok",
+    metaDescStatus: "ok",
+    canonical: "ok",
+    h1Status: "ok",
+    hasViewport: true,
+    contentStatus: "ok",
+    imageAltStatus: "ok",
+    nofollowStatus: "ok",
+  },
+  httpStatusCode: 200,
+  titleCount: 1,
+  canonicalCount: 1,
+  htmlBytes: 50_000,
+  urlDepth: 1,
+};
+
+function scoreOf(overrides: Partial<SeoScoreInput>) {
+  return computeSeoScore({ ...CLEAN_INPUT, ...overrides });
+}
+
+describe("computeSeoScore", () => {
+  it("gives a clean page a perfect score", () => {
+    expect(computeSeoScore(CLEAN_INPUT)).toEqual({ score: 100, issues: [] });
+  });
+
+  it("subtracts each issue's weight, heaviest first", () => {
+    expect(
+      scoreOf({
+        analysis: {
+          ...CLEAN_INPUT.analysis,
+          titleStatus: "missing",
+          metaDescStatus: "too_long",
+          h1Status: "multiple",
+          canonical: "missing",
+        },
+        titleCount: 0,
+        canonicalCount: 0,
+      }),
+    ).toEqual({
+      score: 62,
+      issues: [
+        { id: "title_missing", penalty: 20 },
+        { id: "h1_multiple", penalty: 10 },
+        { id: "canonical_missing", penalty: 5 },
+        { id: "meta_desc_too_long", penalty: 3 },
+      ],
+    });
+  });
+
+  it("scores a soft 404 by the status it stands in for", () => {
+    expect(
+      scoreOf({
+        analysis: {
+          ...CLEAN_INPUT.analysis,
+          isSoft404: true,
+          soft404StatusCode: 503,
+        },
+      }).issues,
+    ).toEqual([{ id: "status_5xx", penalty: 60 }]);
+    expect(
+      scoreOf({ analysis: { ...CLEAN_INPUT.analysis, isSoft404: true } })
+        .issues,
+    ).toEqual([{ id: "status_4xx", penalty: 50 }]);
+  });
+
+  it("caps the redirect and depth penalties", () => {
+    expect(scoreOf({ redirectHops: 2 }).issues).toEqual([
+      { id: "redirect_per_hop", penalty: 10 },
+    ]);
+    expect(scoreOf({ redirectHops: 9 }).issues).toEqual([
+      { id: "redirect_per_hop", penalty: 20 },
+    ]);
+    expect(scoreOf({ urlDepth: 3 }).issues).toEqual([]);
+    expect(scoreOf({ urlDepth: 5 }).issues).toEqual([
+      { id: "depth_deep", penalty: 4 },
+    ]);
+    expect(scoreOf({ urlDepth: 20 }).issues).toEqual([
+      { id: "depth_deep", penalty: 10 },
+    ]);
+  });
+
+  it("applies size and latency thresholds", () => {
+    expect(scoreOf({ htmlBytes: 2_500_000 }).issues).toEqual([
+      { id: "size_large", penalty: 5 },
+    ]);
+    expect(scoreOf({ htmlBytes: 4_000_000 }).issues).toEqual([
+      { id: "size_very_large", penalty: 10 },
+    ]);
+    expect(scoreOf({ latencyMs: 1999 }).issues).toEqual([]);
+    expect(scoreOf({ latencyMs: 6000 }).issues).toEqual([
+      { id: "latency_very_slow", penalty: 10 },
+    ]);
+  });
+
+  it("maps alt-text and nofollow statuses to their weights", () => {
+    expect(
+      scoreOf({
+        analysis: {
+          ...CLEAN_INPUT.analysis,
+          imageAltStatus: "low_ratio",
+          nofollowStatus: "high_ratio",
+        },
+      }).issues,
+    ).toEqual([
+      { id: "img_alt_low_ratio", penalty: 5 },
+      { id: "nofollow_high_ratio", penalty: 2 },
+    ]);
+    expect(
+      scoreOf({
+        analysis: { ...CLEAN_INPUT.analysis, imageAltStatus: "very_low_ratio" },
+      }).issues,
+    ).toEqual([{ id: "img_alt_very_low_ratio", penalty: 10 }]);
+  });
+
+  it("never goes below zero", () => {
+    expect(
+      scoreOf({
+        httpStatusCode: 503,
+        analysis: {
+          ...CLEAN_INPUT.analysis,
+          titleStatus: "missing",
+          contentStatus: "very_thin",
+        },
+      }).score,
+    ).toBe(0);
+  });
+});
+
+describe("topSeoIssueIds", () => {
+  it("keeps the first three issue ids", () => {
+    expect(
+      topSeoIssueIds([
+        { id: "a", penalty: 9 },
+        { id: "b", penalty: 5 },
+        { id: "c", penalty: 3 },
+        { id: "d", penalty: 1 },
+      ]),
+    ).toEqual(["a", "b", "c"]);
+  });
+});
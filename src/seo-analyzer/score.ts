@@ -0,0 +1,128 @@
+import { DEFAULT_SEO_CONFIG, type SeoConfig } from "./config";
+import type { PageSeoAnalysis, SeoIssue } from "./type";
+
+// How many issues R2 metadata and the webhook carry per page.
+const TOP_ISSUE_COUNT = 3;
+
+/**
+ * Everything the score is computed from: the page analysis plus counts and
+ * render-time measurements the analysis doesn't keep.
+ */
+export type SeoScoreInput = {
+  analysis: Pick<
+    PageSeoAnalysis,
+    | "isSoft404"
+    | "soft404StatusCode"
+    | "titleStatus"
+    | "metaDescStatus"
+    | "canonical"
+    | "h1Status"
+    | "hasViewport"
+    | "contentStatus"
+    | "imageAltStatus"
+    | "nofollowStatus"
+  >;
+  // HTTP status of the final response (after redirects)
+  httpStatusCode: number;
+  titleCount: number;
+  canonicalCount: number;
+  htmlBytes: number;
+  // Path segments in the page URL ("/a/b" is 2)
+  urlDepth: number;
+  // Unset when the page wasn't rendered by this job (e.g. the CLI analyzer)
+  latencyMs?: number;
+  redirectHops?: number;
+};
+
+/**
+ * Score a page 0–100 by subtracting the config weight of every issue found.
+ * Redirect and depth penalties grow per hop/level up to their caps. Issues
+ * come back heaviest first.
+ */
+export function computeSeoScore(
+  input: SeoScoreInput,
+  config: SeoConfig = DEFAULT_SEO_CONFIG,
+): { score: number; issues: SeoIssue[] } {
+  const { weights, thresholds, caps } = config;
+  const issues: SeoIssue[] = [];
+  const add = (id: string, penalty = weights[id] ?? 0) => {
+    if (penalty > 0) issues.push({ id, penalty });
+  };
+  const { analysis } = input;
+
+  // Status: a soft 404 counts as the status it stands in for.
+  const statusCode = analysis.isSoft404
+    ? (analysis.soft404StatusCode ?? 404)
+    : input.httpStatusCode;
+  if (statusCode >= 500) add("status_5xx");
+  else if (statusCode >= 400) add("status_4xx");
+  else if (statusCode >= 300) add("status_3xx");
+  else if (statusCode !== 200) add("status_200_missing");
+
+  if (input.redirectHops) {
+    add(
+      "redirect_per_hop",
+      Math.min(
+        input.redirectHops * (weights.redirect_per_hop ?? 0),
+        caps.redirect,
+      ),
+    );
+  }
+
+  if (analysis.titleStatus === "missing") add("title_missing");
+  else if (analysis.titleStatus === "too_short") add("title_too_short");
+  else if (analysis.titleStatus === "too_long") add("title_too_long");
+  if (input.titleCount > 1) add("title_multiple");
+
+  if (analysis.metaDescStatus === "missing") add("meta_desc_missing");
+  else if (analysis.metaDescStatus === "too_short") add("meta_desc_too_short");
+  else if (analysis.metaDescStatus === "too_long") add("meta_desc_too_long");
+
+  if (analysis.h1Status === "missing") add("h1_missing");
+  else if (analysis.h1Status === "multiple") add("h1_multiple");
+
+  if (analysis.canonical === "missing") add("canonical_missing");
+  if (input.canonicalCount > 1) add("canonical_multiple");
+
+  if (!analysis.hasViewport) add("viewport_missing");
+
+  if (analysis.contentStatus === "very_thin") add("content_words_very_low");
+  else if (analysis.contentStatus === "thin") add("content_words_low");
+
+  if (input.htmlBytes >= thresholds.size_very_large) add("size_very_large");
+  else if (input.htmlBytes >= thresholds.size_large) add("size_large");
+
+  if (input.latencyMs !== undefined) {
+    const seconds = input.latencyMs / 1000;
+    if (seconds >= thresholds.latency_very_slow) add("latency_very_slow");
+    else if (seconds >= thresholds.latency_slow) add("latency_slow");
+  }
+
+  if (input.urlDepth > thresholds.depth_threshold) {
+    add(
+      "depth_deep",
+      Math.min(
+        (input.urlDepth - thresholds.depth_threshold) *
+          (weights.depth_deep ?? 0),
+        caps.depth,
+      ),
+    );
+  }
+
+  if (analysis.imageAltStatus === "very_low_ratio") {
+    add("img_alt_very_low_ratio");
+  } else if (analysis.imageAltStatus === "low_ratio") {
+    add("img_alt_low_ratio");
+  }
+
+  if (analysis.nofollowStatus === "high_ratio") add("nofollow_high_ratio");
+
+  issues.sort((a, b) => b.penalty - a.penalty);
+  const total = issues.reduce((sum, issue) => sum + issue.penalty, 0);
+  return { score: Math.max(0, 100 - total), issues };
+}
+
+/** Ids of the heaviest issues, for places that can't hold the full list. */
+export function topSeoIssueIds(issues: SeoIssue[]): string[] {
+  return issues.slice(0, TOP_ISSUE_COUNT).map((issue) => issue.id);
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { SeoAnalyzer } from "./index";
+import { parseRobotsTxt } from "../robots-txt";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -510,3 +511,185 @@ describe("analyze() – status code is passed through", () => {
     expect(result.statusCode).toBe(200);
   });
 });
+
+describe("analyze() – robots.txt", () => {
+  it("omits robots.txt fields when none was given", () => {
+    const result = analyze({ body: wordsBody(400) });
+    expect(result.robotsTxt).toBeUndefined();
+    expect(result.robotsTxtVerdict).toBeUndefined();
+  });
+
+  it("records the parsed robots.txt and the page's verdict", () => {
+    const robots = parseRobotsTxt("User-agent: *\nDisallow: /page\n");
+    const result = SeoAnalyzer.register({
+      html: buildHtml({ body: wordsBody(400) }),
+      url: BASE_URL,
+      statusCode: 200,
+      xRobotsTag: null,
+      robotsTxt: { robots, userAgent: "Googlebot" },
+    }).analyze();
+    expect(result.robotsTxt).toBe(robots);
+    expect(result.robotsTxtVerdict).toEqual({
+      userAgent: "Googlebot",
+      allowed: false,
+      rule: "Disallow: /page",
+    });
+  });
+});
+
+describe("analyze() – score", () => {
+  it("scores a well-formed page 100", () => {
+    const result = analyze({
+      title: "A Well Formed Page Title",
+      metaDescription: "x".repeat(80),
+      canonical: BASE_URL,
+      viewport: "width=device-width",
+      h1s: ["Heading"],
+      body: wordsBody(700),
+    });
+    expect(result.score).toBe(100);
+    expect(result.issues).toEqual([]);
+  });
+
+  it("counts images, links and render metrics from the page", () => {
+    const result = SeoAnalyzer.register({
+      html: buildHtml({
+        title: "A Well Formed Page Title",
+        metaDescription: "x".repeat(80),
+        canonical: "https://example.com/a/b/c/d/e",
+        viewport: "width=device-width",
+        h1s: ["Heading"],
+        body: `${wordsBody(700)}<img src="/a.png"><img src="/b.png" alt=" "><a href="/x" rel="nofollow">x</a>`,
+      }),
+      url: "https://example.com/a/b/c/d/e",
+      statusCode: 200,
+      xRobotsTag: null,
+      renderMetrics: { latencyMs: 2500, redirectHops: 2 },
+    }).analyze();
+    expect(result.issues).toEqual([
+      { id: "redirect_per_hop", penalty: 10 },
+      { id: "img_alt_very_low_ratio", penalty: 10 },
+      { id: "depth_deep", penalty: 4 },
+      { id: "latency_slow", penalty: 3 },
+      { id: "nofollow_high_ratio", penalty: 2 },
+    ]);
+    expect(result.score).toBe(71);
+  });
+});
+
+describe("analyze() – images", () => {
+  it("counts images missing alt and with empty alt", () => {
+    const result = analyze({
+      body: '<img src="/a.png" alt="A"><img src="/b.png"><img src="/c.png" alt=" ">',
+    });
+    expect(result.imageCount).toBe(3);
+    expect(result.imagesMissingAlt).toBe(1);
+    expect(result.imagesEmptyAlt).toBe(1);
+    expect(result.imageAltStatus).toBe("low_ratio");
+  });
+
+  it("imageAltStatus is 'very_low_ratio' when 80% or more lack alt", () => {
+    const result = analyze({
+      body: '<img src="/a.png"><img src="/b.png"><img src="/c.png"><img src="/d.png"><img src="/e.png" alt="E">',
+    });
+    expect(result.imageAltStatus).toBe("very_low_ratio");
+  });
+
+  it("imageAltStatus is 'ok' without images", () => {
+    const result = analyze({});
+    expect(result.imageCount).toBe(0);
+    expect(result.imageAltStatus).toBe("ok");
+  });
+});
+
+describe("analyze() – links", () => {
+  it("splits internal and external links and flags broken-looking hrefs", () => {
+    const result = analyze({
+      body: [
+        '<a href="/about">About</a>',
+        '<a href="https://example.com/pricing#plans">Pricing</a>',
+        '<a href="https://other.com/" rel="nofollow noopener">Other</a>',
+        '<a href="mailto:hi@example.com">Mail</a>',
+        '<a href="#">Top</a>',
+        '<a href="">Empty</a>',
+        '<a href="JavaScript:void(0)">Menu</a>',
+        "<a>Placeholder</a>",
+      ].join(""),
+    });
+    expect(result).toMatchObject({
+      linkCount: 7,
+      internalLinkCount: 2,
+      externalLinkCount: 1,
+      nofollowLinkCount: 1,
+      brokenLinkCount: 3,
+      internalLinkStatus: "ok",
+      nofollowStatus: "ok",
+      brokenLinkStatus: "found",
+    });
+  });
+
+  it("flags a page without internal links", () => {
+    const result = analyze({ body: '<a href="https://other.com/">Other</a>' });
+    expect(result.internalLinkStatus).toBe("none");
+    expect(result.brokenLinkStatus).toBe("ok");
+  });
+
+  it("nofollowStatus is 'high_ratio' when 80% or more links are nofollow", () => {
+    const result = analyze({
+      body: Array.from(
+        { length: 5 },
+        (_, i) => `<a href="/p${i}"${i < 4 ? ' rel="nofollow"' : ""}>p</a>`,
+      ).join(""),
+    });
+    expect(result.nofollowStatus).toBe("high_ratio");
+  });
+});
+
+describe("analyze() – structured data", () => {
+  it("structuredDataStatus is 'none' without structured data", () => {
+    const result = analyze({});
+    expect(result.structuredDataTypes).toEqual([]);
+    expect(result.structuredDataStatus).toBe("none");
+  });
+
+  it("structuredDataStatus is 'ok' when every known type is complete", () => {
+    const result = analyze({
+      headExtra:
+        '<script type="application/ld+json">{"@type":"Organization","name":"Acme","url":"https://example.com"}</script>',
+    });
+    expect(result.structuredDataTypes).toEqual(["Organization"]);
+    expect(result.structuredDataStatus).toBe("ok");
+  });
+
+  it("structuredDataStatus is 'invalid' for broken JSON or missing properties", () => {
+    expect(
+      analyze({
+        headExtra: '<script type="application/ld+json">{oops</script>',
+      }).structuredDataStatus,
+    ).toBe("invalid");
+    expect(
+      analyze({
+        headExtra:
+          '<script type="application/ld+json">{"@type":"Article","headline":"x"}</script>',
+      }).structuredDataStatus,
+    ).toBe("invalid");
+  });
+});
+
+describe("analyze() – hreflang", () => {
+  it("records the alternates and their per-page checks", () => {
+    const result = analyze({
+      headExtra: [
+        `<link rel="alternate" hreflang="en" href="${BASE_URL}">`,
+        '<link rel="alternate" hreflang="fr" href="https://example.com/fr/page">',
+      ].join(""),
+    });
+    expect(result.hreflangs).toEqual([
+      { hreflang: "en", href: BASE_URL },
+      { hreflang: "fr", href: "https://example.com/fr/page" },
+    ]);
+    expect(result.hreflangSelfReference).toBe(true);
+    expect(result.hreflangHasXDefault).toBe(false);
+    expect(result.hreflangStatus).toBe("missing_x_default");
+  });
+});
@@ -0,0 +1,159 @@
+import { parse } from "node-html-parser";
+import { describe, expect, it } from "vitest";
+import {
+  extractStructuredData,
+  structuredDataToMetadata,
+} from "./structured-data";
+
+function jsonLd(value: unknown): string {
+  return `<script type="application/ld+json">${JSON.stringify(value)}</script>`;
+}
+
+function extract(html: string) {
+  return extractStructuredData(parse(`<html><body>${html}</body></html>`));
+}
+
+describe("extractStructuredData", () => {
+  it("reports JSON-LD types and their missing required properties", () => {
+    const result = extract(
+      jsonLd({
+        "@context": "https://schema.org",
+        "@type": "Product",
+        name: "Widget",
+      }) +
+        jsonLd({
+          "@context": "https://schema.org",
+          "@type": "BlogPosting",
+          headline: "Post",
+          image: "https://example.com/a.png",
+          datePublished: "2026-01-01",
+        }),
+    );
+    expect(result.structuredDataTypes).toEqual(["Product", "BlogPosting"]);
+    expect(result.structuredData).toEqual([
+      {
+        source: "json-ld",
+        type: "Product",
+        missingProperties: ["offers|review|aggregateRating"],
+        richResultEligible: false,
+      },
+      {
+        source: "json-ld",
+        type: "BlogPosting",
+        missingProperties: [],
+        richResultEligible: true,
+      },
+    ]);
+    expect(result.invalidJsonLdCount).toBe(0);
+  });
+
+  it("walks arrays and @graph, and shortens schema.org type URLs", () => {
+    const result = extract(
+      jsonLd({
+        "@context": "https://schema.org",
+        "@graph": [
+          {
+            "@type": "Organization",
+            name: "Acme",
+            url: "https://example.com",
+          },
+          { "@type": ["https://schema.org/WebPage", "FAQPage"] },
+        ],
+      }),
+    );
+    expect(result.structuredDataTypes).toEqual([
+      "Organization",
+      "WebPage",
+      "FAQPage",
+    ]);
+    expect(
+      result.structuredData.map((item) => [item.type, item.missingProperties]),
+    ).toEqual([
+      ["Organization", []],
+      ["WebPage", []],
+      ["FAQPage", ["mainEntity"]],
+    ]);
+    // Unknown types have nothing to be eligible for
+    expect(result.structuredData[1]?.richResultEligible).toBe(false);
+  });
+
+  it("reads JSON-LD whatever the case, spacing or parameters of its type", () => {
+    const article = '{"@type":"Article","headline":"x"}';
+    const result = extract(`
+      <script type=" Application/LD+JSON ">${article}</script>
+      <script type="application/ld+json; charset=utf-8">${article}</script>
+      <script type="application/json">${article}</script>
+    `);
+    expect(result.structuredDataTypes).toEqual(["Article"]);
+    expect(result.structuredData).toHaveLength(2);
+  });
+
+  it("counts JSON-LD blocks that aren't valid JSON", () => {
+    const result = extract(
+      '<script type="application/ld+json">{"@type": "Article",}</script>',
+    );
+    expect(result.invalidJsonLdCount).toBe(1);
+    expect(result.structuredData).toEqual([]);
+  });
+
+  it("reads top-level microdata items and their own properties", () => {
+    const result = extract(`
+      <div itemscope itemtype="https://schema.org/Product">
+        <span itemprop="name">Widget</span>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <span itemprop="price">10</span>
+        </div>
+      </div>
+      <ol itemscope itemtype="https://schema.org/BreadcrumbList"></ol>
+    `);
+    expect(result.structuredData).toEqual([
+      {
+        source: "microdata",
+        type: "Product",
+        missingProperties: [],
+        richResultEligible: true,
+      },
+      {
+        source: "microdata",
+        type: "BreadcrumbList",
+        missingProperties: ["itemListElement"],
+        richResultEligible: false,
+      },
+    ]);
+  });
+
+  it("returns nothing for a page without structured data", () => {
+    expect(extract("<p>Hello</p>")).toEqual({
+      structuredDataTypes: [],
+      structuredData: [],
+      invalidJsonLdCount: 0,
+    });
+  });
+});
+
+describe("structuredDataToMetadata", () => {
+  it("lists types, rich-result types and missing properties", () => {
+    expect(
+      structuredDataToMetadata(
+        extract(
+          jsonLd({ "@type": "Product", name: "Widget" }) +
+            jsonLd({ "@type": "Organization", name: "Acme", url: "/" }) +
+            jsonLd({ "@type": "Article" }),
+        ),
+      ),
+    ).toEqual({
+      seoStructuredDataTypes: "Product,Organization,Article",
+      seoInvalidJsonLdCount: "0",
+      seoRichResultTypes: "Organization",
+      seoStructuredDataMissing:
+        "Product.offers|review|aggregateRating,Article.headline,Article.image,Article.datePublished",
+    });
+  });
+
+  it("keeps header values ASCII", () => {
+    expect(
+      structuredDataToMetadata(extract(jsonLd({ "@type": "Événement" })))
+        .seoStructuredDataTypes,
+    ).toBe("?v?nement");
+  });
+});
@@ -0,0 +1,185 @@
+import type { HTMLElement } from "node-html-parser";
+import type { StructuredData, StructuredDataItem } from "./type";
+
+// Properties Google needs before a type is eligible for its rich result. An
+// inner array means any one of those properties will do.
+const REQUIRED_PROPERTIES: Record<string, (string | string[])[]> = {
+  Article: ["headline", "image", "datePublished"],
+  Product: ["name", ["offers", "review", "aggregateRating"]],
+  BreadcrumbList: ["itemListElement"],
+  Organization: ["name", "url"],
+  FAQPage: ["mainEntity"],
+};
+
+// Subtypes checked against their parent type's requirements.
+const TYPE_ALIASES: Record<string, string> = {
+  NewsArticle: "Article",
+  BlogPosting: "Article",
+};
+
+/** "https://schema.org/Product" and "schema:Product" both become "Product". */
+function shortTypeName(type: string): string {
+  return type.trim().replace(/^.*[/#:]/, "");
+}
+
+function checkItem(
+  source: StructuredDataItem["source"],
+  type: string,
+  properties: Set<string>,
+): StructuredDataItem {
+  const required = REQUIRED_PROPERTIES[TYPE_ALIASES[type] ?? type];
+  const missingProperties = (required ?? [])
+    .filter((property) =>
+      Array.isArray(property)
+        ? !property.some((p) => properties.has(p))
+        : !properties.has(property),
+    )
+    .map((property) =>
+      Array.isArray(property) ? property.join("|") : property,
+    );
+  return {
+    source,
+    type,
+    missingProperties,
+    richResultEligible: !!required && missingProperties.length === 0,
+  };
+}
+
+// Top-level JSON-LD nodes: the block itself, the entries of an array, or the
+// members of an @graph.
+function jsonLdNodes(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) return value.flatMap(jsonLdNodes);
+  if (!value || typeof value !== "object") return [];
+  const node = value as Record<string, unknown>;
+  const graph = Array.isArray(node["@graph"])
+    ? jsonLdNodes(node["@graph"])
+    : [];
+  return node["@type"] !== undefined ? [node, ...graph] : graph;
+}
+
+function jsonLdTypes(node: Record<string, unknown>): string[] {
+  const types = Array.isArray(node["@type"]) ? node["@type"] : [node["@type"]];
+  return types
+    .filter((type): type is string => typeof type === "string")
+    .map(shortTypeName)
+    .filter(Boolean);
+}
+
+// Media types are case-insensitive and may carry parameters or stray
+// whitespace: `application/ld+json; charset=utf-8` is JSON-LD too.
+function isJsonLdType(type: string | undefined): boolean {
+  const mediaType = type?.split(";")[0]?.trim().toLowerCase();
+  return mediaType === "application/ld+json";
+}
+
+function extractJsonLd(root: HTMLElement): {
+  items: StructuredDataItem[];
+  invalidJsonLdCount: number;
+} {
+  const items: StructuredDataItem[] = [];
+  let invalidJsonLdCount = 0;
+  for (const script of root.querySelectorAll("script")) {
+    if (!isJsonLdType(script.getAttribute("type"))) {
+      continue;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(script.rawText);
+    } catch {
+      invalidJsonLdCount++;
+      continue;
+    }
+    for (const node of jsonLdNodes(parsed)) {
+      const properties = new Set(
+        Object.keys(node).filter((key) => !key.startsWith("@")),
+      );
+      for (const type of jsonLdTypes(node)) {
+        items.push(checkItem("json-ld", type, properties));
+      }
+    }
+  }
+  return { items, invalidJsonLdCount };
+}
+
+// Top-level microdata items only; nested ones (itemprop + itemscope, e.g. a
+// Product's Offer) count as a property of their parent.
+function extractMicrodata(root: HTMLElement): StructuredDataItem[] {
+  const items: StructuredDataItem[] = [];
+  for (const scope of root.querySelectorAll("[itemscope][itemtype]")) {
+    if (scope.hasAttribute("itemprop")) continue;
+    const properties = new Set<string>();
+    for (const element of scope.querySelectorAll("[itemprop]")) {
+      // Skip properties that belong to a nested item
+      if (element.parentNode.closest("[itemscope]") !== scope) continue;
+      const names = element.getAttribute("itemprop") ?? "";
+      for (const name of names.split(/\s+/)) {
+        if (name) properties.add(name);
+      }
+    }
+    // itemtype may list several types of the same vocabulary
+    const types = (scope.getAttribute("itemtype") ?? "")
+      .split(/\s+/)
+      .map(shortTypeName)
+      .filter(Boolean);
+    for (const type of types) {
+      items.push(checkItem("microdata", type, properties));
+    }
+  }
+  return items;
+}
+
+/**
+ * JSON-LD blocks and microdata on the page, with the required properties each
+ * item of a known type is missing.
+ */
+export function extractStructuredData(root: HTMLElement): StructuredData {
+  const jsonLd = extractJsonLd(root);
+  const items = [...jsonLd.items, ...extractMicrodata(root)];
+  return {
+    structuredDataTypes: [...new Set(items.map((item) => item.type))],
+    structuredData: items,
+    invalidJsonLdCount: jsonLd.invalidJsonLdCount,
+  };
+}
+
+// R2 metadata travels as HTTP headers: printable ASCII only, and the whole
+// object's metadata is capped at 8KB. Lists are cut at the last entry that
+// fits.
+function fitList(entries: string[], maxBytes: number): string {
+  let out = "";
+  for (const entry of entries) {
+    const safe = entry.replace(/[^\x20-\x7E]/g, "?");
+    const next = out ? `${out},${safe}` : safe;
+    if (next.length > maxBytes) break;
+    out = next;
+  }
+  return out;
+}
+
+/** Structured data findings as R2 object metadata for the dashboard. */
+export function structuredDataToMetadata(
+  data: StructuredData,
+): Record<string, string> {
+  const unique = (values: string[]) => [...new Set(values)];
+  return {
+    seoStructuredDataTypes: fitList(data.structuredDataTypes, 300),
+    seoInvalidJsonLdCount: String(data.invalidJsonLdCount),
+    seoRichResultTypes: fitList(
+      unique(
+        data.structuredData
+          .filter((item) => item.richResultEligible)
+          .map((item) => item.type),
+      ),
+      300,
+    ),
+    // e.g. "Product.offers|review|aggregateRating,Article.image"
+    seoStructuredDataMissing: fitList(
+      unique(
+        data.structuredData.flatMap((item) =>
+          item.missingProperties.map((property) => `${item.type}.${property}`),
+        ),
+      ),
+      500,
+    ),
+  };
+}
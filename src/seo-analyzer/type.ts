@@ -26,6 +26,14 @@ export type RobotsTxtResult = {
   raw: string;
 };
 
+// Whether robots.txt lets a crawler fetch a page. `rule` is the deciding
+// line (e.g. "Disallow: /admin"); null when no rule matched.
+export type RobotsTxtVerdict = {
+  userAgent: string;
+  allowed: boolean;
+  rule: string | null;
+};
+
 export type MetaTags = {
   title?: string;
   titleLength?: number;
@@ -37,6 +45,55 @@ export type MetaTags = {
   charset?: string;
 };
 
+// One thing lowering a page's SEO score. `id` is the DEFAULT_SEO_CONFIG weight
+// it was scored with; `penalty` is the points it cost.
+export type SeoIssue = {
+  id: string;
+  penalty: number;
+};
+
+export type ImageAudit = {
+  imageCount: number;
+  // No alt attribute at all
+  imagesMissingAlt: number;
+  // alt="" (or whitespace only)
+  imagesEmptyAlt: number;
+};
+
+export type LinkAudit = {
+  // Every <a href>, including the broken-looking ones
+  linkCount: number;
+  // http(s) links to the page's own host / to any other host
+  internalLinkCount: number;
+  externalLinkCount: number;
+  nofollowLinkCount: number;
+  // href is empty, "#" or javascript:
+  brokenLinkCount: number;
+};
+
+// One JSON-LD node or top-level microdata item. `missingProperties` lists the
+// rich-result properties a known type (Article, Product, BreadcrumbList,
+// Organization, FAQPage) lacks; "a|b" means one of them is needed.
+export type StructuredDataItem = {
+  source: "json-ld" | "microdata";
+  type: string;
+  missingProperties: string[];
+  richResultEligible: boolean;
+};
+
+export type StructuredData = {
+  structuredDataTypes: string[];
+  structuredData: StructuredDataItem[];
+  // <script type="application/ld+json"> blocks that aren't valid JSON
+  invalidJsonLdCount: number;
+};
+
+// <link rel="alternate" hreflang="..." href="...">, href made absolute
+export type HreflangLink = {
+  hreflang: string;
+  href: string;
+};
+
 export type IndexableReason =
   | "noindex_meta"
   | "noindex_header"
@@ -72,6 +129,8 @@ export type PageSeoAnalysis = {
 
   // Canonical
   canonical?: string;
+  // The <link rel="canonical"> href itself
+  canonicalUrl?: string;
   canonicalMismatch?: boolean;
 
   // H1
@@ -83,6 +142,40 @@ export type PageSeoAnalysis = {
   wordCount: number;
   contentStatus?: "ok" | "thin" | "very_thin";
 
+  // Images
+  imageCount: number;
+  imagesMissingAlt: number;
+  imagesEmptyAlt: number;
+  imageAltStatus?: "ok" | "low_ratio" | "very_low_ratio";
+
+  // Links
+  linkCount: number;
+  internalLinkCount: number;
+  externalLinkCount: number;
+  nofollowLinkCount: number;
+  brokenLinkCount: number;
+  internalLinkStatus?: "ok" | "none";
+  nofollowStatus?: "ok" | "high_ratio";
+  brokenLinkStatus?: "ok" | "found";
+
+  // Structured data
+  structuredDataTypes: string[];
+  structuredData: StructuredDataItem[];
+  invalidJsonLdCount: number;
+  structuredDataStatus?: "ok" | "none" | "invalid";
+
+  // Hreflang alternates. Reciprocity between pages is checked per batch.
+  hreflangs: HreflangLink[];
+  hreflangSelfReference: boolean;
+  hreflangHasXDefault: boolean;
+  hreflangInvalidCodes: string[];
+  hreflangStatus?:
+    | "ok"
+    | "none"
+    | "invalid_code"
+    | "missing_self_reference"
+    | "missing_x_default";
+
   // Social tags
   hasOgTags: boolean;
   hasTwitterTags: boolean;
@@ -91,4 +184,12 @@ export type PageSeoAnalysis = {
   robotsMeta?: string;
   viewport?: string;
   hasViewport: boolean;
+
+  // Score (0–100) and the issues that lowered it, heaviest first
+  score: number;
+  issues: SeoIssue[];
+
+  // robots.txt (batch job only; unset when it wasn't available)
+  robotsTxt?: RobotsTxtResult;
+  robotsTxtVerdict?: RobotsTxtVerdict;
 };
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import type { PipelineResult } from "./pipeline-result";
+import { buildSeoReport, buildSeoReportKey } from "./seo-report";
+
+function rendered(
+  path: string,
+  seo: Pick<
+    PipelineResult,
+    "seoTitle" | "seoMetaDescription" | "seoCanonicalUrl"
+  > = {},
+): PipelineResult {
+  return {
+    url: `https://example.com${path}`,
+    isRendered: true,
+    isCachedToR2: true,
+    ...seo,
+  };
+}
+
+function report(results: PipelineResult[]) {
+  return buildSeoReport({
+    batchId: "batch-1",
+    results,
+    canonicalDomain: "example.com",
+  });
+}
+
+describe("buildSeoReport", () => {
+  it("groups duplicate titles and descriptions, largest group first", () => {
+    const result = report([
+      rendered("/a", { seoTitle: "Shop", seoMetaDescription: "Buy things" }),
+      rendered("/b", { seoTitle: "Widget", seoMetaDescription: "Buy  things" }),
+      rendered("/c", { seoTitle: "shop " }),
+      rendered("/d", { seoTitle: "Widget" }),
+      rendered("/e", { seoTitle: "Widget" }),
+      rendered("/f", { seoTitle: "Unique" }),
+    ]);
+    expect(result.duplicateTitles).toEqual([
+      {
+        title: "Widget",
+        urls: [
+          "https://example.com/b",
+          "https://example.com/d",
+          "https://example.com/e",
+        ],
+      },
+      {
+        title: "Shop",
+        urls: ["https://example.com/a", "https://example.com/c"],
+      },
+    ]);
+    expect(result.duplicateDescriptions).toEqual([
+      {
+        description: "Buy things",
+        urls: ["https://example.com/a", "https://example.com/b"],
+      },
+    ]);
+    expect(result.pageCount).toBe(6);
+  });
+
+  it("clusters pages declaring the same canonical", () => {
+    const result = report([
+      rendered("/shoes", { seoCanonicalUrl: "https://example.com/shoes" }),
+      rendered("/shoes/red", {
+        seoCanonicalUrl: "https://www.example.com/shoes/",
+      }),
+      rendered("/hats", { seoCanonicalUrl: "https://example.com/hats" }),
+    ]);
+    expect(result.canonicalClusters).toEqual([
+      {
+        canonical: "https://example.com/shoes",
+        urls: ["https://example.com/shoes", "https://example.com/shoes/red"],
+      },
+    ]);
+    expect(result.brokenCanonicals).toEqual([]);
+  });
+
+  it("flags canonicals pointing at failed or unrendered pages", () => {
+    const result = report([
+      rendered("/a", { seoCanonicalUrl: "https://example.com/failed" }),
+      rendered("/b", { seoCanonicalUrl: "https://example.com/missing" }),
+      rendered("/c", { seoCanonicalUrl: "https://example.com/fresh" }),
+      rendered("/d", { seoCanonicalUrl: "https://elsewhere.com/d" }),
+      {
+        url: "https://example.com/failed",
+        isRendered: false,
+        isCachedToR2: false,
+      },
+      {
+        url: "https://example.com/fresh",
+        isRendered: false,
+        isCachedToR2: false,
+        isSkippedFresh: true,
+      },
+    ]);
+    expect(result.brokenCanonicals).toEqual([
+      {
+        url: "https://example.com/a",
+        canonical: "https://example.com/failed",
+        reason: "failed",
+      },
+      {
+        url: "https://example.com/b",
+        canonical: "https://example.com/missing",
+        reason: "not_rendered",
+      },
+    ]);
+    expect(result.pageCount).toBe(4);
+    expect(result.pagesWithoutAnalysis).toBe(1);
+  });
+
+  it("covers fresh pages whose stored analysis was read back", () => {
+    const result = report([
+      rendered("/a", { seoTitle: "Shop" }),
+      {
+        url: "https://example.com/b",
+        isRendered: false,
+        isCachedToR2: false,
+        isSkippedFresh: true,
+        hasStoredAnalysis: true,
+        seoTitle: "Shop",
+      },
+    ]);
+    expect(result.duplicateTitles).toEqual([
+      {
+        title: "Shop",
+        urls: ["https://example.com/a", "https://example.com/b"],
+      },
+    ]);
+    expect(result.pageCount).toBe(2);
+    expect(result.pagesWithoutAnalysis).toBe(0);
+  });
+
+  it("keeps the query string when matching canonicals", () => {
+    const result = report([
+      rendered("/list", { seoCanonicalUrl: "https://example.com/list" }),
+      rendered("/list?page=2", {
+        seoCanonicalUrl: "https://example.com/list?page=2",
+      }),
+      rendered("/list?sort=asc", {
+        seoCanonicalUrl: "https://example.com/list",
+      }),
+      rendered("/list?page=3", {
+        seoCanonicalUrl: "https://example.com/list?page=4",
+      }),
+    ]);
+    expect(result.canonicalClusters).toEqual([
+      {
+        canonical: "https://example.com/list",
+        urls: ["https://example.com/list", "https://example.com/list?sort=asc"],
+      },
+    ]);
+    expect(result.brokenCanonicals).toEqual([
+      {
+        url: "https://example.com/list?page=3",
+        canonical: "https://example.com/list?page=4",
+        reason: "not_rendered",
+      },
+    ]);
+  });
+
+  it("includes the batch hreflang report", () => {
+    expect(report([rendered("/")]).hreflang.pagesWithHreflang).toBe(0);
+  });
+});
+
+describe("buildSeoReportKey", () => {
+  it("is batch-scoped", () => {
+    expect(buildSeoReportKey("batch-1")).toBe(
+      "batches/batch-1/seo-report.json",
+    );
+  });
+});
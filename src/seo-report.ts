@@ -0,0 +1,153 @@
+import { buildHreflangReport, type HreflangReport } from "./hreflang-report";
+import { hasSeoAnalysis, type PipelineResult } from "./pipeline-result";
+
+/**
+ * Batch-wide SEO findings that no single page's analysis can see. Written
+ * next to the batch's shard manifests; the webhook carries its counts.
+ */
+export interface SeoReport {
+  batchId: string;
+  generatedAt: string;
+  // Pages the report was built from: rendered in this run, or skipped as
+  // fresh with their stored analysis read back
+  pageCount: number;
+  // Pages skipped as fresh whose stored analysis couldn't be read (snapshots
+  // from before sidecars); the report doesn't cover them
+  pagesWithoutAnalysis: number;
+  // Groups of two or more pages sharing one value, largest first
+  duplicateTitles: { title: string; urls: string[] }[];
+  duplicateDescriptions: { description: string; urls: string[] }[];
+  // Two or more pages declaring the same canonical URL
+  canonicalClusters: { canonical: string; urls: string[] }[];
+  // Pages whose canonical points at another page of the site that failed to
+  // render or isn't in the batch at all
+  brokenCanonicals: {
+    url: string;
+    canonical: string;
+    reason: "failed" | "not_rendered";
+  }[];
+  hreflang: HreflangReport;
+}
+
+export function buildSeoReportKey(batchId: string): string {
+  return `batches/${batchId}/seo-report.json`;
+}
+
+// Titles and descriptions compare case- and whitespace-insensitively.
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function stripWww(hostname: string): string {
+  return hostname.replace(/^www\./, "");
+}
+
+function groupDuplicates(
+  results: PipelineResult[],
+  valueOf: (result: PipelineResult) => string | undefined,
+  normalize: (value: string) => string | null,
+): { value: string; urls: string[] }[] {
+  const groups = new Map<string, { value: string; urls: string[] }>();
+  for (const result of results) {
+    const value = valueOf(result);
+    const key = value === undefined ? null : normalize(value);
+    if (value === undefined || !key) continue;
+    const group = groups.get(key);
+    if (group) {
+      group.urls.push(result.url);
+    } else {
+      groups.set(key, { value, urls: [result.url] });
+    }
+  }
+  return [...groups.values()]
+    .filter((group) => group.urls.length > 1)
+    .sort((a, b) => b.urls.length - a.urls.length);
+}
+
+/**
+ * `results` should hold one result per URL (a single render profile). Pages
+ * and canonicals are matched by path and query string on the site's own
+ * hosts (the batch's URLs plus `canonicalDomain`, with or without "www."),
+ * because the sanitizer rewrites canonicals onto the canonical domain.
+ */
+export function buildSeoReport({
+  batchId,
+  results,
+  canonicalDomain,
+}: {
+  batchId: string;
+  results: PipelineResult[];
+  canonicalDomain: string;
+}): SeoReport {
+  const siteHosts = new Set([stripWww(canonicalDomain)]);
+  for (const result of results) {
+    try {
+      siteHosts.add(stripWww(new URL(result.url).hostname));
+    } catch {
+      // Unparsable URL: no host to add
+    }
+  }
+  const sitePath = (url: string): string | null => {
+    try {
+      const { hostname, pathname, search } = new URL(url);
+      // `?page=2` is a page of its own, so the query string stays
+      return siteHosts.has(stripWww(hostname))
+        ? (pathname.replace(/\/+$/, "") || "/") + search
+        : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const analyzed = results.filter(hasSeoAnalysis);
+  const resultByPath = new Map<string, PipelineResult>();
+  for (const result of results) {
+    const path = sitePath(result.url);
+    if (path !== null) resultByPath.set(path, result);
+  }
+
+  const brokenCanonicals: SeoReport["brokenCanonicals"] = [];
+  for (const result of analyzed) {
+    const canonical = result.seoCanonicalUrl;
+    const canonicalPath = canonical ? sitePath(canonical) : null;
+    if (!canonical || canonicalPath === null) continue;
+    if (canonicalPath === sitePath(result.url)) continue;
+    const target = resultByPath.get(canonicalPath);
+    // A fresh skipped snapshot is still live, so it's a valid target
+    if (!target) {
+      brokenCanonicals.push({
+        url: result.url,
+        canonical,
+        reason: "not_rendered",
+      });
+    } else if (!target.isRendered && !target.isSkippedFresh) {
+      brokenCanonicals.push({ url: result.url, canonical, reason: "failed" });
+    }
+  }
+
+  return {
+    batchId,
+    generatedAt: new Date().toISOString(),
+    pageCount: analyzed.length,
+    pagesWithoutAnalysis: results.filter(
+      (result) => result.isSkippedFresh && !result.hasStoredAnalysis,
+    ).length,
+    duplicateTitles: groupDuplicates(
+      analyzed,
+      (result) => result.seoTitle,
+      normalizeText,
+    ).map(({ value, urls }) => ({ title: value, urls })),
+    duplicateDescriptions: groupDuplicates(
+      analyzed,
+      (result) => result.seoMetaDescription,
+      normalizeText,
+    ).map(({ value, urls }) => ({ description: value, urls })),
+    canonicalClusters: groupDuplicates(
+      analyzed,
+      (result) => result.seoCanonicalUrl,
+      sitePath,
+    ).map(({ value, urls }) => ({ canonical: value, urls })),
+    brokenCanonicals,
+    hreflang: buildHreflangReport(results),
+  };
+}
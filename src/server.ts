@@ -0,0 +1,52 @@
+import { createServer } from "node:http";
+import { BrowserPool } from "./browser-pool";
+import { loadServerConfig } from "./load-config";
+import { AppLogger } from "./logger";
+import { launchBrowser } from "./pipeline";
+import { RenderServer } from "./render-server";
+import { createSnapshotStore } from "./snapshot-store";
+
+const logger = AppLogger.register({ prefix: "server" });
+
+async function main(): Promise<void> {
+  const config = loadServerConfig();
+
+  const pool = BrowserPool.register({
+    size: config.concurrency,
+    launch: launchBrowser,
+    logger,
+  });
+  await pool.init();
+
+  const store = config.storage ? createSnapshotStore(config.storage) : null;
+  if (store) {
+    logger.info(`Snapshot store: ${store.location}`);
+  }
+  const renderServer = RenderServer.register({ config, pool, store });
+  const server = createServer((req, res) => {
+    void renderServer.handle(req, res);
+  });
+
+  const shutdown = (signal: string) => {
+    logger.info(`${signal} received, shutting down`);
+    server.close(() => {
+      void pool.closeAll().finally(() => process.exit(0));
+    });
+  };
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+
+  await new Promise<void>((resolve) =>
+    server.listen(config.port, config.host, resolve),
+  );
+  logger.info(
+    `Render server listening on http://${config.host}:${config.port} with ${config.concurrency} browser(s)${config.authToken ? " (auth required)" : ""}`,
+  );
+}
+
+main().catch((error) => {
+  logger.error(
+    `Failed to start the render server: ${error instanceof Error ? error.message : String(error)}`,
+  );
+  process.exit(1);
+});
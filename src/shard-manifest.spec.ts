@@ -0,0 +1,301 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AppLogger } from "./logger";
+import type { PipelineResult } from "./pipeline-result";
+import {
+  buildShardManifestKey,
+  finalizeShard,
+  loadShardProgress,
+  selectResumedResults,
+  ShardCheckpointer,
+  type ShardManifest,
+} from "./shard-manifest";
+import { getJsonObject, LocalFsStore, putJsonObject } from "./snapshot-store";
+
+const BATCH_ID = "batch-1";
+
+function synced(url: string, profile?: string): PipelineResult {
+  return {
+    url,
+    ...(profile && { profile }),
+    isRendered: true,
+    isCachedToR2: true,
+  };
+}
+
+function failed(url: string): PipelineResult {
+  return { url, isRendered: false, isCachedToR2: false };
+}
+
+function manifestOf(
+  index: number,
+  {
+    count = 2,
+    executionId = "exec-2",
+    completedAt = 2000,
+    results = [synced(`https://example.com/${index}`)],
+    discoveredUrls,
+  }: Partial<Omit<ShardManifest, "shard">> & { count?: number } = {},
+): ShardManifest {
+  return {
+    batchId: BATCH_ID,
+    executionId,
+    shard: { index, count },
+    sitemapUrl: "https://example.com/sitemap.xml",
+    startedAt: 1000 + index,
+    completedAt,
+    results,
+    ...(discoveredUrls && { discoveredUrls }),
+  };
+}
+
+describe("shard manifests", () => {
+  let rootDir: string;
+  let store: LocalFsStore;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "shard-manifest-"));
+    store = LocalFsStore.register({ rootDir });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  async function writeManifest(manifest: ShardManifest) {
+    await putJsonObject(store, buildShardManifestKey(manifest), manifest);
+  }
+
+  describe("finalizeShard", () => {
+    it("reports a single-shard run straight away", async () => {
+      const manifest = manifestOf(0, { count: 1 });
+
+      expect(await finalizeShard({ store, manifest })).toEqual([manifest]);
+      expect(
+        await getJsonObject(store, buildShardManifestKey(manifest)),
+      ).toEqual(manifest);
+    });
+
+    it("leaves the report to the last shard to finish", async () => {
+      await writeManifest(manifestOf(1, { completedAt: null }));
+
+      expect(
+        await finalizeShard({ store, manifest: manifestOf(0) }),
+      ).toBeNull();
+      expect(await finalizeShard({ store, manifest: manifestOf(1) })).toEqual([
+        manifestOf(0),
+        manifestOf(1),
+      ]);
+    });
+
+    it("doesn't merge a shard finished by another execution", async () => {
+      await writeManifest(manifestOf(1, { executionId: "exec-1" }));
+
+      expect(
+        await finalizeShard({ store, manifest: manifestOf(0) }),
+      ).toBeNull();
+    });
+
+    it("names every shard still missing", async () => {
+      const warn = vi.spyOn(AppLogger.prototype, "warn");
+      await writeManifest(manifestOf(1, { count: 3, completedAt: null }));
+
+      await finalizeShard({ store, manifest: manifestOf(0, { count: 3 }) });
+
+      const logged = warn.mock.calls.flat().join("\n");
+      expect(logged).toContain("2/3 (checkpoint only)");
+      expect(logged).toContain("3/3 (no manifest)");
+      warn.mockRestore();
+    });
+
+    it("lets exactly one of two shards finishing together report", async () => {
+      const put = vi.spyOn(store, "put");
+      await writeManifest(manifestOf(0));
+      await writeManifest(manifestOf(1));
+
+      const reports = await Promise.all([
+        finalizeShard({ store, manifest: manifestOf(0) }),
+        finalizeShard({ store, manifest: manifestOf(1) }),
+      ]);
+
+      expect(reports.filter((report) => report !== null)).toHaveLength(1);
+      const lockWrites = put.mock.calls.filter(([key]) =>
+        key.endsWith("/report-exec-2.lock"),
+      );
+      expect(lockWrites).toHaveLength(2);
+      for (const [, , options] of lockWrites) {
+        expect(options.ifAbsent).toBe(true);
+      }
+    });
+
+    it("reports each execution of a batch once", async () => {
+      await writeManifest(manifestOf(1));
+      expect(
+        await finalizeShard({ store, manifest: manifestOf(0) }),
+      ).not.toBeNull();
+      expect(
+        await finalizeShard({ store, manifest: manifestOf(0) }),
+      ).toBeNull();
+
+      // A later execution takes its own lock
+      await writeManifest(manifestOf(1, { executionId: "exec-3" }));
+      expect(
+        await finalizeShard({
+          store,
+          manifest: manifestOf(0, { executionId: "exec-3" }),
+        }),
+      ).not.toBeNull();
+    });
+  });
+
+  it("carries over synced and fresh-skipped results, and discovered URLs", async () => {
+    const fresh: PipelineResult = {
+      url: "https://example.com/fresh",
+      isRendered: false,
+      isCachedToR2: false,
+      isSkippedFresh: true,
+    };
+    await writeManifest(
+      manifestOf(0, {
+        completedAt: null,
+        results: [
+          synced("https://example.com/a"),
+          failed("https://example.com/b"),
+          fresh,
+        ],
+        discoveredUrls: [{ url: "https://example.com/b", depth: 1 }],
+      }),
+    );
+
+    expect(
+      await loadShardProgress({
+        store,
+        batchId: BATCH_ID,
+        shard: { index: 0, count: 2 },
+      }),
+    ).toEqual({
+      syncedResults: [synced("https://example.com/a"), fresh],
+      discoveredUrls: [{ url: "https://example.com/b", depth: 1 }],
+    });
+  });
+
+  describe("selectResumedResults", () => {
+    const profileNamesFor = (url: string) =>
+      url.endsWith("/both") ? ["desktop", "mobile"] : ["desktop"];
+
+    it("keeps a URL only once all of its profiles synced", () => {
+      expect(
+        selectResumedResults({
+          synced: [
+            synced("https://example.com/both"),
+            synced("https://example.com/half/both"),
+            synced("https://example.com/both", "mobile"),
+            synced("https://example.com/one"),
+          ],
+          urls: [
+            "https://example.com/both",
+            "https://example.com/half/both",
+            "https://example.com/one",
+          ],
+          profileNamesFor,
+        }),
+      ).toEqual([
+        synced("https://example.com/both"),
+        synced("https://example.com/both", "mobile"),
+        synced("https://example.com/one"),
+      ]);
+    });
+
+    it("drops URLs and profiles this run no longer renders", () => {
+      expect(
+        selectResumedResults({
+          synced: [
+            synced("https://example.com/gone"),
+            synced("https://example.com/one", "mobile"),
+            synced("https://example.com/one"),
+          ],
+          urls: ["https://example.com/one"],
+          profileNamesFor,
+        }),
+      ).toEqual([synced("https://example.com/one")]);
+    });
+  });
+
+  describe("ShardCheckpointer", () => {
+    const key = buildShardManifestKey({
+      batchId: BATCH_ID,
+      shard: { index: 0, count: 2 },
+    });
+
+    function checkpointerWith(seedResults: PipelineResult[]) {
+      const { batchId, executionId, shard, sitemapUrl, startedAt } =
+        manifestOf(0);
+      return ShardCheckpointer.register({
+        store,
+        manifest: { batchId, executionId, shard, sitemapUrl, startedAt },
+        seedResults,
+      });
+    }
+
+    it("writes the seed and recorded results as an incomplete manifest", async () => {
+      vi.useFakeTimers();
+      const checkpointer = checkpointerWith([synced("https://example.com/a")]);
+
+      checkpointer.record(failed("https://example.com/b"));
+      checkpointer.record(synced("https://example.com/b"));
+      expect(await getJsonObject(store, key)).toBeNull();
+
+      await vi.advanceTimersByTimeAsync(15_000);
+      await checkpointer.stop();
+
+      expect(await getJsonObject<ShardManifest>(store, key)).toMatchObject({
+        executionId: "exec-2",
+        completedAt: null,
+        results: [
+          synced("https://example.com/a"),
+          synced("https://example.com/b"),
+        ],
+      });
+    });
+
+    it("records crawl discoveries as of each checkpoint", async () => {
+      vi.useFakeTimers();
+      const discovered = [{ url: "https://example.com/a", depth: 1 }];
+      const { batchId, executionId, shard, sitemapUrl, startedAt } =
+        manifestOf(0);
+      const checkpointer = ShardCheckpointer.register({
+        store,
+        manifest: { batchId, executionId, shard, sitemapUrl, startedAt },
+        seedResults: [],
+        discoveredUrls: () => discovered,
+      });
+
+      checkpointer.record(synced("https://example.com"));
+      discovered.push({ url: "https://example.com/b", depth: 2 });
+      await vi.advanceTimersByTimeAsync(15_000);
+      await checkpointer.stop();
+
+      expect(
+        (await getJsonObject<ShardManifest>(store, key))?.discoveredUrls,
+      ).toEqual([
+        { url: "https://example.com/a", depth: 1 },
+        { url: "https://example.com/b", depth: 2 },
+      ]);
+    });
+
+    it("writes nothing once stopped", async () => {
+      vi.useFakeTimers();
+      const checkpointer = checkpointerWith([]);
+
+      checkpointer.record(synced("https://example.com/a"));
+      await checkpointer.stop();
+      checkpointer.record(synced("https://example.com/b"));
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(await getJsonObject(store, key)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import type { DiscoveredUrl } from "./link-crawler";
+import { AppLogger } from "./logger";
+import {
+  getJsonObject,
+  putJsonObject,
+  type SnapshotStore,
+} from "./snapshot-store";
+import {
+  pipelineResultKey,
+  resultProfileName,
+  type PipelineResult,
+} from "./pipeline-result";
+import type { TaskShard } from "./task-shard";
+
+const logger = AppLogger.register({ prefix: "shard-manifest" });
+
+// Checkpoints are coalesced: one PUT per interval at most, however many
+// renders finished in it, so a 10-stream run doesn't double its class-A ops.
+const CHECKPOINT_INTERVAL_MS = 15_000;
+
+/**
+ * One task's share of a batch (a single-task run is shard 0 of 1). Written as
+ * a checkpoint while the task renders, so a killed task's restart can skip
+ * what it already synced, and once more on completion, so whichever task
+ * finishes last can merge every shard into the single webhook report.
+ */
+export interface ShardManifest {
+  batchId: string;
+  executionId: string;
+  shard: TaskShard;
+  sitemapUrl: string;
+  startedAt: number;
+  /** Null while the task is still rendering (a checkpoint). */
+  completedAt: number | null;
+  results: PipelineResult[];
+  /**
+   * Crawl discovery's URLs so far. Sitemaps and PATHS_LIST don't list them,
+   * so a restart takes them from here. Absent from manifests written before
+   * they were recorded.
+   */
+  discoveredUrls?: DiscoveredUrl[];
+}
+
+export function buildShardManifestKey({
+  batchId,
+  shard,
+}: {
+  batchId: string;
+  shard: TaskShard;
+}): string {
+  return `batches/${batchId}/shards/${shard.index}-of-${shard.count}.json`;
+}
+
+function buildReportLockKey({
+  batchId,
+  executionId,
+}: {
+  batchId: string;
+  executionId: string;
+}): string {
+  return `batches/${batchId}/report-${executionId}.lock`;
+}
+
+/**
+ * Persist this task's completed manifest, then check whether every shard is in. Returns
+ * the merged manifests (own included) when this task should send the batch
+ * report, or null when another task will: either some shard hasn't finished
+ * yet (its task merges on completion) or a task that finished at the same
+ * moment won the report lock.
+ *
+ * Throws only when this task's own manifest can't be written — the caller
+ * then reports its shard alone rather than losing it silently.
+ */
+export async function finalizeShard({
+  store,
+  manifest,
+}: {
+  store: SnapshotStore;
+  manifest: ShardManifest;
+}): Promise<ShardManifest[] | null> {
+  const { batchId, executionId, shard } = manifest;
+  await putJsonObject(
+    store,
+    buildShardManifestKey({ batchId, shard }),
+    manifest,
+  );
+  logger.info(
+    `Shard ${shard.index + 1}/${shard.count} manifest written (${manifest.results.length} results)`,
+  );
+
+  const manifests: ShardManifest[] = [];
+  const unfinished: string[] = [];
+  for (let index = 0; index < shard.count; index++) {
+    const other =
+      index === shard.index
+        ? manifest
+        : await getJsonObject<ShardManifest>(
+            store,
+            buildShardManifestKey({
+              batchId,
+              shard: { index, count: shard.count },
+            }),
+          );
+    const label = `${index + 1}/${shard.count}`;
+    if (!other) {
+      unfinished.push(`${label} (no manifest)`);
+    } else if (other.executionId !== executionId) {
+      unfinished.push(`${label} (last written by ${other.executionId})`);
+    } else if (other.completedAt === null) {
+      unfinished.push(`${label} (checkpoint only)`);
+    } else {
+      manifests.push(other);
+    }
+  }
+  // Nothing waits on the missing shards: each task checks once, on its own
+  // completion. So a shard whose task fails for good leaves this execution
+  // without a report, and this is the last word on why.
+  if (unfinished.length > 0) {
+    logger.warn(
+      `Shards not finished in execution ${executionId}: ${unfinished.join(", ")}. The last of them to complete sends the batch report; if one of their tasks failed for good, none is sent. Re-run BATCH_ID ${batchId} to resume the missing shards and report the batch.`,
+    );
+    return null;
+  }
+
+  const acquired = await putJsonObject(
+    store,
+    buildReportLockKey({ batchId, executionId }),
+    { shard, lockedAt: new Date().toISOString() },
+    { ifAbsent: true },
+  );
+  if (!acquired) {
+    logger.info(`Another task already claimed the batch report`);
+    return null;
+  }
+  logger.info(
+    `All ${shard.count} shards finished; this task reports the batch`,
+  );
+  return manifests;
+}
+
+/**
+ * What a previous attempt at this shard got done — from a Cloud Run task
+ * retry or a new execution of the same batch: the results it synced (or found
+ * fresh in incremental mode), whose URLs don't need rendering again while
+ * everything else (failures included) does, and the URLs its crawl
+ * discovered.
+ */
+export async function loadShardProgress({
+  store,
+  batchId,
+  shard,
+}: {
+  store: SnapshotStore;
+  batchId: string;
+  shard: TaskShard;
+}): Promise<{
+  syncedResults: PipelineResult[];
+  discoveredUrls: DiscoveredUrl[];
+}> {
+  const previous = await getJsonObject<ShardManifest>(
+    store,
+    buildShardManifestKey({ batchId, shard }),
+  );
+  return {
+    syncedResults: (previous?.results ?? []).filter(
+      (result) =>
+        (result.isRendered && result.isCachedToR2) || result.isSkippedFresh,
+    ),
+    discoveredUrls: previous?.discoveredUrls ?? [],
+  };
+}
+
+/**
+ * Of a previous attempt's synced results, the ones a resumed shard carries
+ * over: results for URLs the shard still renders, and only for URLs that
+ * every one of their render profiles synced. A URL missing a profile is
+ * rendered again in full.
+ */
+export function selectResumedResults({
+  synced,
+  urls,
+  profileNamesFor,
+}: {
+  synced: PipelineResult[];
+  // The shard's URLs as this run built them
+  urls: string[];
+  // The render profiles a URL gets (PATHS_LIST and PATH_RULES may narrow them)
+  profileNamesFor: (url: string) => string[];
+}): PipelineResult[] {
+  const urlSet = new Set(urls);
+  const inShard = synced.filter(
+    (result) =>
+      urlSet.has(result.url) &&
+      profileNamesFor(result.url).includes(resultProfileName(result)),
+  );
+  const syncedProfileCounts = new Map<string, number>();
+  for (const result of inShard) {
+    syncedProfileCounts.set(
+      result.url,
+      (syncedProfileCounts.get(result.url) ?? 0) + 1,
+    );
+  }
+  return inShard.filter(
+    (result) =>
+      syncedProfileCounts.get(result.url) ===
+      profileNamesFor(result.url).length,
+  );
+}
+
+/**
+ * Periodically persists the shard's results-so-far as an incomplete manifest.
+ * Checkpoint failures are logged and never affect the run — the worst case is
+ * a restart re-rendering a few more URLs.
+ */
+type CheckpointManifest = Omit<
+  ShardManifest,
+  "results" | "completedAt" | "discoveredUrls"
+>;
+
+export class ShardCheckpointer {
+  private readonly _store: SnapshotStore;
+  private readonly _manifest: CheckpointManifest;
+  private readonly _discoveredUrls: () => DiscoveredUrl[];
+  private readonly _results = new Map<string, PipelineResult>();
+  private _timer: NodeJS.Timeout | null = null;
+  private _writing: Promise<void> | null = null;
+  private _dirty = false;
+  private _stopped = false;
+
+  static register({
+    store,
+    manifest,
+    seedResults,
+    discoveredUrls = () => [],
+  }: {
+    store: SnapshotStore;
+    manifest: CheckpointManifest;
+    // Results carried over from a previous attempt, kept in every checkpoint
+    // so a second restart doesn't forget them.
+    seedResults: PipelineResult[];
+    // Crawl discovery's URLs at the time of each checkpoint
+    discoveredUrls?: () => DiscoveredUrl[];
+  }): ShardCheckpointer {
+    return new ShardCheckpointer(store, manifest, seedResults, discoveredUrls);
+  }
+
+  private constructor(
+    store: SnapshotStore,
+    manifest: CheckpointManifest,
+    seedResults: PipelineResult[],
+    discoveredUrls: () => DiscoveredUrl[],
+  ) {
+    this._store = store;
+    this._manifest = manifest;
+    this._discoveredUrls = discoveredUrls;
+    for (const result of seedResults) {
+      this._results.set(pipelineResultKey(result), result);
+    }
+  }
+
+  record(result: PipelineResult): void {
+    if (this._stopped) return;
+    this._results.set(pipelineResultKey(result), result);
+    this._dirty = true;
+    this.schedule();
+  }
+
+  /** Cancel pending checkpoints and wait out one in flight. */
+  async stop(): Promise<void> {
+    this._stopped = true;
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+    await this._writing;
+  }
+
+  private schedule(): void {
+    if (this._timer || this._writing || this._stopped) return;
+    this._timer = setTimeout(() => this.write(), CHECKPOINT_INTERVAL_MS);
+  }
+
+  private write(): void {
+    this._timer = null;
+    this._dirty = false;
+    const checkpoint: ShardManifest = {
+      ...this._manifest,
+      completedAt: null,
+      results: [...this._results.values()],
+      discoveredUrls: this._discoveredUrls(),
+    };
+    this._writing = putJsonObject(
+      this._store,
+      buildShardManifestKey({
+        batchId: checkpoint.batchId,
+        shard: checkpoint.shard,
+      }),
+      checkpoint,
+    )
+      .then(() => {
+        logger.info(
+          `Checkpoint written (${checkpoint.results.length} results)`,
+        );
+      })
+      .catch((e) => {
+        logger.warn(`Failed to write checkpoint`, e);
+      })
+      .finally(() => {
+        this._writing = null;
+        if (this._dirty) this.schedule();
+      });
+  }
+}
@@ -0,0 +1,228 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { gzipSync } from "node:zlib";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { LastmodFilter } from "./load-config";
+import {
+  filterByLastmod,
+  parseSitemapXml,
+  SitemapParser,
+} from "./sitemap-parser";
+
+function urlset(urls: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls.join("")}</urlset>`;
+}
+
+function sitemapIndex(locs: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${locs
+    .map((loc) => `<sitemap><loc>${loc}</loc></sitemap>`)
+    .join("")}</sitemapindex>`;
+}
+
+describe("parseSitemapXml", () => {
+  it("carries lastmod, priority and changefreq onto entries", () => {
+    expect(
+      parseSitemapXml(
+        urlset([
+          `<url><loc>https://example.com/a?x=1&amp;y=2</loc><lastmod>2024-05-01T00:00:00Z</lastmod><priority>0.8</priority><changefreq>daily</changefreq></url>`,
+          `<url><loc><![CDATA[https://example.com/b]]></loc></url>`,
+        ]),
+      ),
+    ).toEqual({
+      kind: "urlset",
+      entries: [
+        {
+          loc: "https://example.com/a?x=1&y=2",
+          lastmod: "2024-05-01T00:00:00Z",
+          priority: 0.8,
+          changefreq: "daily",
+        },
+        {
+          loc: "https://example.com/b",
+          lastmod: undefined,
+          priority: undefined,
+          changefreq: undefined,
+        },
+      ],
+    });
+  });
+
+  it("doesn't take an image's <loc> for the page's", () => {
+    const document = parseSitemapXml(
+      urlset([
+        `<url><image:image><image:loc>https://example.com/i.png</image:loc></image:image><loc>https://example.com/a</loc></url>`,
+      ]),
+    );
+    expect(document.kind === "urlset" && document.entries[0]?.loc).toBe(
+      "https://example.com/a",
+    );
+  });
+
+  it("drops out-of-range or malformed priorities", () => {
+    const document = parseSitemapXml(
+      urlset([
+        "<url><loc>https://example.com/a</loc><priority>high</priority></url>",
+        "<url><loc>https://example.com/b</loc><priority>3</priority></url>",
+      ]),
+    );
+    expect(
+      document.kind === "urlset" &&
+        document.entries.map((entry) => entry.priority),
+    ).toEqual([undefined, undefined]);
+  });
+
+  it("lists an index's child sitemaps", () => {
+    expect(
+      parseSitemapXml(sitemapIndex(["https://example.com/sitemap-posts.xml"])),
+    ).toEqual({
+      kind: "index",
+      sitemaps: ["https://example.com/sitemap-posts.xml"],
+    });
+  });
+
+  it("rejects documents that aren't sitemaps", () => {
+    expect(() => parseSitemapXml("<html><body>Oops</body></html>")).toThrow(
+      /Not a sitemap/,
+    );
+  });
+});
+
+describe("filterByLastmod", () => {
+  it("keeps entries modified since the cutoff, dropping undated ones", () => {
+    const entries = [
+      { loc: "https://example.com/new", lastmod: "2026-03-10" },
+      { loc: "https://example.com/old", lastmod: "2025-01-01" },
+      { loc: "https://example.com/undated" },
+    ];
+    expect(filterByLastmod(entries, 0)).toBe(entries);
+    expect(
+      filterByLastmod(entries, Date.parse("2026-03-01")).map(
+        (entry) => entry.loc,
+      ),
+    ).toEqual(["https://example.com/new"]);
+  });
+});
+
+describe("SitemapParser", () => {
+  let server: Server;
+  let origin: string;
+  const documents = new Map<string, string | Buffer>();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const body = documents.get(req.url ?? "");
+      if (body === undefined) {
+        res.writeHead(503).end();
+        return;
+      }
+      res.writeHead(200, { "content-type": "application/xml" }).end(body);
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const parseFrom = (path: string, lastmodFilter = LastmodFilter.ALL) =>
+    SitemapParser.register({
+      sitemapUrl: `${origin}${path}`,
+      lastmodFilter,
+    }).parseSitemap();
+
+  it("keeps the URLs of a nested index whose grandchild failed", async () => {
+    documents.set(
+      "/sitemap.xml",
+      sitemapIndex([`${origin}/sitemap-pages.xml`, `${origin}/blog/index.xml`]),
+    );
+    documents.set(
+      "/sitemap-pages.xml",
+      urlset(["<url><loc>https://example.com/about</loc></url>"]),
+    );
+    documents.set(
+      "/blog/index.xml",
+      sitemapIndex([
+        `${origin}/blog/posts-1.xml`,
+        `${origin}/blog/posts-2.xml`,
+      ]),
+    );
+    documents.set(
+      "/blog/posts-1.xml",
+      gzipSync(
+        urlset([
+          "<url><loc>https://example.com/blog/a</loc></url>",
+          "<url><loc>https://example.com/blog/b</loc></url>",
+        ]),
+      ),
+    );
+    // /blog/posts-2.xml isn't served: 503
+
+    const result = await parseFrom("/sitemap.xml");
+
+    expect(result.entries.map((entry) => entry.loc)).toEqual([
+      "https://example.com/about",
+      "https://example.com/blog/a",
+      "https://example.com/blog/b",
+    ]);
+    expect(result.sources).toEqual([
+      { url: `${origin}/sitemap-pages.xml`, urlCount: 1 },
+      { url: `${origin}/blog/posts-1.xml`, urlCount: 2 },
+      {
+        url: `${origin}/blog/posts-2.xml`,
+        urlCount: 0,
+        error: "HTTP Error occurred: 503",
+      },
+    ]);
+  });
+
+  it("lists children the lastmod filter emptied", async () => {
+    const recent = new Date().toISOString();
+    documents.set(
+      "/filtered.xml",
+      sitemapIndex([`${origin}/fresh.xml`, `${origin}/stale.xml`]),
+    );
+    documents.set(
+      "/fresh.xml",
+      urlset([
+        `<url><loc>https://example.com/fresh</loc><lastmod>${recent}</lastmod></url>`,
+      ]),
+    );
+    documents.set(
+      "/stale.xml",
+      urlset([
+        "<url><loc>https://example.com/stale</loc><lastmod>2020-01-01</lastmod></url>",
+      ]),
+    );
+
+    const result = await parseFrom("/filtered.xml", LastmodFilter.SEVEN_DAYS);
+
+    expect(result.entries.map((entry) => entry.loc)).toEqual([
+      "https://example.com/fresh",
+    ]);
+    expect(result.sources).toEqual([
+      { url: `${origin}/fresh.xml`, urlCount: 1 },
+      { url: `${origin}/stale.xml`, urlCount: 0 },
+    ]);
+  });
+
+  it("reports a root that isn't a sitemap, and never revisits a sitemap", async () => {
+    documents.set("/not-a-sitemap.xml", "<html><body>Oops</body></html>");
+    documents.set(
+      "/loop.xml",
+      sitemapIndex([`${origin}/loop.xml`, `${origin}/not-a-sitemap.xml`]),
+    );
+
+    expect((await parseFrom("/loop.xml")).sources).toEqual([
+      {
+        url: `${origin}/not-a-sitemap.xml`,
+        urlCount: 0,
+        error: "Not a sitemap (no <urlset> or <sitemapindex>)",
+      },
+    ]);
+  });
+});
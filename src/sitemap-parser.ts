@@ -1,8 +1,6 @@
+import { gunzipSync } from "node:zlib";
 import { DateTime } from "luxon";
-import Sitemapper, {
-  type SitemapperResponse,
-  type SitemapperSiteData,
-} from "sitemapper";
+import { HTMLElement, parse } from "node-html-parser";
 import { LastmodFilter } from "./load-config";
 import { AppLogger } from "./logger";
 
@@ -13,6 +11,106 @@ const LASTMOD_FILTER_TO_DAYS = {
   [LastmodFilter.THIRTY_DAYS]: 30,
 };
 
+const SITEMAP_TIMEOUT_MS = 10_000;
+// Sitemaps fetched at once within one level of an index
+const SITEMAP_CONCURRENCY = 10;
+// Indexes of indexes aren't in the protocol, but exist; stop before a
+// misconfigured site sends us round in circles.
+const MAX_SITEMAP_INDEX_DEPTH = 5;
+
+export interface SitemapEntry {
+  loc: string;
+  /** Raw <lastmod> value as published (W3C datetime). */
+  lastmod?: string;
+  /** <priority>, 0.0–1.0; unset when absent or malformed. */
+  priority?: number;
+  changefreq?: string;
+}
+
+/** One leaf sitemap (or the root, when it isn't an index). */
+export interface SitemapSource {
+  url: string;
+  urlCount: number;
+  /** Set when this sitemap failed to load; its URLs are missing. */
+  error?: string;
+}
+
+export interface SitemapParseResult {
+  entries: SitemapEntry[];
+  sources: SitemapSource[];
+}
+
+/** One sitemap document: either an index of further sitemaps or a URL set. */
+export type SitemapDocument =
+  | { kind: "index"; sitemaps: string[] }
+  | { kind: "urlset"; entries: SitemapEntry[] };
+
+function parsePriority(raw: unknown): number | undefined {
+  const value = typeof raw === "number" ? raw : parseFloat(String(raw));
+  return Number.isFinite(value) && value >= 0 && value <= 1 ? value : undefined;
+}
+
+// Text of the first direct child named `tag`, CDATA unwrapped. Direct
+// children only, so <image:loc> and friends never stand in for <loc>.
+function childText(element: HTMLElement, tag: string): string | undefined {
+  const child = element.childNodes.find(
+    (node): node is HTMLElement =>
+      node instanceof HTMLElement && node.rawTagName?.toLowerCase() === tag,
+  );
+  const text = child?.text
+    .trim()
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .trim();
+  return text || undefined;
+}
+
+/**
+ * Read one sitemap document. Throws when it's neither a <sitemapindex> nor a
+ * <urlset>, e.g. an HTML error page served with a 200.
+ */
+export function parseSitemapXml(xml: string): SitemapDocument {
+  const root = parse(xml);
+  const index = root.querySelector("sitemapindex");
+  if (index) {
+    return {
+      kind: "index",
+      sitemaps: index
+        .querySelectorAll("sitemap")
+        .map((sitemap) => childText(sitemap, "loc"))
+        .filter((loc): loc is string => loc !== undefined),
+    };
+  }
+  const urlset = root.querySelector("urlset");
+  if (!urlset) {
+    throw new Error("Not a sitemap (no <urlset> or <sitemapindex>)");
+  }
+  const entries: SitemapEntry[] = [];
+  for (const url of urlset.querySelectorAll("url")) {
+    const loc = childText(url, "loc");
+    if (!loc) continue;
+    entries.push({
+      loc,
+      lastmod: childText(url, "lastmod"),
+      priority: parsePriority(childText(url, "priority")),
+      changefreq: childText(url, "changefreq"),
+    });
+  }
+  return { kind: "urlset", entries };
+}
+
+/** Keep entries modified at or after `since` (ms); 0 keeps everything. */
+export function filterByLastmod(
+  entries: SitemapEntry[],
+  since: number,
+): SitemapEntry[] {
+  if (since === 0) return entries;
+  // Without a <lastmod>, nothing says the page changed in the window
+  return entries.filter(
+    (entry) =>
+      entry.lastmod !== undefined && new Date(entry.lastmod).getTime() >= since,
+  );
+}
+
 export class SitemapParser {
   private readonly _logger: AppLogger;
 
@@ -33,7 +131,37 @@ export class SitemapParser {
     return new SitemapParser(sitemapUrl, lastmodFilter);
   }
 
-  async parseSitemap(): Promise<string[]> {
+  private async fetchSitemap(url: string): Promise<SitemapDocument> {
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        signal: AbortSignal.timeout(SITEMAP_TIMEOUT_MS),
+      });
+    } catch (e) {
+      if (e instanceof Error && e.name === "TimeoutError") {
+        throw new Error(`Request timed out after ${SITEMAP_TIMEOUT_MS} ms`);
+      }
+      throw e;
+    }
+    if (!res.ok) {
+      throw new Error(`HTTP Error occurred: ${res.status}`);
+    }
+    let body = Buffer.from(await res.arrayBuffer());
+    // sitemap.xml.gz served without Content-Encoding arrives still gzipped
+    if (body[0] === 0x1f && body[1] === 0x8b) {
+      body = gunzipSync(body);
+    }
+    return parseSitemapXml(body.toString("utf8"));
+  }
+
+  /**
+   * Never throws. Index children are fetched one level at a time, each on
+   * its own, so a failed child (at any depth) only loses its own URLs. Every
+   * leaf sitemap is listed in `sources` with its URL count after the lastmod
+   * filter, and every failed sitemap with its error, so the run report can
+   * show which sitemap went missing.
+   */
+  async parseSitemap(): Promise<SitemapParseResult> {
     this._logger.info(
       `Parsing sitemap: ${this._sitemapUrl} with lastmod filter: ${this._lastmodFilter}`,
     );
@@ -43,39 +171,73 @@ export class SitemapParser {
         .minus({ days: LASTMOD_FILTER_TO_DAYS[this._lastmodFilter] })
         .toMillis();
     }
-    const sitemapper = new Sitemapper({
-      url: this._sitemapUrl,
-      timeout: 10000,
-      lastmod: lastmodToFilterBy,
-      fields: {
-        loc: true,
-        lastmod: true,
-      },
-    });
-    let sites: SitemapperSiteData[];
-    try {
-      const result = (await sitemapper.fetch()) as unknown as Omit<
-        SitemapperResponse,
-        "sites"
-      > & { sites: SitemapperSiteData[] };
-      if (result.errors.length > 0) {
-        this._logger.error(
-          `Failed to fetch sitemap: ${result.errors.map((error) => `${error.type} on ${error.url}`).join(", ")}`,
+
+    const result: SitemapParseResult = { entries: [], sources: [] };
+    const seen = new Set([this._sitemapUrl]);
+    let level = [this._sitemapUrl];
+    for (let depth = 0; level.length > 0; depth++) {
+      const next: string[] = [];
+      for (let i = 0; i < level.length; i += SITEMAP_CONCURRENCY) {
+        const batch = level.slice(i, i + SITEMAP_CONCURRENCY);
+        const documents = await Promise.allSettled(
+          batch.map((url) => this.fetchSitemap(url)),
         );
-        return [];
+        documents.forEach((document, j) => {
+          const url = batch[j]!;
+          if (document.status === "rejected") {
+            const reason: unknown = document.reason;
+            result.sources.push({
+              url,
+              urlCount: 0,
+              error: reason instanceof Error ? reason.message : String(reason),
+            });
+            return;
+          }
+          if (document.value.kind === "urlset") {
+            const entries = filterByLastmod(
+              document.value.entries,
+              lastmodToFilterBy,
+            );
+            result.entries.push(...entries);
+            result.sources.push({ url, urlCount: entries.length });
+            return;
+          }
+          if (depth >= MAX_SITEMAP_INDEX_DEPTH) {
+            result.sources.push({
+              url,
+              urlCount: 0,
+              error: `Sitemap indexes nested more than ${MAX_SITEMAP_INDEX_DEPTH} deep`,
+            });
+            return;
+          }
+          for (const child of document.value.sitemaps) {
+            if (!seen.has(child)) {
+              seen.add(child);
+              next.push(child);
+            }
+          }
+        });
       }
-      sites = result.sites;
-    } catch (e) {
+      level = next;
+    }
+
+    const failed = result.sources.filter((source) => source.error);
+    if (failed.length > 0) {
       this._logger.error(
-        `Sitemap fetch threw an exception for ${this._sitemapUrl}`,
-        e,
+        `Failed to fetch ${failed.length} sitemap(s): ${failed.map((source) => `${source.error} on ${source.url}`).join(", ")}`,
       );
-      return [];
     }
-    this._logger.info(`Found ${sites.length} URLs in sitemap`);
-    sites.forEach((site, index) => {
-      this._logger.info(`  - ${index + 1}: ${site.loc}`);
+    this._logger.info(
+      `Found ${result.entries.length} URLs in ${result.sources.length - failed.length} sitemap(s)`,
+    );
+    result.sources.forEach((source) => {
+      this._logger.info(
+        `  - ${source.url}: ${source.error ? `failed (${source.error})` : `${source.urlCount} URLs`}`,
+      );
+    });
+    result.entries.forEach((entry, index) => {
+      this._logger.info(`  - ${index + 1}: ${entry.loc}`);
     });
-    return sites.map((site) => site.loc);
+    return result;
   }
 }
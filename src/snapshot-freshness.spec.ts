@@ -0,0 +1,136 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { buildSnapshotSidecarKey } from "./cache-manager/kv-key-utils";
+import {
+  isSnapshotFresh,
+  readSnapshotInfo,
+  readStoredSeoAnalysis,
+} from "./snapshot-freshness";
+import { LocalFsStore, putJsonObject } from "./snapshot-store";
+
+const CREATED_AT = "2026-07-20T00:00:00.000Z";
+const CREATED_AT_MS = Date.parse(CREATED_AT);
+const HOUR_MS = 3_600_000;
+
+describe("readSnapshotInfo", () => {
+  it("reads lowercased snapshot metadata", () => {
+    expect(
+      readSnapshotInfo({
+        createdat: CREATED_AT,
+        digest: "abc",
+        cachettl: "86400",
+      }),
+    ).toEqual({ createdAt: CREATED_AT_MS, digest: "abc", cacheTtl: 86400 });
+  });
+
+  it("leaves the TTL unset on snapshots that predate it", () => {
+    expect(
+      readSnapshotInfo({ createdat: CREATED_AT, digest: "abc" })?.cacheTtl,
+    ).toBeNull();
+  });
+
+  it("rejects metadata without a createdAt or digest", () => {
+    expect(readSnapshotInfo({ digest: "abc" })).toBeNull();
+    expect(readSnapshotInfo({ createdat: CREATED_AT })).toBeNull();
+  });
+});
+
+describe("isSnapshotFresh", () => {
+  const info = { createdAt: CREATED_AT_MS, digest: "abc", cacheTtl: 86400 };
+
+  it("keeps a snapshot within its TTL that is newer than lastmod", () => {
+    expect(
+      isSnapshotFresh({
+        info,
+        lastmod: "2026-07-19",
+        fallbackTtl: 60,
+        now: CREATED_AT_MS + HOUR_MS,
+      }),
+    ).toBe(true);
+  });
+
+  it("re-renders once the stored TTL has run out", () => {
+    expect(
+      isSnapshotFresh({
+        info,
+        lastmod: "2026-07-19",
+        fallbackTtl: 604800,
+        now: CREATED_AT_MS + 24 * HOUR_MS,
+      }),
+    ).toBe(false);
+  });
+
+  it("falls back to the configured TTL when none was stored", () => {
+    expect(
+      isSnapshotFresh({
+        info: { ...info, cacheTtl: null },
+        lastmod: "2026-07-19",
+        fallbackTtl: 1800,
+        now: CREATED_AT_MS + HOUR_MS,
+      }),
+    ).toBe(false);
+  });
+
+  it("re-renders pages modified after the snapshot", () => {
+    expect(
+      isSnapshotFresh({
+        info,
+        lastmod: "2026-07-20T06:00:00Z",
+        fallbackTtl: 60,
+        now: CREATED_AT_MS + 12 * HOUR_MS,
+      }),
+    ).toBe(false);
+  });
+
+  it("re-renders pages without a usable lastmod", () => {
+    for (const lastmod of [undefined, "not a date"]) {
+      expect(
+        isSnapshotFresh({
+          info,
+          lastmod,
+          fallbackTtl: 60,
+          now: CREATED_AT_MS + HOUR_MS,
+        }),
+      ).toBe(false);
+    }
+  });
+});
+
+describe("readStoredSeoAnalysis", () => {
+  const objectKey = "v1/example.com/about_abf24d57a306f5a7.html";
+  let rootDir: string;
+  let store: LocalFsStore;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "snapshot-freshness-"));
+    store = LocalFsStore.register({ rootDir });
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("reads the analysis from the snapshot's sidecar", async () => {
+    await putJsonObject(store, buildSnapshotSidecarKey(objectKey), {
+      url: "https://example.com/about",
+      objectKey,
+      digest: "abc",
+      seoAnalysis: { title: "About us", hreflangs: [] },
+    });
+    expect(
+      await readStoredSeoAnalysis({ store, objectKey, digest: "abc" }),
+    ).toEqual({ title: "About us", hreflangs: [] });
+    // A sidecar of another version of the snapshot doesn't describe it
+    expect(
+      await readStoredSeoAnalysis({ store, objectKey, digest: "def" }),
+    ).toBeNull();
+  });
+
+  it("is null for snapshots without a sidecar", async () => {
+    expect(
+      await readStoredSeoAnalysis({ store, objectKey, digest: "abc" }),
+    ).toBeNull();
+  });
+});
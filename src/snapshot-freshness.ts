@@ -0,0 +1,112 @@
+import { DateTime } from "luxon";
+import {
+  buildSnapshotObjectKey,
+  buildSnapshotSidecarKey,
+} from "./cache-manager/kv-key-utils";
+import type { SnapshotSidecar } from "./cache-manager/type";
+import type { PageSeoAnalysis } from "./seo-analyzer/type";
+import { getJsonObject, type SnapshotStore } from "./snapshot-store";
+
+/** What an existing snapshot's metadata says about when it was written. */
+export interface StoredSnapshotInfo {
+  createdAt: number;
+  digest: string;
+  /** Seconds; null on snapshots written before the TTL was recorded. */
+  cacheTtl: number | null;
+}
+
+/**
+ * Parse snapshot metadata as read back from the store (keys lowercased, as
+ * S3 returns them). Null when it isn't a complete snapshot record.
+ */
+export function readSnapshotInfo(
+  metadata: Record<string, string>,
+): StoredSnapshotInfo | null {
+  const createdAt = DateTime.fromISO(metadata.createdat ?? "").toMillis();
+  const digest = metadata.digest ?? "";
+  if (!Number.isFinite(createdAt) || !digest) {
+    return null;
+  }
+  const cacheTtl = parseInt(metadata.cachettl ?? "", 10);
+  return {
+    createdAt,
+    digest,
+    cacheTtl: Number.isInteger(cacheTtl) && cacheTtl > 0 ? cacheTtl : null,
+  };
+}
+
+/**
+ * A snapshot can be kept as-is when its TTL hasn't run out and the sitemap
+ * says the page last changed before it was taken. Without a <lastmod> there's
+ * no evidence the page is unchanged, so it's re-rendered.
+ */
+export function isSnapshotFresh({
+  info,
+  lastmod,
+  fallbackTtl,
+  now = Date.now(),
+}: {
+  info: StoredSnapshotInfo;
+  lastmod: string | undefined;
+  // The URL's configured TTL, for snapshots that predate the cacheTtl field
+  fallbackTtl: number;
+  now?: number;
+}): boolean {
+  const ttlMs = (info.cacheTtl ?? fallbackTtl) * 1000;
+  if (now - info.createdAt >= ttlMs) {
+    return false;
+  }
+  const lastmodMs = lastmod ? DateTime.fromISO(lastmod).toMillis() : NaN;
+  return Number.isFinite(lastmodMs) && lastmodMs < info.createdAt;
+}
+
+/**
+ * HEAD the URL's stored snapshot and return its info and key when it's still
+ * fresh (see isSnapshotFresh), or null when the page needs rendering.
+ */
+export async function findFreshSnapshot({
+  store,
+  url,
+  variant,
+  lastmod,
+  fallbackTtl,
+}: {
+  store: SnapshotStore;
+  url: string;
+  variant: string | undefined;
+  lastmod: string | undefined;
+  fallbackTtl: number;
+}): Promise<(StoredSnapshotInfo & { objectKey: string }) | null> {
+  // No lastmod means no skip — save the HEAD.
+  if (!lastmod) {
+    return null;
+  }
+  const objectKey = await buildSnapshotObjectKey({ targetUrl: url, variant });
+  const head = await store.head(objectKey);
+  const info = head ? readSnapshotInfo(head.metadata) : null;
+  return info && isSnapshotFresh({ info, lastmod, fallbackTtl })
+    ? { ...info, objectKey }
+    : null;
+}
+
+/**
+ * The SEO analysis kept in a fresh snapshot's sidecar, so a page that isn't
+ * re-rendered still counts in the batch SEO report. Null when the snapshot
+ * has no sidecar (written before sidecars existed), or one describing
+ * another `digest` (a rollback that couldn't restore the version's own).
+ */
+export async function readStoredSeoAnalysis({
+  store,
+  objectKey,
+  digest,
+}: {
+  store: SnapshotStore;
+  objectKey: string;
+  digest: string;
+}): Promise<PageSeoAnalysis | null> {
+  const sidecar = await getJsonObject<SnapshotSidecar>(
+    store,
+    buildSnapshotSidecarKey(objectKey),
+  );
+  return sidecar?.digest === digest ? sidecar.seoAnalysis : null;
+}
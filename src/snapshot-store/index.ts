@@ -0,0 +1,105 @@
+import { S3Client } from "@aws-sdk/client-s3";
+import { LocalFsStore } from "./local-fs";
+import {
+  GCS_MAX_METADATA_BYTES,
+  R2_MAX_METADATA_BYTES,
+  S3_MAX_METADATA_BYTES,
+} from "./metadata-limit";
+import { S3CompatibleStore } from "./s3-compatible";
+import { StorageBackend, type SnapshotStore, type StorageConfig } from "./type";
+
+export {
+  StorageBackend,
+  type PutObjectOptions,
+  type SnapshotStore,
+  type StorageConfig,
+  type StoredObjectHead,
+} from "./type";
+export { LocalFsStore } from "./local-fs";
+export { MetadataTooLargeError, metadataByteSize } from "./metadata-limit";
+export { S3CompatibleStore } from "./s3-compatible";
+
+const GCS_XML_API_ENDPOINT = "https://storage.googleapis.com";
+
+export function createSnapshotStore(storage: StorageConfig): SnapshotStore {
+  switch (storage.backend) {
+    case StorageBackend.R2:
+      return S3CompatibleStore.register({
+        client: new S3Client({
+          region: "auto",
+          endpoint: `https://${storage.cfAccountId}.r2.cloudflarestorage.com`,
+          credentials: {
+            accessKeyId: storage.accessKeyId,
+            secretAccessKey: storage.secretAccessKey,
+          },
+        }),
+        bucket: storage.bucket,
+        scheme: "r2",
+        maxMetadataBytes: R2_MAX_METADATA_BYTES,
+      });
+    case StorageBackend.S3:
+      return S3CompatibleStore.register({
+        client: new S3Client({
+          region: storage.region,
+          endpoint: storage.endpoint,
+          forcePathStyle: storage.forcePathStyle,
+          credentials: {
+            accessKeyId: storage.accessKeyId,
+            secretAccessKey: storage.secretAccessKey,
+          },
+          // Third-party endpoints (MinIO, older Ceph) reject the SDK's
+          // default flexible checksums; only send them where required.
+          requestChecksumCalculation: storage.endpoint
+            ? "WHEN_REQUIRED"
+            : "WHEN_SUPPORTED",
+          responseChecksumValidation: storage.endpoint
+            ? "WHEN_REQUIRED"
+            : "WHEN_SUPPORTED",
+        }),
+        bucket: storage.bucket,
+        scheme: "s3",
+        // AWS's cap; MinIO and most other S3 servers allow at least as much
+        maxMetadataBytes: S3_MAX_METADATA_BYTES,
+      });
+    case StorageBackend.GCS:
+      return S3CompatibleStore.register({
+        client: new S3Client({
+          region: "auto",
+          endpoint: GCS_XML_API_ENDPOINT,
+          credentials: {
+            accessKeyId: storage.accessKeyId,
+            secretAccessKey: storage.secretAccessKey,
+          },
+          requestChecksumCalculation: "WHEN_REQUIRED",
+          responseChecksumValidation: "WHEN_REQUIRED",
+        }),
+        bucket: storage.bucket,
+        scheme: "gs",
+        maxMetadataBytes: GCS_MAX_METADATA_BYTES,
+        gcsInterop: true,
+      });
+    case StorageBackend.FS:
+      return LocalFsStore.register({ rootDir: storage.rootDir });
+  }
+}
+
+/** Read a JSON bookkeeping object; null when the key doesn't exist. */
+export async function getJsonObject<T>(
+  store: SnapshotStore,
+  key: string,
+): Promise<T | null> {
+  const object = await store.get(key);
+  return object && object.body ? (JSON.parse(object.body) as T) : null;
+}
+
+export async function putJsonObject(
+  store: SnapshotStore,
+  key: string,
+  value: unknown,
+  { ifAbsent = false }: { ifAbsent?: boolean } = {},
+): Promise<boolean> {
+  return store.put(key, JSON.stringify(value), {
+    contentType: "application/json",
+    ifAbsent,
+  });
+}
@@ -0,0 +1,110 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getJsonObject, MetadataTooLargeError, putJsonObject } from "./index";
+import { LocalFsStore } from "./local-fs";
+
+const KEY = "v1/example.com/about_abf24d57a306f5a7.html";
+
+describe("LocalFsStore", () => {
+  let rootDir: string;
+  let store: LocalFsStore;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "snapshot-store-"));
+    store = LocalFsStore.register({ rootDir });
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("returns null for a key that was never written", async () => {
+    expect(await store.head(KEY)).toBeNull();
+    expect(await store.get(KEY)).toBeNull();
+  });
+
+  it("round-trips body and metadata, lowercasing metadata keys like S3", async () => {
+    await store.put(KEY, "<html></html>", {
+      contentType: "text/html; charset=utf-8",
+      metadata: { digest: "abc", createdAt: "2026-01-01T00:00:00.000Z" },
+    });
+
+    expect(await store.get(KEY)).toEqual({
+      body: "<html></html>",
+      metadata: { digest: "abc", createdat: "2026-01-01T00:00:00.000Z" },
+    });
+  });
+
+  it("replaces metadata without touching the body", async () => {
+    await store.put(KEY, "<html></html>", {
+      contentType: "text/html; charset=utf-8",
+      metadata: { digest: "abc" },
+    });
+    await store.replaceMetadata(KEY, {
+      contentType: "text/html; charset=utf-8",
+      metadata: { digest: "abc", createdAt: "later" },
+    });
+
+    const object = await store.get(KEY);
+    expect(object?.body).toBe("<html></html>");
+    expect(object?.metadata).toEqual({ digest: "abc", createdat: "later" });
+  });
+
+  it("refuses to replace metadata of a missing object", async () => {
+    await expect(
+      store.replaceMetadata(KEY, { contentType: "text/html" }),
+    ).rejects.toThrow();
+  });
+
+  it("fails an ifAbsent write when the key already exists", async () => {
+    expect(
+      await putJsonObject(
+        store,
+        "batches/b1/report.lock",
+        { a: 1 },
+        {
+          ifAbsent: true,
+        },
+      ),
+    ).toBe(true);
+    expect(
+      await putJsonObject(
+        store,
+        "batches/b1/report.lock",
+        { a: 2 },
+        {
+          ifAbsent: true,
+        },
+      ),
+    ).toBe(false);
+    expect(await getJsonObject(store, "batches/b1/report.lock")).toEqual({
+      a: 1,
+    });
+  });
+
+  it("enforces a metadata cap when given one", async () => {
+    const capped = LocalFsStore.register({ rootDir, maxMetadataBytes: 16 });
+    await capped.put(KEY, "<html></html>", {
+      contentType: "text/html",
+      metadata: { digest: "a".repeat(10) },
+    });
+
+    await expect(
+      capped.replaceMetadata(KEY, {
+        contentType: "text/html",
+        metadata: { digest: "a".repeat(11) },
+      }),
+    ).rejects.toThrow(MetadataTooLargeError);
+    expect((await capped.head(KEY))?.metadata).toEqual({
+      digest: "a".repeat(10),
+    });
+  });
+
+  it("rejects keys that escape the storage directory", async () => {
+    await expect(
+      store.put("../outside.html", "x", { contentType: "text/html" }),
+    ).rejects.toThrow(/escapes/);
+  });
+});
@@ -0,0 +1,132 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve, sep } from "node:path";
+import { assertMetadataFits } from "./metadata-limit";
+import type { PutObjectOptions, SnapshotStore, StoredObjectHead } from "./type";
+
+// Object metadata lives next to the body as `<key>.meta.json`, since a plain
+// file has nowhere else to keep it.
+const META_SUFFIX = ".meta.json";
+
+type StoredMeta = {
+  contentType: string;
+  cacheControl?: string;
+  metadata: Record<string, string>;
+};
+
+function isMissingFile(e: unknown): boolean {
+  return (e as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+// Lowercase like S3 does on read-back, so callers see identical metadata
+// from every backend.
+function lowercaseKeys(
+  metadata: Record<string, string> | undefined,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(metadata ?? {}).map(([k, v]) => [k.toLowerCase(), v]),
+  );
+}
+
+/**
+ * SnapshotStore over a local directory, laid out exactly like the bucket
+ * (`<rootDir>/v1/<host>/<path>_<digest>.html`). For local end-to-end runs and
+ * tests; not safe for concurrent writers on different hosts.
+ */
+export class LocalFsStore implements SnapshotStore {
+  readonly location: string;
+  readonly maxMetadataBytes: number | null;
+  private readonly _rootDir: string;
+
+  static register({
+    rootDir,
+    maxMetadataBytes = null,
+  }: {
+    rootDir: string;
+    // Files have no cap; set one to stand in for a bucket backend in tests.
+    maxMetadataBytes?: number | null;
+  }): LocalFsStore {
+    return new LocalFsStore(resolve(rootDir), maxMetadataBytes);
+  }
+
+  private constructor(rootDir: string, maxMetadataBytes: number | null) {
+    this._rootDir = rootDir;
+    this.maxMetadataBytes = maxMetadataBytes;
+    this.location = `file://${rootDir}`;
+  }
+
+  async head(key: string): Promise<StoredObjectHead | null> {
+    try {
+      const meta = JSON.parse(
+        await readFile(this.pathFor(key) + META_SUFFIX, "utf8"),
+      ) as StoredMeta;
+      return { metadata: meta.metadata };
+    } catch (e) {
+      if (isMissingFile(e)) return null;
+      throw e;
+    }
+  }
+
+  async get(
+    key: string,
+  ): Promise<(StoredObjectHead & { body: string }) | null> {
+    let body: string;
+    try {
+      body = await readFile(this.pathFor(key), "utf8");
+    } catch (e) {
+      if (isMissingFile(e)) return null;
+      throw e;
+    }
+    return { metadata: (await this.head(key))?.metadata ?? {}, body };
+  }
+
+  async put(
+    key: string,
+    body: Uint8Array | string,
+    { contentType, cacheControl, metadata, ifAbsent }: PutObjectOptions,
+  ): Promise<boolean> {
+    assertMetadataFits(key, metadata, this.maxMetadataBytes);
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    try {
+      await writeFile(path, body, { flag: ifAbsent ? "wx" : "w" });
+    } catch (e) {
+      if (ifAbsent && (e as NodeJS.ErrnoException)?.code === "EEXIST") {
+        return false;
+      }
+      throw e;
+    }
+    await this.writeMeta(path, {
+      contentType,
+      cacheControl,
+      metadata: lowercaseKeys(metadata),
+    });
+    return true;
+  }
+
+  async replaceMetadata(
+    key: string,
+    { contentType, cacheControl, metadata }: Omit<PutObjectOptions, "ifAbsent">,
+  ): Promise<void> {
+    assertMetadataFits(key, metadata, this.maxMetadataBytes);
+    const path = this.pathFor(key);
+    // Same contract as a copy-in-place: the object must already exist.
+    await readFile(path);
+    await this.writeMeta(path, {
+      contentType,
+      cacheControl,
+      metadata: lowercaseKeys(metadata),
+    });
+  }
+
+  private async writeMeta(path: string, meta: StoredMeta): Promise<void> {
+    await writeFile(path + META_SUFFIX, JSON.stringify(meta, null, 2));
+  }
+
+  private pathFor(key: string): string {
+    const path = resolve(this._rootDir, key);
+    if (!path.startsWith(this._rootDir + sep)) {
+      throw new Error(`Object key escapes the storage directory: ${key}`);
+    }
+    return path;
+  }
+}
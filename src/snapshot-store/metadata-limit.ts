@@ -0,0 +1,37 @@
+/**
+ * Per-object caps on user metadata, counted like AWS does: the UTF-8 bytes
+ * of every key and value, without the `x-amz-meta-` prefix.
+ */
+export const R2_MAX_METADATA_BYTES = 8192;
+export const S3_MAX_METADATA_BYTES = 2048;
+export const GCS_MAX_METADATA_BYTES = 8192;
+
+export function metadataByteSize(metadata: Record<string, string>): number {
+  let size = 0;
+  for (const [key, value] of Object.entries(metadata)) {
+    size += Buffer.byteLength(key, "utf8") + Buffer.byteLength(value, "utf8");
+  }
+  return size;
+}
+
+/** Metadata over the store's cap, refused before the request goes out. */
+export class MetadataTooLargeError extends Error {
+  constructor(key: string, size: number, maxBytes: number) {
+    super(
+      `Metadata of ${key} is ${size} bytes, over the store's ${maxBytes}-byte limit`,
+    );
+    this.name = "MetadataTooLargeError";
+  }
+}
+
+export function assertMetadataFits(
+  key: string,
+  metadata: Record<string, string> | undefined,
+  maxBytes: number | null,
+): void {
+  if (maxBytes === null || !metadata) return;
+  const size = metadataByteSize(metadata);
+  if (size > maxBytes) {
+    throw new MetadataTooLargeError(key, size, maxBytes);
+  }
+}
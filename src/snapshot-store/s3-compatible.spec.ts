@@ -0,0 +1,342 @@
+import { randomUUID } from "node:crypto";
+import {
+  createServer,
+  type IncomingHttpHeaders,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { S3Client } from "@aws-sdk/client-s3";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  createSnapshotStore,
+  getJsonObject,
+  MetadataTooLargeError,
+  putJsonObject,
+} from "./index";
+import { S3CompatibleStore } from "./s3-compatible";
+import { StorageBackend } from "./type";
+
+const KEY = "v1/example.com/about_abf24d57a306f5a7.html";
+
+type RecordedRequest = {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+};
+
+const NO_SUCH_KEY = `<?xml version="1.0" encoding="UTF-8"?>
+<Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>`;
+
+const PRECONDITION_FAILED = `<?xml version="1.0" encoding="UTF-8"?>
+<Error><Code>PreconditionFailed</Code><Message>At least one of the pre-conditions you specified did not hold</Message></Error>`;
+
+// A stand-in S3 endpoint: records every request and answers with whatever
+// the current test's responder says, so the wire headers and the error
+// mapping are checked through the real SDK.
+describe("S3CompatibleStore", () => {
+  let server: Server;
+  let endpoint: string;
+  let requests: RecordedRequest[];
+  let respond: (req: RecordedRequest, res: ServerResponse) => void;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        const recorded = {
+          method: req.method ?? "",
+          path: decodeURIComponent((req.url ?? "").split("?")[0] ?? ""),
+          headers: req.headers,
+          body: Buffer.concat(chunks).toString("utf8"),
+        };
+        requests.push(recorded);
+        respond(recorded, res);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    respond = (_req, res) => res.writeHead(200).end();
+  });
+
+  function storeFor({
+    gcsInterop = false,
+    maxMetadataBytes = null,
+  }: { gcsInterop?: boolean; maxMetadataBytes?: number | null } = {}) {
+    return S3CompatibleStore.register({
+      client: new S3Client({
+        region: "auto",
+        endpoint,
+        forcePathStyle: true,
+        credentials: { accessKeyId: "key", secretAccessKey: "secret" },
+        requestChecksumCalculation: "WHEN_REQUIRED",
+        responseChecksumValidation: "WHEN_REQUIRED",
+        // Errors are asserted directly, not after the SDK's retries
+        maxAttempts: 1,
+      }),
+      bucket: "snapshots",
+      scheme: gcsInterop ? "gs" : "s3",
+      maxMetadataBytes,
+      gcsInterop,
+    });
+  }
+
+  it("reads body and metadata", async () => {
+    respond = (_req, res) =>
+      res
+        .writeHead(200, {
+          "content-type": "text/html",
+          "x-amz-meta-digest": "abc",
+        })
+        .end("<html></html>");
+
+    expect(await storeFor().get(KEY)).toEqual({
+      body: "<html></html>",
+      metadata: { digest: "abc" },
+    });
+    expect(requests[0]).toMatchObject({
+      method: "GET",
+      path: `/snapshots/${KEY}`,
+    });
+  });
+
+  it("maps a missing key to null on head and get", async () => {
+    respond = (req, res) =>
+      req.method === "HEAD"
+        ? res.writeHead(404).end()
+        : res
+            .writeHead(404, { "content-type": "application/xml" })
+            .end(NO_SUCH_KEY);
+
+    const store = storeFor();
+    expect(await store.head(KEY)).toBeNull();
+    expect(await store.get(KEY)).toBeNull();
+  });
+
+  it("throws other read failures", async () => {
+    respond = (_req, res) => res.writeHead(403).end();
+
+    await expect(storeFor().head(KEY)).rejects.toThrow();
+  });
+
+  it("sends metadata and caching headers on put, without a precondition", async () => {
+    expect(
+      await storeFor().put(KEY, "<html></html>", {
+        contentType: "text/html; charset=utf-8",
+        cacheControl: "public, max-age=60",
+        metadata: { digest: "abc" },
+      }),
+    ).toBe(true);
+
+    const [put] = requests;
+    expect(put).toMatchObject({
+      method: "PUT",
+      path: `/snapshots/${KEY}`,
+      body: "<html></html>",
+    });
+    expect(put?.headers).toMatchObject({
+      "content-type": "text/html; charset=utf-8",
+      "cache-control": "public, max-age=60",
+      "x-amz-meta-digest": "abc",
+    });
+    expect(put?.headers["if-none-match"]).toBeUndefined();
+    expect(put?.headers["x-goog-if-generation-match"]).toBeUndefined();
+  });
+
+  it("makes ifAbsent writes conditional with If-None-Match", async () => {
+    const store = storeFor();
+    expect(
+      await putJsonObject(
+        store,
+        "batches/b1/report.lock",
+        {},
+        { ifAbsent: true },
+      ),
+    ).toBe(true);
+
+    respond = (_req, res) =>
+      res
+        .writeHead(412, { "content-type": "application/xml" })
+        .end(PRECONDITION_FAILED);
+    expect(
+      await putJsonObject(
+        store,
+        "batches/b1/report.lock",
+        {},
+        { ifAbsent: true },
+      ),
+    ).toBe(false);
+
+    for (const { headers } of requests) {
+      expect(headers["if-none-match"]).toBe("*");
+      expect(headers["x-goog-if-generation-match"]).toBeUndefined();
+    }
+  });
+
+  it("spells ifAbsent as a generation precondition for GCS", async () => {
+    const store = storeFor({ gcsInterop: true });
+    await store.put(KEY, "x", { contentType: "text/html", ifAbsent: true });
+    await store.put(KEY, "x", { contentType: "text/html" });
+
+    const [conditional, plain] = requests;
+    expect(conditional?.headers["x-goog-if-generation-match"]).toBe("0");
+    expect(conditional?.headers["if-none-match"]).toBeUndefined();
+    expect(plain?.headers["x-goog-if-generation-match"]).toBeUndefined();
+  });
+
+  it("only treats 412 as 'already exists' for ifAbsent writes", async () => {
+    respond = (_req, res) =>
+      res
+        .writeHead(412, { "content-type": "application/xml" })
+        .end(PRECONDITION_FAILED);
+    await expect(
+      storeFor().put(KEY, "x", { contentType: "text/html" }),
+    ).rejects.toThrow();
+
+    respond = (_req, res) => res.writeHead(500).end();
+    await expect(
+      storeFor().put(KEY, "x", { contentType: "text/html", ifAbsent: true }),
+    ).rejects.toThrow();
+  });
+
+  it("replaces metadata with a copy onto itself", async () => {
+    respond = (_req, res) =>
+      res
+        .writeHead(200, { "content-type": "application/xml" })
+        .end("<CopyObjectResult><ETag>&quot;e&quot;</ETag></CopyObjectResult>");
+
+    await storeFor().replaceMetadata(KEY, {
+      contentType: "text/html",
+      metadata: { digest: "abc" },
+    });
+
+    const [copy] = requests;
+    expect(copy).toMatchObject({ method: "PUT", path: `/snapshots/${KEY}` });
+    expect(copy?.headers).toMatchObject({
+      "x-amz-copy-source": `snapshots/${encodeURIComponent(KEY)}`,
+      "x-amz-metadata-directive": "REPLACE",
+      "x-amz-meta-digest": "abc",
+    });
+  });
+
+  it("refuses metadata over the cap without sending a request", async () => {
+    const store = storeFor({ maxMetadataBytes: 16 });
+    const metadata = { digest: "a".repeat(11) };
+
+    await expect(
+      store.put(KEY, "x", { contentType: "text/html", metadata }),
+    ).rejects.toThrow(MetadataTooLargeError);
+    await expect(
+      store.replaceMetadata(KEY, { contentType: "text/html", metadata }),
+    ).rejects.toThrow(MetadataTooLargeError);
+    expect(requests).toEqual([]);
+
+    // "digest" (6) + 10 bytes is exactly at the cap
+    await store.put(KEY, "x", {
+      contentType: "text/html",
+      metadata: { digest: "a".repeat(10) },
+    });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("caps metadata at each backend's documented limit", () => {
+    const credentials = {
+      accessKeyId: "key",
+      secretAccessKey: "secret",
+      bucket: "snapshots",
+    };
+    const r2 = createSnapshotStore({
+      backend: StorageBackend.R2,
+      cfAccountId: "account",
+      ...credentials,
+    });
+    const s3 = createSnapshotStore({
+      backend: StorageBackend.S3,
+      region: "us-east-1",
+      forcePathStyle: false,
+      ...credentials,
+    });
+    const gcs = createSnapshotStore({
+      backend: StorageBackend.GCS,
+      ...credentials,
+    });
+    const fs = createSnapshotStore({
+      backend: StorageBackend.FS,
+      rootDir: "./snapshots",
+    });
+
+    expect(r2.maxMetadataBytes).toBe(8192);
+    expect(s3.maxMetadataBytes).toBe(2048);
+    expect(gcs.maxMetadataBytes).toBe(8192);
+    expect(fs.maxMetadataBytes).toBeNull();
+  });
+});
+
+// End-to-end against a real MinIO, e.g.
+// `docker run -p 9000:9000 minio/minio server /data` plus a bucket named
+// after MINIO_BUCKET (default "snapshots"). Skipped without MINIO_ENDPOINT.
+describe.skipIf(!process.env.MINIO_ENDPOINT)(
+  "S3CompatibleStore on MinIO",
+  () => {
+    const store = createSnapshotStore({
+      backend: StorageBackend.S3,
+      endpoint: process.env.MINIO_ENDPOINT,
+      region: "us-east-1",
+      accessKeyId: process.env.MINIO_ACCESS_KEY_ID ?? "minioadmin",
+      secretAccessKey: process.env.MINIO_SECRET_ACCESS_KEY ?? "minioadmin",
+      bucket: process.env.MINIO_BUCKET ?? "snapshots",
+      forcePathStyle: true,
+    });
+    // Fresh keys per run, so reruns against the same bucket don't collide
+    const prefix = `test/${randomUUID()}`;
+
+    it("returns null for a key that was never written", async () => {
+      expect(await store.head(`${prefix}/missing.html`)).toBeNull();
+      expect(await store.get(`${prefix}/missing.html`)).toBeNull();
+    });
+
+    it("round-trips body and metadata, then replaces the metadata", async () => {
+      const key = `${prefix}/${KEY}`;
+      await store.put(key, "<html></html>", {
+        contentType: "text/html; charset=utf-8",
+        metadata: { digest: "abc", createdAt: "2026-01-01T00:00:00.000Z" },
+      });
+      expect(await store.get(key)).toEqual({
+        body: "<html></html>",
+        metadata: { digest: "abc", createdat: "2026-01-01T00:00:00.000Z" },
+      });
+
+      await store.replaceMetadata(key, {
+        contentType: "text/html; charset=utf-8",
+        metadata: { digest: "abc", createdAt: "later" },
+      });
+      expect(await store.get(key)).toEqual({
+        body: "<html></html>",
+        metadata: { digest: "abc", createdat: "later" },
+      });
+    });
+
+    it("fails an ifAbsent write when the key already exists", async () => {
+      const key = `${prefix}/report.lock`;
+      expect(
+        await putJsonObject(store, key, { a: 1 }, { ifAbsent: true }),
+      ).toBe(true);
+      expect(
+        await putJsonObject(store, key, { a: 2 }, { ifAbsent: true }),
+      ).toBe(false);
+      expect(await getJsonObject(store, key)).toEqual({ a: 1 });
+    });
+  },
+);
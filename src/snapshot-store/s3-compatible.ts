@@ -0,0 +1,160 @@
+import {
+  CopyObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  NoSuchKey,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from "@aws-sdk/client-s3";
+import { assertMetadataFits } from "./metadata-limit";
+import type { PutObjectOptions, SnapshotStore, StoredObjectHead } from "./type";
+
+/**
+ * SnapshotStore over the S3 API — R2, AWS S3, MinIO and GCS (XML API) all
+ * speak it; they differ only in how the client is built (see index.ts) and in
+ * how a conditional create is spelled.
+ */
+export class S3CompatibleStore implements SnapshotStore {
+  readonly location: string;
+  readonly maxMetadataBytes: number | null;
+  private readonly _client: S3Client;
+  private readonly _bucket: string;
+  private readonly _gcsInterop: boolean;
+
+  static register({
+    client,
+    bucket,
+    scheme,
+    maxMetadataBytes,
+    gcsInterop = false,
+  }: {
+    client: S3Client;
+    bucket: string;
+    // Only used to label the store in logs (r2://, s3://, gs://).
+    scheme: string;
+    // The backend's cap on user metadata (see metadata-limit.ts)
+    maxMetadataBytes: number | null;
+    // GCS ignores If-None-Match on PUT; it needs its own generation
+    // precondition for ifAbsent writes.
+    gcsInterop?: boolean;
+  }): S3CompatibleStore {
+    return new S3CompatibleStore(
+      client,
+      bucket,
+      scheme,
+      maxMetadataBytes,
+      gcsInterop,
+    );
+  }
+
+  private constructor(
+    client: S3Client,
+    bucket: string,
+    scheme: string,
+    maxMetadataBytes: number | null,
+    gcsInterop: boolean,
+  ) {
+    this._client = client;
+    this._bucket = bucket;
+    this._gcsInterop = gcsInterop;
+    this.maxMetadataBytes = maxMetadataBytes;
+    this.location = `${scheme}://${bucket}`;
+  }
+
+  async head(key: string): Promise<StoredObjectHead | null> {
+    try {
+      const res = await this._client.send(
+        new HeadObjectCommand({ Bucket: this._bucket, Key: key }),
+      );
+      return { metadata: res.Metadata ?? {} };
+    } catch (e) {
+      if (e instanceof NotFound || e instanceof NoSuchKey) {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  async get(
+    key: string,
+  ): Promise<(StoredObjectHead & { body: string }) | null> {
+    try {
+      const res = await this._client.send(
+        new GetObjectCommand({ Bucket: this._bucket, Key: key }),
+      );
+      return {
+        metadata: res.Metadata ?? {},
+        body: (await res.Body?.transformToString()) ?? "",
+      };
+    } catch (e) {
+      if (e instanceof NoSuchKey || e instanceof NotFound) {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  async put(
+    key: string,
+    body: Uint8Array | string,
+    { contentType, cacheControl, metadata, ifAbsent }: PutObjectOptions,
+  ): Promise<boolean> {
+    assertMetadataFits(key, metadata, this.maxMetadataBytes);
+    const command = new PutObjectCommand({
+      Bucket: this._bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      CacheControl: cacheControl,
+      Metadata: metadata,
+      IfNoneMatch: ifAbsent && !this._gcsInterop ? "*" : undefined,
+    });
+    if (ifAbsent && this._gcsInterop) {
+      command.middlewareStack.add(
+        (next) => (args) => {
+          const request = args.request as { headers?: Record<string, string> };
+          if (request.headers) {
+            request.headers["x-goog-if-generation-match"] = "0";
+          }
+          return next(args);
+        },
+        { step: "build", name: "gcsIfGenerationMatch" },
+      );
+    }
+    try {
+      await this._client.send(command);
+      return true;
+    } catch (e) {
+      if (
+        ifAbsent &&
+        e instanceof S3ServiceException &&
+        e.$metadata.httpStatusCode === 412
+      ) {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  // Copy-in-place with REPLACE is the only way to rewrite an object's
+  // metadata; the body stays server-side, so it costs no upload bandwidth.
+  async replaceMetadata(
+    key: string,
+    { contentType, cacheControl, metadata }: Omit<PutObjectOptions, "ifAbsent">,
+  ): Promise<void> {
+    assertMetadataFits(key, metadata, this.maxMetadataBytes);
+    await this._client.send(
+      new CopyObjectCommand({
+        Bucket: this._bucket,
+        Key: key,
+        CopySource: `${this._bucket}/${encodeURIComponent(key)}`,
+        MetadataDirective: "REPLACE",
+        ContentType: contentType,
+        CacheControl: cacheControl,
+        Metadata: metadata,
+      }),
+    );
+  }
+}
@@ -0,0 +1,82 @@
+export enum StorageBackend {
+  R2 = "r2",
+  S3 = "s3",
+  GCS = "gcs",
+  FS = "fs",
+}
+
+export type StorageConfig =
+  | {
+      backend: StorageBackend.R2;
+      cfAccountId: string;
+      accessKeyId: string;
+      secretAccessKey: string;
+      bucket: string;
+    }
+  | {
+      // Any S3-compatible endpoint (AWS S3, MinIO, ...). No endpoint means AWS.
+      backend: StorageBackend.S3;
+      endpoint?: string;
+      region: string;
+      accessKeyId: string;
+      secretAccessKey: string;
+      bucket: string;
+      // MinIO and most self-hosted endpoints don't do virtual-hosted buckets.
+      forcePathStyle: boolean;
+    }
+  | {
+      // GCS through its S3-interoperable XML API, with HMAC keys.
+      backend: StorageBackend.GCS;
+      accessKeyId: string;
+      secretAccessKey: string;
+      bucket: string;
+    }
+  | {
+      backend: StorageBackend.FS;
+      rootDir: string;
+    };
+
+export interface PutObjectOptions {
+  contentType: string;
+  cacheControl?: string;
+  metadata?: Record<string, string>;
+  // Only write when the key doesn't exist yet — a cheap cross-task lock.
+  ifAbsent?: boolean;
+}
+
+export interface StoredObjectHead {
+  // Keys are lowercased by every backend (S3 semantics), so read "digest",
+  // "createdat", ... regardless of how they were written.
+  metadata: Record<string, string>;
+}
+
+/**
+ * Where snapshots and batch bookkeeping objects live. Keys are the
+ * backend-independent layout from buildSnapshotObjectKey / batch key
+ * builders; every backend stores them verbatim.
+ *
+ * Reads of a missing key return null; every other failure throws.
+ */
+export interface SnapshotStore {
+  /** Human-readable location for logs, e.g. "r2://bucket". */
+  readonly location: string;
+  /**
+   * Most bytes of user metadata one object can carry (see metadataByteSize);
+   * null when the backend has no practical cap. put and replaceMetadata
+   * throw a MetadataTooLargeError over it.
+   */
+  readonly maxMetadataBytes: number | null;
+  head(key: string): Promise<StoredObjectHead | null>;
+  get(key: string): Promise<(StoredObjectHead & { body: string }) | null>;
+  /** Returns false only when `ifAbsent` was set and the key already existed. */
+  put(
+    key: string,
+    body: Uint8Array | string,
+    options: PutObjectOptions,
+  ): Promise<boolean>;
+  /** Rewrite an existing object's metadata without re-sending its body. */
+  replaceMetadata(
+    key: string,
+    options: Omit<PutObjectOptions, "ifAbsent">,
+  ): Promise<void>;
+}
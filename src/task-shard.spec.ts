@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { resolveTaskShard, selectShardUrls } from "./task-shard";
+
+const URLS = Array.from(
+  { length: 40 },
+  (_, i) => `https://example.com/page-${i}`,
+);
+
+describe("resolveTaskShard", () => {
+  it("is shard 0 of 1 outside a multi-task execution", () => {
+    expect(resolveTaskShard({})).toEqual({ index: 0, count: 1 });
+  });
+
+  it("reads the Cloud Run task index and count", () => {
+    expect(
+      resolveTaskShard({
+        CLOUD_RUN_TASK_INDEX: "2",
+        CLOUD_RUN_TASK_COUNT: "4",
+      }),
+    ).toEqual({ index: 2, count: 4 });
+  });
+
+  it("rejects an index outside the task count", () => {
+    expect(() =>
+      resolveTaskShard({
+        CLOUD_RUN_TASK_INDEX: "4",
+        CLOUD_RUN_TASK_COUNT: "4",
+      }),
+    ).toThrow(/CLOUD_RUN_TASK_INDEX/);
+  });
+});
+
+describe("selectShardUrls", () => {
+  it("returns every URL for a single shard", async () => {
+    expect(await selectShardUrls(URLS, { index: 0, count: 1 })).toEqual(URLS);
+  });
+
+  it("partitions URLs so each lands in exactly one shard", async () => {
+    const shards = await Promise.all(
+      [0, 1, 2].map((index) => selectShardUrls(URLS, { index, count: 3 })),
+    );
+    expect(shards.flat().sort()).toEqual([...URLS].sort());
+    for (const shard of shards) {
+      expect(shard.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("assigns by URL, not by position in the list", async () => {
+    const shard = { index: 1, count: 3 };
+    const forward = await selectShardUrls(URLS, shard);
+    const reversed = await selectShardUrls([...URLS].reverse(), shard);
+    expect([...reversed].sort()).toEqual([...forward].sort());
+  });
+});
@@ -0,0 +1,56 @@
+import { sha256Hex } from "./util";
+
+// Cloud Run sets these on every task of a multi-task execution; a plain
+// `docker run` (or a single-task job) has neither, which is shard 0 of 1.
+const TASK_INDEX_ENV = "CLOUD_RUN_TASK_INDEX";
+const TASK_COUNT_ENV = "CLOUD_RUN_TASK_COUNT";
+
+export interface TaskShard {
+  index: number;
+  count: number;
+}
+
+export function resolveTaskShard(
+  env: NodeJS.ProcessEnv = process.env,
+): TaskShard {
+  const index = parseInt(env[TASK_INDEX_ENV] ?? "", 10);
+  const count = parseInt(env[TASK_COUNT_ENV] ?? "", 10);
+  if (!Number.isInteger(count) || count < 1) {
+    return { index: 0, count: 1 };
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= count) {
+    throw new Error(
+      `${TASK_INDEX_ENV} must be an integer in [0, ${count}), got ${env[TASK_INDEX_ENV]}`,
+    );
+  }
+  return { index, count };
+}
+
+/**
+ * Which shard renders `url`. Assignment hashes the URL itself rather than its
+ * position in the list, so tasks agree on ownership even if their sitemap
+ * fetches came back in a different order (or a URL appeared between them) —
+ * no URL is rendered twice and none is dropped by an index shift.
+ */
+export async function shardIndexOf(
+  url: string,
+  shardCount: number,
+): Promise<number> {
+  if (shardCount <= 1) return 0;
+  const digest = await sha256Hex(url);
+  return parseInt(digest.slice(0, 8), 16) % shardCount;
+}
+
+export async function selectShardUrls(
+  urls: string[],
+  shard: TaskShard,
+): Promise<string[]> {
+  if (shard.count <= 1) return urls;
+  const owned: string[] = [];
+  for (const url of urls) {
+    if ((await shardIndexOf(url, shard.count)) === shard.index) {
+      owned.push(url);
+    }
+  }
+  return owned;
+}
@@ -0,0 +1,23 @@
+import * as TelegramBot from "node-telegram-bot-api";
+
+// Telegram is a best-effort side channel: every send is capped at 10s and
+// callers catch and log failures without affecting the job.
+export async function sendTelegramMessage({
+  botToken,
+  chatId,
+  message,
+}: {
+  botToken: string;
+  chatId: string;
+  message: string;
+}): Promise<void> {
+  const telegramBot = new TelegramBot(botToken);
+  await Promise.race([
+    telegramBot.sendMessage(chatId, message.slice(0, 4096), {
+      parse_mode: "MarkdownV2",
+    }),
+    new Promise((_, reject) =>
+      setTimeout(() => reject(new Error("Telegram send timeout")), 10000),
+    ),
+  ]);
+}
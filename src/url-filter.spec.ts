@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { UrlFilter } from "./url-filter";
+
+describe("UrlFilter", () => {
+  it("is inactive without any rules", () => {
+    const filter = UrlFilter.register({
+      include: [],
+      exclude: [],
+      allowedHosts: [],
+    });
+    expect(filter.isActive).toBe(false);
+    expect(filter.check("https://other.com/admin")).toBeNull();
+  });
+
+  it("allows listed hosts and wildcard subdomains", () => {
+    const filter = UrlFilter.register({
+      include: [],
+      exclude: [],
+      allowedHosts: ["example.com", "*.example.org"],
+    });
+    expect(filter.check("https://example.com/")).toBeNull();
+    expect(filter.check("https://blog.example.org/a")).toBeNull();
+    expect(filter.check("https://example.org/a")).toBeNull();
+    expect(filter.check("https://www.example.com/")).toEqual({
+      reason: "host_not_allowed",
+      rule: null,
+    });
+    expect(filter.check("https://badexample.org/")).toEqual({
+      reason: "host_not_allowed",
+      rule: null,
+    });
+  });
+
+  it("reports the exclude pattern that matched", () => {
+    const filter = UrlFilter.register({
+      include: [],
+      exclude: [{ pattern: "/admin/**" }, { regex: "/page/\\d+$" }],
+      allowedHosts: [],
+    });
+    expect(filter.check("https://example.com/admin")).toEqual({
+      reason: "excluded",
+      rule: "/admin/**",
+    });
+    expect(filter.check("https://example.com/blog/page/2")).toEqual({
+      reason: "excluded",
+      rule: "//page/\\d+$/",
+    });
+    expect(filter.check("https://example.com/blog/post")).toBeNull();
+  });
+
+  it("requires an include match when includes are set", () => {
+    const filter = UrlFilter.register({
+      include: [{ pattern: "/blog/**" }, { pattern: "/" }],
+      exclude: [{ pattern: "/blog/tag/**" }],
+      allowedHosts: ["example.com"],
+    });
+    expect(filter.check("https://example.com/")).toBeNull();
+    expect(filter.check("https://example.com/blog/post")).toBeNull();
+    expect(filter.check("https://example.com/about")).toEqual({
+      reason: "not_included",
+      rule: null,
+    });
+    // Exclusion is checked before inclusion
+    expect(filter.check("https://example.com/blog/tag/news")).toEqual({
+      reason: "excluded",
+      rule: "/blog/tag/**",
+    });
+    // And the host before either
+    expect(filter.check("https://cdn.example.com/blog/post")).toEqual({
+      reason: "host_not_allowed",
+      rule: null,
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  compilePathPattern,
+  pathPatternLabel,
+  type PathPattern,
+} from "./path-rules";
+
+export type UrlExclusionReason =
+  // The URL's host isn't in ALLOWED_HOSTS
+  | "host_not_allowed"
+  // The URL's path matches a URL_EXCLUDE pattern
+  | "excluded"
+  // URL_INCLUDE is set and the URL's path matches none of its patterns
+  | "not_included"
+  // RESPECT_ROBOTS_TXT is set and robots.txt disallows the URL
+  | "robots_disallowed";
+
+/** A discovered URL the filter kept out of the run, and why. */
+export interface ExcludedUrl {
+  url: string;
+  reason: UrlExclusionReason;
+  // The URL_EXCLUDE pattern or robots.txt line that matched; null for the
+  // other reasons
+  rule: string | null;
+}
+
+export interface UrlFilterConfig {
+  include: PathPattern[];
+  exclude: PathPattern[];
+  // Hostnames; `*.example.com` also matches any subdomain. Empty allows all.
+  allowedHosts: string[];
+}
+
+/** Whether `host` is one of `allowedHosts`, where `*.` also allows subdomains. */
+export function hostAllowed(host: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some((allowed) =>
+    allowed.startsWith("*.")
+      ? host === allowed.slice(2) || host.endsWith(allowed.slice(1))
+      : host === allowed,
+  );
+}
+
+/**
+ * Decides which discovered URLs are rendered: the host must be allowed, the
+ * path must match no URL_EXCLUDE pattern and, when URL_INCLUDE is set, at
+ * least one of its patterns. Checks run in that order, so an excluded URL
+ * reports the first check it failed.
+ */
+export class UrlFilter {
+  private readonly _include: RegExp[];
+  private readonly _exclude: { label: string; test: RegExp }[];
+  private readonly _allowedHosts: string[];
+
+  static register(config: UrlFilterConfig): UrlFilter {
+    return new UrlFilter(config);
+  }
+
+  private constructor({ include, exclude, allowedHosts }: UrlFilterConfig) {
+    this._include = include.map(compilePathPattern);
+    this._exclude = exclude.map((pattern) => ({
+      label: pathPatternLabel(pattern),
+      test: compilePathPattern(pattern),
+    }));
+    this._allowedHosts = allowedHosts.map((host) => host.toLowerCase());
+  }
+
+  get isActive(): boolean {
+    return (
+      this._include.length > 0 ||
+      this._exclude.length > 0 ||
+      this._allowedHosts.length > 0
+    );
+  }
+
+  /** Why the URL is excluded, or null when it should be rendered. */
+  check(url: string): Omit<ExcludedUrl, "url"> | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+    if (
+      this._allowedHosts.length > 0 &&
+      !hostAllowed(parsed.hostname, this._allowedHosts)
+    ) {
+      return { reason: "host_not_allowed", rule: null };
+    }
+    const path = parsed.pathname;
+    const excludedBy = this._exclude.find(({ test }) => test.test(path));
+    if (excludedBy) {
+      return { reason: "excluded", rule: excludedBy.label };
+    }
+    if (
+      this._include.length > 0 &&
+      !this._include.some((test) => test.test(path))
+    ) {
+      return { reason: "not_included", rule: null };
+    }
+    return null;
+  }
+}